@@ -6,6 +6,8 @@ import { defineConfig } from "eslint/config";
 
 
 export default defineConfig([
+  // El lockfile lo genera npm (tiene una clave vacía para el paquete raíz) y dist/ y coverage/ son salidas de build
+  { ignores: ["package-lock.json", "dist/", "coverage/"] },
   { files: ["**/*.{js,mjs,cjs,ts,mts,cts}"], plugins: { js }, extends: ["js/recommended"] },
   { files: ["**/*.{js,mjs,cjs,ts,mts,cts}"], languageOptions: { globals: globals.node } },
   tseslint.configs.recommended,
@@ -2,17 +2,19 @@
  * app.ts
  *
  * Crea y configura la instancia de Express.
- * Aplica middlewares de seguridad, parsers, logs y CORS.
+ * Aplica request id, middlewares de seguridad, parsers, logs y CORS.
  * No levanta el servidor HTTP aquí.
  */
 
-import express, { Application, Request, Response, NextFunction } from 'express';
+import express, { Application } from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
 import compression from 'compression';
-import morgan from 'morgan';
-import accesoMaestroRuta from './rutas/accesoMaestro.ruta';
-
+import { asignarRequestId } from './middlewares/requestId.middleware';
+import { registrarSolicitudHTTP } from './middlewares/registroHttp.middleware';
+import { rutaNoEncontrada } from './middlewares/notFound.middleware';
+import { manejadorErrores } from './middlewares/error.middleware';
+import { env } from './config/variables';
 
 /**
  * Creamos la instancia de Express.
@@ -21,6 +23,32 @@ import accesoMaestroRuta from './rutas/accesoMaestro.ruta';
  */
 const app: Application = express();
 
+/**
+ * Trust proxy:
+ * Detrás de un proxy o balanceador, req.ip sería siempre la dirección del proxy:
+ * todos los límites por IP compartirían un solo contador y la lista de IPs del
+ * acceso maestro compararía la IP equivocada. Con TRUST_PROXY, Express toma la IP
+ * del cliente de X-Forwarded-For, pero solo a través de los proxies configurados.
+ */
+app.set('trust proxy', env.TRUST_PROXY);
+
+/**
+ * Request id:
+ * Asigna un X-Request-Id a cada request (o respeta el que envía el proxy)
+ * y abre su contexto: todos los logs y errores de la request lo incluyen.
+ * Va primero para que cubra también a los middlewares siguientes.
+ */
+app.use(asignarRequestId);
+
+/**
+ * Morgan:
+ * Middleware de logging HTTP, conectado a Winston.
+ *
+ * - Registra método, ruta, status, latencia, usuario y request id de cada solicitud.
+ * - Va antes de los parsers para registrar también las solicitudes con un body inválido.
+ */
+app.use(registrarSolicitudHTTP);
+
 /**
  * Helmet:
  * Aplica cabeceras HTTP seguras:
@@ -60,6 +88,7 @@ app.use(compression());
  */
 app.use(cors({
   origin: '*', // TODO: restringir en producción
+  exposedHeaders: ['X-Request-Id'], // el frontend puede leerlo para reportar errores
 }));
 
 /**
@@ -77,22 +106,14 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 /**
- * Morgan:
- * Middleware de logging HTTP.
- *
- * - 'dev' es colorido y útil en desarrollo.
- * - En producción podemos integrarlo con Winston.
- */
-app.use(morgan('dev'));
-
-
-/**
- * Acceso Maestro:
+ * Rutas de salud (para el orquestador):
+ * - Liveness (/live)
+ * - Readiness (/ready): MongoDB, proveedor de SMS y cache
  *
- * Permite el acceso directo del administrador mediante un código maestro.
- * No requiere SMS ni verificación previa.
+ * Todas con el prefijo /health
  */
-app.use('/api/acceso-maestro', accesoMaestroRuta);
+import saludRutas from './rutas/salud.ruta';
+app.use('/health', saludRutas);
 
 /**
  * Rutas de autenticación:
@@ -100,6 +121,7 @@ app.use('/api/acceso-maestro', accesoMaestroRuta);
  * - Verificación (/verificar)
  * - Login (/login)
  * - Refresh (/refresh)
+ * - Acceso maestro del administrador (/acceso-maestro)
  *
  * Todas con el prefijo /api/autenticacion
  */
@@ -122,44 +144,56 @@ app.use('/api/autenticacion', autenticacionRutas);
 import adminRuta from './rutas/admin.ruta';
 app.use('/api/admin', adminRuta);
 
+/**
+ * Rutas de servicios:
+ * - CRUD de los servicios publicados por los prestadores.
+ *
+ * Todas con el prefijo /api/servicios
+ */
+import serviciosRutas from './rutas/servicios.ruta';
+app.use('/api/servicios', serviciosRutas);
 
 /**
- * Placeholder de rutas:
- * Aquí importaremos rutas reales cuando las creemos.
+ * Rutas de clicks:
+ * - Registro público de interacciones con un servicio.
+ * - Contadores por servicio para su dueño.
  *
- * Ejemplo:
- * import autenticacionRutas from './rutas/autenticacion.ruta';
- * app.use('/api/auth', autenticacionRutas);
+ * Todas con el prefijo /api/clicks
  */
+import clicksRutas from './rutas/clicks.ruta';
+app.use('/api/clicks', clicksRutas);
 
 /**
- * Middleware para rutas no encontradas (404).
- * Buena práctica profesional.
+ * Rutas de usuarios:
+ * - Perfil del usuario autenticado (/yo): ver, editar y eliminar la cuenta.
+ *
+ * Todas con el prefijo /api/usuarios
  */
-app.use((req: Request, res: Response, next: NextFunction) => {
-  res.status(404).json({
-    exito: false,
-    mensaje: 'Ruta no encontrada',
-    datos: null,
-  });
-});
+import usuariosRutas from './rutas/usuarios.ruta';
+app.use('/api/usuarios', usuariosRutas);
 
 /**
- * Middleware global de errores.
- * Intercepta cualquier error lanzado en rutas.
+ * Rutas públicas estándar:
+ * - Claves públicas de verificación de tokens (/jwks.json)
  *
- * Recomendación:
- * - Crear un error middleware dedicado en middlewares/error.middleware.ts
- * y usarlo aquí con app.use(errorMiddleware);
- */
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  console.error(err);
-
-  res.status(err.status || 500).json({
-    exito: false,
-    mensaje: err.message || 'Error interno del servidor',
-    datos: null,
-  });
-});
+ * Todas con el prefijo /.well-known
+ */
+import wellKnownRutas from './rutas/wellKnown.ruta';
+app.use('/.well-known', wellKnownRutas);
+
+
+/**
+ * Rutas no encontradas (404):
+ * si ninguna ruta atendió la request, se genera un ErrorNoEncontrado.
+ */
+app.use(rutaNoEncontrada);
+
+/**
+ * Manejador global de errores:
+ * convierte cualquier error (de la aplicación, Mongoose, JWT, etc.)
+ * en la respuesta de error estándar y lo registra en el log.
+ * Debe ser el último middleware.
+ */
+app.use(manejadorErrores);
 
 export default app;
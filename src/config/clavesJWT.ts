@@ -0,0 +1,174 @@
+/**
+ * src/config/clavesJWT.ts
+ *
+ * Claves asimétricas con las que se firman y verifican los tokens de acceso.
+ *
+ * Con firma asimétrica (RS256 / ES256) cualquier servicio puede verificar
+ * nuestros tokens usando solo la clave pública, publicada en
+ * GET /.well-known/jwks.json. Nadie más que este backend puede emitirlos.
+ *
+ * Cada clave se identifica por su kid, que viaja en el header del token:
+ *  - La clave activa firma los tokens nuevos.
+ *  - Las claves retiradas ya no firman, pero siguen verificando.
+ *
+ * Rotación sin cortar sesiones:
+ *  1. Se agrega el archivo de la nueva clave (<kid>.pem) en JWT_CLAVES_DIR.
+ *  2. JWT_CLAVE_ACTIVA pasa a ser la nueva y la anterior se agrega a JWT_CLAVES_RETIRADAS.
+ *  3. Pasado JWT_EXPIRATION, se quita la anterior de JWT_CLAVES_RETIRADAS (y su archivo).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { KeyObject, createPrivateKey, createPublicKey, JsonWebKey } from 'crypto';
+import { env } from './variables';
+import { logger } from './logger';
+
+/**
+ * Algoritmos asimétricos soportados.
+ */
+export type AlgoritmoJWT = 'RS256' | 'ES256';
+
+/**
+ * ClaveJWT
+ *
+ * - privada: solo la tiene una clave que puede firmar (la activa);
+ *   para una clave retirada alcanza con la pública.
+ */
+export interface ClaveJWT {
+  kid: string;
+  algoritmo: AlgoritmoJWT;
+  privada?: KeyObject;
+  publica: KeyObject;
+}
+
+/**
+ * ConjuntoClavesJWT
+ *
+ * - activa: clave con la que se firma (undefined → HS256 con JWT_SECRET).
+ * - verificacion: todas las claves aceptadas al verificar (activa + retiradas), por kid.
+ */
+export interface ConjuntoClavesJWT {
+  activa?: ClaveJWT;
+  verificacion: Map<string, ClaveJWT>;
+}
+
+/**
+ * Deduce el algoritmo a partir del tipo de clave.
+ * Solo se aceptan RSA (RS256) y EC sobre la curva P-256 (ES256).
+ */
+const detectarAlgoritmo = (kid: string, publica: KeyObject): AlgoritmoJWT => {
+  if (publica.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (publica.asymmetricKeyType === 'ec' && publica.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`La clave JWT "${kid}" debe ser RSA o EC P-256.`);
+};
+
+/**
+ * crearClaveJWT
+ *
+ * Arma una ClaveJWT a partir de un PEM, privado o público.
+ * Con un PEM público la clave solo sirve para verificar.
+ *
+ * @param kid - Identificador de la clave
+ * @param pem - Contenido del archivo PEM
+ */
+export const crearClaveJWT = (kid: string, pem: string): ClaveJWT => {
+  const privada = pem.includes('PRIVATE KEY') ? createPrivateKey(pem) : undefined;
+  const publica = createPublicKey(privada ?? pem);
+
+  return { kid, algoritmo: detectarAlgoritmo(kid, publica), privada, publica };
+};
+
+/**
+ * Lee el archivo <kid>.pem del directorio de claves.
+ */
+const leerClave = (directorio: string, kid: string): ClaveJWT => {
+  const archivo = path.join(directorio, `${kid}.pem`);
+
+  if (!fs.existsSync(archivo)) {
+    throw new Error(`No se encontró el archivo de la clave JWT "${kid}" (${archivo}).`);
+  }
+
+  return crearClaveJWT(kid, fs.readFileSync(archivo, 'utf8'));
+};
+
+/**
+ * cargarClavesJWT
+ *
+ * Construye el conjunto de claves a partir de la configuración.
+ * Falla al arrancar si falta un archivo o la clave activa no tiene parte privada:
+ * es preferible a descubrirlo al primer login.
+ */
+export const cargarClavesJWT = (
+  directorio: string,
+  kidActiva?: string,
+  kidsRetiradas: string[] = [],
+): ConjuntoClavesJWT => {
+  const verificacion = new Map<string, ClaveJWT>();
+
+  for (const kid of kidsRetiradas) {
+    verificacion.set(kid, leerClave(directorio, kid));
+  }
+
+  if (!kidActiva) {
+    return { verificacion };
+  }
+
+  const activa = leerClave(directorio, kidActiva);
+
+  if (!activa.privada) {
+    throw new Error(`La clave JWT activa "${kidActiva}" debe incluir la clave privada.`);
+  }
+
+  verificacion.set(kidActiva, activa);
+
+  return { activa, verificacion };
+};
+
+let clavesJWT = cargarClavesJWT(env.JWT_CLAVES_DIR, env.JWT_CLAVE_ACTIVA, env.JWT_CLAVES_RETIRADAS);
+
+if (clavesJWT.activa) {
+  const kids = [...clavesJWT.verificacion.keys()].join(', ');
+  logger.info(
+    `Tokens firmados con ${clavesJWT.activa.algoritmo} (kid ${clavesJWT.activa.kid}); claves de verificación: ${kids}`,
+  );
+} else {
+  logger.info('JWT_CLAVE_ACTIVA no definida: los tokens se firman con HS256 y JWT_SECRET.');
+}
+
+/**
+ * getClavesJWT
+ *
+ * Devuelve el conjunto de claves vigente.
+ */
+export const getClavesJWT = (): ConjuntoClavesJWT => clavesJWT;
+
+/**
+ * configurarClavesJWT
+ *
+ * Reemplaza el conjunto de claves (ej: tests, o recarga tras una rotación).
+ */
+export const configurarClavesJWT = (conjunto: ConjuntoClavesJWT): void => {
+  clavesJWT = conjunto;
+};
+
+/**
+ * obtenerJWKS
+ *
+ * Publica las claves públicas de verificación en formato JWK Set (RFC 7517).
+ * Incluye las retiradas: un servicio externo debe poder verificar tokens
+ * emitidos antes de la rotación mientras no venzan.
+ */
+export const obtenerJWKS = (): { keys: JsonWebKey[] } => ({
+  keys: [...clavesJWT.verificacion.values()].map((clave) => ({
+    ...clave.publica.export({ format: 'jwk' }),
+    kid: clave.kid,
+    alg: clave.algoritmo,
+    use: 'sig',
+  })),
+});
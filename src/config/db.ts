@@ -3,11 +3,15 @@
  *
  * Configura la conexión a MongoDB usando Mongoose.
  * Esto es la base para toda la persistencia de datos en ServiPro.
+ *
+ * También lleva la cuenta de las conexiones del pool del driver,
+ * que se muestran en el estado del sistema (GET /api/admin/estado).
  */
 
-import mongoose from "mongoose";
+import mongoose, { mongo } from "mongoose";
 import { env } from "./variables";
 import { logger } from "./logger";
+import { ejecutarMigraciones } from "./migraciones";
 
 /**
  * Opciones de configuración para Mongoose.
@@ -24,20 +28,84 @@ const mongooseOptions: mongoose.ConnectOptions = {
   socketTimeoutMS: 45000,
 };
 
+/**
+ * Conexiones del pool de MongoDB, contadas a partir de los eventos del driver
+ * (Mongoose no expone estadísticas del pool).
+ */
+const contadoresPool = {
+  abiertas: 0,
+  enUso: 0,
+  esperasFallidas: 0,
+};
+
+/**
+ * Estadísticas del pool de conexiones a MongoDB.
+ */
+export interface EstadisticasPoolMongo {
+  // Tamaño máximo y mínimo configurados
+  maximo: number;
+  minimo: number;
+  // Conexiones abiertas, prestadas a una operación y libres
+  abiertas: number;
+  enUso: number;
+  disponibles: number;
+  // Operaciones que no consiguieron una conexión (pool agotado o servidor caído)
+  esperasFallidas: number;
+}
+
+/**
+ * Escucha los eventos del pool del cliente para mantener los contadores.
+ */
+const monitorearPool = (cliente: mongo.MongoClient): void => {
+  cliente.on("connectionCreated", () => contadoresPool.abiertas++);
+  cliente.on("connectionClosed", () => contadoresPool.abiertas--);
+  cliente.on("connectionCheckedOut", () => contadoresPool.enUso++);
+  cliente.on("connectionCheckedIn", () => contadoresPool.enUso--);
+  cliente.on("connectionCheckOutFailed", () => contadoresPool.esperasFallidas++);
+};
+
+/**
+ * obtenerEstadisticasPool
+ *
+ * Devuelve el estado actual del pool de conexiones a MongoDB.
+ */
+export const obtenerEstadisticasPool = (): EstadisticasPoolMongo => {
+  const opciones = mongoose.connection.getClient()?.options;
+
+  return {
+    maximo: opciones?.maxPoolSize ?? 0,
+    minimo: opciones?.minPoolSize ?? 0,
+    abiertas: contadoresPool.abiertas,
+    enUso: contadoresPool.enUso,
+    disponibles: Math.max(0, contadoresPool.abiertas - contadoresPool.enUso),
+    esperasFallidas: contadoresPool.esperasFallidas,
+  };
+};
+
 /**
  * connectDB
  *
  * Función que realiza la conexión a MongoDB.
  * La exportamos para poder llamarla desde src/index.ts,
  * de modo que el servidor no arranque si la base de datos falla.
+ * Además registra los contadores del pool de conexiones y ejecuta las migraciones pendientes.
  */
 export const connectDB = async (): Promise<void> => {
   try {
     // Inicia conexión a MongoDB usando la URI definida en el archivo .env
-    await mongoose.connect(env.MONGODB_URI, mongooseOptions);
+    const conexion = mongoose.connect(env.MONGODB_URI, mongooseOptions);
+
+    // El cliente del driver ya existe, pero todavía no abrió ninguna conexión:
+    // se empieza a escuchar el pool antes de que se cree la primera
+    monitorearPool(mongoose.connection.getClient());
+
+    await conexion;
 
     // Si la conexión es exitosa, lo informamos en el logger
     logger.info("Conexión a MongoDB establecida correctamente.");
+
+    // Índices y datos de versiones anteriores (ver config/migraciones.ts)
+    await ejecutarMigraciones();
   } catch (error) {
     // Capturamos cualquier error y lo mostramos en logs
     logger.error("Error al conectar a MongoDB:");
@@ -6,6 +6,18 @@
  *  - guardar logs en archivos
  *  - enviar logs a servicios externos (e.g. Graylog, Logstash, Datadog)
  *  - formatear y categorizar mensajes (info, error, debug, etc.)
+ *  - correlacionar cada log con la request que lo generó (request id, usuario y ruta)
+ *  - enmascarar datos personales y secretos (teléfonos, códigos, tokens) antes de escribirlos
+ *  - rotar los archivos por día y por tamaño, comprimirlos y borrarlos al vencer la retención
+ *
+ * Archivos (en LOG_DIRECTORIO, uno por día: <nombre>-AAAA-MM-DD.log):
+ *  - aplicacion → todos los logs
+ *  - errores    → solo errores
+ *  - auditoria  → acciones de administración (loggerAuditoria), retención LOG_RETENCION_DIAS_SEGURIDAD
+ *  - seguridad  → eventos de seguridad (loggerSeguridad), retención LOG_RETENCION_DIAS_SEGURIDAD
+ *
+ * Los destinos (consola y/o archivos) se eligen con LOG_TRANSPORTES (ver config/variables.ts):
+ * en test, por defecto, solo consola.
  *
  * Aquí creamos un logger centralizado para todo ServiPro.
  * Todos los módulos deben importar este logger y no usar console.log directamente,
@@ -13,24 +25,151 @@
  */
 
 import { createLogger, format, transports } from "winston";
+import TransportStream from "winston-transport";
+import DailyRotateFile from "winston-daily-rotate-file";
+import path from "path";
 import dotenv from "dotenv";
+import { env } from "./variables";
+import { obtenerContextoRequest } from "../utilidades/contextoRequest";
+import { CLAVES_SENSIBLES_POR_DEFECTO, VALOR_REDACTADO, crearRedactor } from "../utilidades/redaccionLogs";
 
 // Cargamos variables de entorno para saber si estamos en production o development
 dotenv.config();
 
-const { combine, timestamp, printf, colorize, errors } = format;
+const { combine, timestamp, printf, colorize, errors, json } = format;
+
+/**
+ * En producción los logs salen en JSON (una línea por evento) para que el agregador
+ * los pueda filtrar por campo; en desarrollo, como texto legible.
+ */
+const esProduccion = process.env.NODE_ENV === "production";
+
+/**
+ * Agrega a cada log los datos de la request en curso (ver utilidades/contextoRequest.ts):
+ * request id, usuario autenticado, método y ruta. No pisa los campos que el log ya trae.
+ * Fuera de una request no agrega nada.
+ */
+const agregarContextoRequest = format((info) => {
+  const contexto = obtenerContextoRequest();
+
+  if (contexto) {
+    info.requestId ??= contexto.requestId;
+    info.usuarioId ??= contexto.usuarioId;
+    info.metodo ??= contexto.metodo;
+    info.ruta ??= contexto.ruta;
+  }
+
+  return info;
+});
+
+/**
+ * Redactor de datos personales y secretos (ver utilidades/redaccionLogs.ts).
+ * Las claves sensibles por defecto se amplían con LOG_CLAVES_SENSIBLES;
+ * el código maestro se elimina de cualquier texto en el que aparezca.
+ */
+const redactor = crearRedactor({
+  clavesSensibles: [...CLAVES_SENSIBLES_POR_DEFECTO, ...env.LOG_CLAVES_SENSIBLES],
+  secretos: [env.CODIGO_MAESTRO],
+});
+
+/**
+ * Enmascara teléfonos, códigos, tokens y secretos en el mensaje, el stack y los metadatos,
+ * antes de que el log llegue a cualquier transport (consola o archivos).
+ */
+const redactarDatosSensibles = format((info) => {
+  for (const clave of Object.keys(info)) {
+    info[clave] = redactor.esClaveSensible(clave) ? VALOR_REDACTADO : redactor.redactar(info[clave]);
+  }
+
+  return info;
+});
 
 /**
  * Creamos un formato customizado para nuestros logs:
  * - Incluye fecha y hora
  * - Incluye nivel (info, error, etc.)
+ * - Incluye la categoría (auditoria, seguridad), si la tiene
+ * - Incluye el request id, si el log ocurrió durante una request
  * - Muestra el mensaje
  * - Incluye stack trace en caso de errores
  */
-const logFormat = printf(({ level, message, timestamp, stack }) => {
-  return `${timestamp} [${level}]: ${stack || message}`;
+const logFormat = printf(({ level, message, timestamp, stack, requestId, categoria }) => {
+  const etiqueta = categoria ? ` [${categoria}]` : "";
+  const request = requestId ? ` [${requestId}]` : "";
+  return `${timestamp} [${level}]${etiqueta}${request}: ${stack || message}`;
 });
 
+/**
+ * Categorías de log con archivo propio. Se asignan con los loggers hijos de abajo.
+ */
+type CategoriaLog = "auditoria" | "seguridad";
+
+/**
+ * Deja pasar solo los logs de la categoría indicada (para los archivos de auditoría y seguridad).
+ */
+const soloCategoria = (categoria: CategoriaLog) => format((info) => (info.categoria === categoria ? info : false))();
+
+/**
+ * Archivo con rotación diaria y por tamaño (LOG_TAMANO_MAXIMO).
+ * Los archivos rotados se comprimen con gzip y se borran pasados los días de retención.
+ */
+const crearArchivoRotativo = (
+  nombre: string,
+  retencionDias: number,
+  opciones: Pick<DailyRotateFile.GeneralDailyRotateFileTransportOptions, "level" | "format"> = {}
+) =>
+  new DailyRotateFile({
+    dirname: env.LOG_DIRECTORIO,
+    filename: `${nombre}-%DATE%.log`,
+    datePattern: "YYYY-MM-DD",
+    zippedArchive: true,
+    maxSize: env.LOG_TAMANO_MAXIMO,
+    maxFiles: `${retencionDias}d`,
+    // Índice de archivos rotados que usa la librería para aplicar la retención
+    auditFile: path.join(env.LOG_DIRECTORIO, `.${nombre}-rotacion.json`),
+    ...opciones,
+  });
+
+/**
+ * Definimos los “transports” → a dónde se envían los logs, según LOG_TRANSPORTES
+ */
+const transportesLog: TransportStream[] = [];
+
+if (env.LOG_TRANSPORTES.includes("consola")) {
+  // Transport para logs en consola
+  // (en producción usa el formato JSON del logger: lo recolecta el agregador de logs)
+  transportesLog.push(
+    new transports.Console(
+      esProduccion
+        ? {}
+        : {
+            format: combine(
+              colorize(),            // Colores según nivel (info en verde, error en rojo, etc.)
+              logFormat
+            ),
+          }
+    )
+  );
+}
+
+if (env.LOG_TRANSPORTES.includes("archivo")) {
+  transportesLog.push(
+    // Todos los logs
+    crearArchivoRotativo("aplicacion", env.LOG_RETENCION_DIAS),
+
+    // Solo errores
+    crearArchivoRotativo("errores", env.LOG_RETENCION_DIAS, { level: "error" }),
+
+    // Auditoría y seguridad: archivos propios, con una retención más larga
+    crearArchivoRotativo("auditoria", env.LOG_RETENCION_DIAS_SEGURIDAD, {
+      format: combine(soloCategoria("auditoria"), json()),
+    }),
+    crearArchivoRotativo("seguridad", env.LOG_RETENCION_DIAS_SEGURIDAD, {
+      format: combine(soloCategoria("seguridad"), json()),
+    })
+  );
+}
+
 /**
  * Definimos el logger global de ServiPro
  */
@@ -38,37 +177,33 @@ export const logger = createLogger({
   // Nivel mínimo de log:
   // - 'info' en producción (menos verboso)
   // - 'debug' en desarrollo (máxima información)
-  level: process.env.NODE_ENV === "production" ? "info" : "debug",
+  level: esProduccion ? "info" : "debug",
 
   // Formato combinado:
-  // - timestamp → agrega la fecha y hora a cada log
+  // - timestamp → agrega la fecha y hora a cada log (ISO 8601 en producción)
   // - errors({ stack: true }) → incluye stack trace automáticamente si el log es un error
-  // - logFormat → nuestro formato personalizado definido arriba
+  // - agregarContextoRequest → request id, usuario y ruta de la request en curso
+  // - redactarDatosSensibles → nada de teléfonos completos, códigos ni tokens en los logs
+  // - json (producción) o logFormat (desarrollo)
   format: combine(
-    timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
+    esProduccion ? timestamp() : timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
     errors({ stack: true }),
-    logFormat
+    agregarContextoRequest(),
+    redactarDatosSensibles(),
+    esProduccion ? json() : logFormat
   ),
 
-  // Definimos los “transports” → a dónde se envían los logs
-  transports: [
-    // Transport para logs en consola
-    new transports.Console({
-      format: combine(
-        colorize(),            // Colores según nivel (info en verde, error en rojo, etc.)
-        logFormat
-      ),
-    }),
+  transports: transportesLog,
+});
 
-    // Transport para archivo de errores
-    new transports.File({
-      filename: "logs/error.log",
-      level: "error",
-    }),
+/**
+ * Logger de auditoría: acciones de administración (cambios de rol, suspensiones, exportaciones, etc.).
+ * Además de salir por los destinos generales, queda en el archivo auditoria-*.log.
+ */
+export const loggerAuditoria = logger.child({ categoria: "auditoria" satisfies CategoriaLog });
 
-    // Transport para archivo de todos los logs
-    new transports.File({
-      filename: "logs/combined.log",
-    }),
-  ],
-});
+/**
+ * Logger de seguridad: accesos fallidos, bloqueos, rate limit, reutilización de tokens, etc.
+ * Además de salir por los destinos generales, queda en el archivo seguridad-*.log.
+ */
+export const loggerSeguridad = logger.child({ categoria: "seguridad" satisfies CategoriaLog });
@@ -0,0 +1,45 @@
+/**
+ * src/config/migraciones.ts
+ *
+ * Ajustes de datos e índices que una versión nueva necesita sobre una base existente.
+ * Se ejecutan al arrancar, después de conectar a MongoDB (ver config/db.ts), y son
+ * idempotentes: en una base ya migrada no hacen nada.
+ *
+ * Mongoose crea los índices nuevos de cada esquema, pero nunca borra los viejos:
+ * los que quedaron de una versión anterior se eliminan acá.
+ */
+
+import { logger } from './logger';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+
+/**
+ * Refresh tokens: antes se guardaba el token en texto plano (campo token, índice único token_1)
+ * y la sesión vencía 30 días después de creada (TTL sobre creadoEn).
+ * Ahora se guarda el hash (tokenHash) y la sesión vence tras 30 días sin uso (TTL sobre ultimoUso).
+ *
+ * - Las sesiones viejas no se pueden usar (su token no tiene hash): se eliminan,
+ *   y esos usuarios vuelven a iniciar sesión. Además impedirían crear el índice único de tokenHash.
+ * - syncIndexes elimina token_1 (con él, la segunda sesión nueva fallaría con E11000)
+ *   y el TTL sobre creadoEn, y crea los índices del esquema actual.
+ */
+const migrarRefreshTokens = async (): Promise<void> => {
+  const { deletedCount } = await RefreshToken.collection.deleteMany({ tokenHash: { $exists: false } });
+  const eliminados = await RefreshToken.syncIndexes();
+
+  if (deletedCount > 0 || eliminados.length > 0) {
+    logger.info(
+      `Migración de refresh tokens: ${deletedCount} sesiones sin hash eliminadas, ` +
+        `índices eliminados: ${eliminados.join(', ') || 'ninguno'}`,
+    );
+  }
+};
+
+/**
+ * ejecutarMigraciones
+ *
+ * Ejecuta todas las migraciones en orden. Si alguna falla, el error llega a connectDB,
+ * que detiene el arranque: mejor no levantar que atender con índices incompatibles.
+ */
+export const ejecutarMigraciones = async (): Promise<void> => {
+  await migrarRefreshTokens();
+};
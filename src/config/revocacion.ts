@@ -0,0 +1,31 @@
+/**
+ * src/config/revocacion.ts
+ *
+ * Lista de tokens de acceso revocados (logout).
+ *
+ * Por defecto usa la cache en memoria (ListaRevocacionCache). Para despliegues
+ * con varias instancias se registra una lista compartida al arrancar:
+ *
+ *   configurarListaRevocacion(new ListaRevocacionRedis(cliente));
+ */
+
+import { ListaRevocacion } from '../proveedores/revocacion/listaRevocacion';
+import { ListaRevocacionCache } from '../proveedores/revocacion/cache.lista';
+
+let listaRevocacion: ListaRevocacion = new ListaRevocacionCache();
+
+/**
+ * getListaRevocacion
+ *
+ * Devuelve la lista de revocación activa.
+ */
+export const getListaRevocacion = (): ListaRevocacion => listaRevocacion;
+
+/**
+ * configurarListaRevocacion
+ *
+ * Reemplaza la lista de revocación. Debe llamarse al arrancar, antes de atender solicitudes.
+ */
+export const configurarListaRevocacion = (lista: ListaRevocacion): void => {
+  listaRevocacion = lista;
+};
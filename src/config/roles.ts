@@ -0,0 +1,74 @@
+/**
+ * src/config/roles.ts
+ *
+ * Catálogo de permisos y qué permisos otorga cada rol.
+ *
+ * Las rutas y los controladores nunca preguntan por un rol concreto:
+ * piden un permiso (ver middlewares/requierePermiso.middleware.ts).
+ * Para dar o quitar capacidades a un rol alcanza con tocar este archivo.
+ *
+ * Los permisos del rol viajan en el token de acceso (ver generarJWT):
+ * al cambiar el rol de un usuario hay que invalidar sus tokens (versionToken).
+ */
+
+import { RolUsuario } from '../modelos/usuario.modelo';
+
+/**
+ * Permisos disponibles, con el formato "recurso:accion".
+ *
+ * requiereDosFactores: el permiso solo se concede si el token se emitió
+ * completando el segundo factor (TOTP). Lo tienen todos los permisos del personal.
+ */
+export const PERMISOS = {
+  'servicios:publicar': { descripcion: 'Publicar servicios propios', requiereDosFactores: false },
+  'servicios:moderar': { descripcion: 'Aprobar y rechazar servicios pendientes', requiereDosFactores: true },
+  'servicios:gestionar-todos': {
+    descripcion: 'Editar, pausar y eliminar servicios de otros usuarios',
+    requiereDosFactores: true,
+  },
+  'estadisticas:ver-todas': { descripcion: 'Ver métricas de cualquier servicio', requiereDosFactores: true },
+  'usuarios:ver': { descripcion: 'Listar usuarios y ver su detalle', requiereDosFactores: true },
+  'usuarios:suspender': { descripcion: 'Suspender y reactivar cuentas', requiereDosFactores: true },
+  'usuarios:cerrar-sesiones': { descripcion: 'Cerrar todas las sesiones de un usuario', requiereDosFactores: true },
+  'usuarios:asignar-rol': { descripcion: 'Cambiar el rol de un usuario', requiereDosFactores: true },
+  'sms:configurar': { descripcion: 'Ver y ajustar los límites de envío de SMS', requiereDosFactores: true },
+  'auditoria:ver': { descripcion: 'Consultar y exportar el registro de auditoría', requiereDosFactores: true },
+  'sistema:ver-estado': {
+    descripcion: 'Ver el estado del sistema (versión, memoria, base de datos)',
+    requiereDosFactores: true,
+  },
+} as const;
+
+export type Permiso = keyof typeof PERMISOS;
+
+/**
+ * Permisos que otorga cada rol. No hay herencia entre roles: cada uno lista todos los suyos.
+ */
+export const PERMISOS_POR_ROL: Record<RolUsuario, readonly Permiso[]> = {
+  usuario: ['servicios:publicar'],
+  prestador: ['servicios:publicar'],
+  soporte: ['usuarios:ver', 'usuarios:cerrar-sesiones', 'estadisticas:ver-todas'],
+  moderador: [
+    'servicios:publicar',
+    'servicios:moderar',
+    'servicios:gestionar-todos',
+    'estadisticas:ver-todas',
+    'usuarios:ver',
+    'usuarios:suspender',
+  ],
+  admin: Object.keys(PERMISOS) as Permiso[],
+};
+
+/**
+ * permisosDeRol
+ *
+ * Permisos de un rol. Un rol desconocido (ej: dato viejo en la base) no otorga ninguno.
+ */
+export const permisosDeRol = (rol: string): Permiso[] => [...(PERMISOS_POR_ROL[rol as RolUsuario] ?? [])];
+
+/**
+ * esPermiso
+ *
+ * Type guard para los permisos leídos de un token.
+ */
+export const esPermiso = (valor: string): valor is Permiso => Object.hasOwn(PERMISOS, valor);
@@ -0,0 +1,40 @@
+/**
+ * src/config/sms.ts
+ *
+ * Elige el proveedor de SMS según la variable SMS_PROVEEDOR:
+ *  - twilio  → ProveedorSMSTwilio (requiere las variables TWILIO_*)
+ *  - consola → ProveedorSMSConsola (escribe en SMS_ARCHIVO)
+ *  - memoria → smsEnMemoria (tests)
+ *
+ * El resto del código no conoce al proveedor concreto: usa enviarSMS().
+ */
+
+import { env } from './variables';
+import { logger } from './logger';
+import { ProveedorSMS } from '../proveedores/sms/proveedorSMS';
+import { ProveedorSMSTwilio } from '../proveedores/sms/twilio.proveedor';
+import { ProveedorSMSConsola } from '../proveedores/sms/consola.proveedor';
+import { smsEnMemoria } from '../proveedores/sms/memoria.proveedor';
+
+const crearProveedorSMS = (): ProveedorSMS => {
+  switch (env.SMS_PROVEEDOR) {
+    case 'consola':
+      return new ProveedorSMSConsola(env.SMS_ARCHIVO);
+    case 'memoria':
+      return smsEnMemoria;
+    case 'twilio':
+    default:
+      return new ProveedorSMSTwilio();
+  }
+};
+
+const proveedor = crearProveedorSMS();
+
+logger.info(`Proveedor de SMS configurado: ${proveedor.nombre}`);
+
+/**
+ * getProveedorSMS
+ *
+ * Devuelve el proveedor de SMS activo.
+ */
+export const getProveedorSMS = (): ProveedorSMS => proveedor;
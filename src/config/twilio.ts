@@ -3,6 +3,8 @@
  *
  * Configura y exporta la instancia del cliente de Twilio,
  * para enviar SMS de verificación u otros mensajes desde ServiPro.
+ *
+ * Solo se usa cuando SMS_PROVEEDOR=twilio (ver src/config/sms.ts).
  */
 
 import twilio, { Twilio } from "twilio";
@@ -12,41 +14,50 @@ import { logger } from "./logger";
 /**
  * client
  *
- * Creamos una instancia del SDK de Twilio usando las credenciales
+ * Instancia del SDK de Twilio creada con las credenciales
  * obtenidas de variables de entorno.
  *
  * - SID de la cuenta de Twilio → env.TWILIO_ACCOUNT_SID
  * - Auth Token de la cuenta → env.TWILIO_AUTH_TOKEN
  *
+ * Se crea recién en el primer uso: si el proyecto corre con otro proveedor
+ * de SMS, nunca se inicializa y las credenciales no hacen falta.
+ *
  * El objeto `client` permite llamar métodos como:
  *  - client.messages.create(...) → para enviar SMS
  *  - client.verify.services(...) → si más adelante implementamos Twilio Verify
  */
 let client: Twilio | null = null;
 
-try {
-  client = twilio(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN);
-  logger.info("Cliente Twilio inicializado correctamente.");
-} catch (error) {
-  logger.error("Error al inicializar el cliente de Twilio:");
-  logger.error(error);
-  client = null;
-}
-
 /**
  * getTwilioClient
  *
  * Función helper que devuelve la instancia del cliente Twilio
- * o lanza un error si no está inicializada.
+ * (creándola si todavía no existe) o lanza un error si no se puede inicializar.
  *
  * Esto previene errores silenciosos si las variables de entorno
  * no están configuradas correctamente.
  */
 export const getTwilioClient = (): Twilio => {
-  if (!client) {
+  if (client) {
+    return client;
+  }
+
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    throw new Error(
+      "El cliente de Twilio no está inicializado. Revisa las credenciales de entorno."
+    );
+  }
+
+  try {
+    client = twilio(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN);
+    logger.info("Cliente Twilio inicializado correctamente.");
+    return client;
+  } catch (error) {
+    logger.error("Error al inicializar el cliente de Twilio:");
+    logger.error(error);
     throw new Error(
       "El cliente de Twilio no está inicializado. Revisa las credenciales de entorno."
     );
   }
-  return client;
 };
@@ -11,11 +11,36 @@
  */
 
 import dotenv from "dotenv";
+import net from "net";
 import { z } from "zod";
 
 // Cargamos variables de entorno desde el archivo .env
 dotenv.config();
 
+/**
+ * Proveedores de SMS disponibles (ver src/config/sms.ts).
+ */
+export const PROVEEDORES_SMS = ["twilio", "consola", "memoria"] as const;
+
+/**
+ * Destinos de los logs (ver src/config/logger.ts).
+ */
+export const TRANSPORTES_LOG = ["consola", "archivo"] as const;
+
+/**
+ * Valida una IP suelta o un rango CIDR (ej: 203.0.113.10, 10.0.0.0/8, 2001:db8::/32).
+ */
+const esIpOCidr = (entrada: string): boolean => {
+  const [direccion, prefijo, ...resto] = entrada.split("/");
+  const version = net.isIP(direccion);
+
+  if (version === 0 || resto.length > 0) return false;
+  if (prefijo === undefined) return true;
+
+  const bits = Number(prefijo);
+  return /^\d+$/.test(prefijo) && bits <= (version === 4 ? 32 : 128);
+};
+
 /**
  * Definimos un esquema Zod con TODAS las variables que nuestro proyecto necesita.
  * Esto:
@@ -37,6 +62,33 @@ const envSchema = z.object({
       message: "PORT debe ser un número mayor a cero.",
     }),
 
+  // Proxies de confianza delante de la API (se pasa a app.set("trust proxy")).
+  // Define req.ip, y con él los límites por IP y ACCESO_MAESTRO_IPS_PERMITIDAS:
+  //  - false (default): sin proxy, req.ip es la dirección de la conexión.
+  //  - un número: cantidad de proxies delante (ej: 1 para un único balanceador).
+  //  - IPs, rangos CIDR o loopback / linklocal / uniquelocal, separados por coma.
+  //  - true confía en cualquier X-Forwarded-For: un cliente podría inventar su IP.
+  TRUST_PROXY: z
+    .string()
+    .default("false")
+    .transform((valor): boolean | number | string[] => {
+      const normalizado = valor.trim().toLowerCase();
+      if (normalizado === "false") return false;
+      if (normalizado === "true") return true;
+      if (/^\d+$/.test(normalizado)) return Number(normalizado);
+      return normalizado.split(",").map((entrada) => entrada.trim()).filter(Boolean);
+    })
+    .refine(
+      (valor) =>
+        !Array.isArray(valor) ||
+        (valor.length > 0 &&
+          valor.every((entrada) => ["loopback", "linklocal", "uniquelocal"].includes(entrada) || esIpOCidr(entrada))),
+      {
+        message:
+          "TRUST_PROXY debe ser true, false, una cantidad de proxies o IPs / rangos CIDR (o loopback, linklocal, uniquelocal) separados por coma.",
+      },
+    ),
+
   // MongoDB connection string
   MONGODB_URI: z.string().min(1, "MONGODB_URI es obligatorio."),
 
@@ -44,15 +96,256 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(10, "JWT_SECRET es obligatorio y debe tener al menos 10 caracteres."),
   JWT_EXPIRATION: z.string().min(1, "JWT_EXPIRATION es obligatorio."),
 
-  // Twilio credentials
-  TWILIO_ACCOUNT_SID: z.string().min(1, "TWILIO_ACCOUNT_SID es obligatorio."),
-  TWILIO_AUTH_TOKEN: z.string().min(1, "TWILIO_AUTH_TOKEN es obligatorio."),
-  TWILIO_PHONE_NUMBER: z.string().min(1, "TWILIO_PHONE_NUMBER es obligatorio."),
+  // Firma asimétrica de los tokens de acceso (ver src/config/clavesJWT.ts).
+  // Cada clave es un archivo <kid>.pem (privada RSA o EC P-256) dentro de JWT_CLAVES_DIR.
+  //  - JWT_CLAVE_ACTIVA: kid con el que se firman los tokens nuevos.
+  //    Si no se define, se firma con HS256 y JWT_SECRET (solo desarrollo y tests).
+  //  - JWT_CLAVES_RETIRADAS: kids separados por coma que ya no firman pero siguen
+  //    verificando hasta que venzan los tokens emitidos con ellos.
+  //  - JWT_ACEPTAR_HS256: acepta tokens HS256 previos a la migración; se desactiva
+  //    una vez transcurrido JWT_EXPIRATION desde que se configuró la clave activa.
+  JWT_CLAVES_DIR: z.string().min(1).default("claves"),
+  JWT_CLAVE_ACTIVA: z
+    .string()
+    .regex(/^[\w-]+$/, "JWT_CLAVE_ACTIVA solo admite letras, números, guiones y guiones bajos.")
+    .optional(),
+  JWT_CLAVES_RETIRADAS: z
+    .string()
+    .default("")
+    .transform((valor) => valor.split(",").map((kid) => kid.trim()).filter(Boolean))
+    .refine((kids) => kids.every((kid) => /^[\w-]+$/.test(kid)), {
+      message: "JWT_CLAVES_RETIRADAS solo admite letras, números, guiones y guiones bajos.",
+    }),
+  JWT_ACEPTAR_HS256: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((valor) => valor === "true"),
+
+  // Proveedor de SMS:
+  //  - twilio  → envío real (producción)
+  //  - consola → escribe los mensajes en el log y en un archivo (desarrollo offline)
+  //  - memoria → guarda los mensajes en memoria para que los tests los inspeccionen
+  SMS_PROVEEDOR: z.enum(PROVEEDORES_SMS).default("twilio"),
+
+  // Archivo donde el proveedor "consola" deja los SMS
+  SMS_ARCHIVO: z.string().min(1).default("logs/sms.log"),
+
+  // Twilio credentials (solo obligatorias si SMS_PROVEEDOR=twilio, ver superRefine abajo)
+  TWILIO_ACCOUNT_SID: z.string().min(1).optional(),
+  TWILIO_AUTH_TOKEN: z.string().min(1).optional(),
+  TWILIO_PHONE_NUMBER: z.string().min(1).optional(),
+
+  // Acceso maestro (admin oculto). Deshabilitado por defecto: la ruta responde 404.
+  // Habilitado, exige el código maestro y un código TOTP (segundo factor) generado
+  // con ACCESO_MAESTRO_TOTP_SECRETO (base32, el mismo que se carga en la app autenticadora).
+  ACCESO_MAESTRO_HABILITADO: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((valor) => valor === "true"),
+  CODIGO_MAESTRO: z.string().min(1).optional(),
+  TELEFONO_ADMIN: z.string().min(1).optional(),
+  ACCESO_MAESTRO_TOTP_SECRETO: z
+    .string()
+    .regex(/^[A-Z2-7]{16,}=*$/i, "ACCESO_MAESTRO_TOTP_SECRETO debe ser base32 (al menos 16 caracteres).")
+    .optional(),
+
+  // IPs o rangos CIDR separados por coma desde los que se admite el acceso maestro.
+  // Vacío: cualquier IP (no se permite en producción).
+  ACCESO_MAESTRO_IPS_PERMITIDAS: z
+    .string()
+    .default("")
+    .transform((valor) => valor.split(",").map((ip) => ip.trim()).filter(Boolean))
+    .refine((entradas) => entradas.every(esIpOCidr), {
+      message: "ACCESO_MAESTRO_IPS_PERMITIDAS debe contener IPs o rangos CIDR separados por coma.",
+    }),
+
+  // Intentos fallidos tolerados dentro de la ventana antes de bloquear el acceso maestro
+  ACCESO_MAESTRO_MAX_INTENTOS: z
+    .string()
+    .default("3")
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val > 0, {
+      message: "ACCESO_MAESTRO_MAX_INTENTOS debe ser un entero mayor a cero.",
+    }),
+
+  // Ventana (minutos) en la que se cuentan los fallos; también es la duración del bloqueo
+  ACCESO_MAESTRO_BLOQUEO_MINUTOS: z
+    .string()
+    .default("60")
+    .transform(Number)
+    .refine((val) => !Number.isNaN(val) && val > 0, {
+      message: "ACCESO_MAESTRO_BLOQUEO_MINUTOS debe ser un número mayor a cero.",
+    }),
+
+  // Segundo factor: intentos fallidos por usuario antes de invalidar el login pendiente y bloquear
+  DOS_FACTORES_MAX_INTENTOS: z
+    .string()
+    .default("5")
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val > 0, {
+      message: "DOS_FACTORES_MAX_INTENTOS debe ser un entero mayor a cero.",
+    }),
+
+  // Duración (minutos) del bloqueo del segundo factor al agotar los intentos
+  DOS_FACTORES_BLOQUEO_MINUTOS: z
+    .string()
+    .default("15")
+    .transform(Number)
+    .refine((val) => !Number.isNaN(val) && val > 0, {
+      message: "DOS_FACTORES_BLOQUEO_MINUTOS debe ser un número mayor a cero.",
+    }),
+
+  // Clicks: ventana (en segundos) en la que un mismo visitante no suma otro click
+  // del mismo tipo sobre el mismo servicio. Por defecto 30 minutos.
+  CLICKS_VENTANA_DEDUPLICACION_SEGUNDOS: z
+    .string()
+    .default("1800")
+    .transform(Number)
+    .refine((val) => !Number.isNaN(val) && val >= 0, {
+      message: "CLICKS_VENTANA_DEDUPLICACION_SEGUNDOS debe ser un número mayor o igual a cero.",
+    }),
+
+  // Verificación por SMS: intentos fallidos permitidos por código antes de invalidarlo
+  VERIFICACION_MAX_INTENTOS: z
+    .string()
+    .default("5")
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val > 0, {
+      message: "VERIFICACION_MAX_INTENTOS debe ser un entero mayor a cero.",
+    }),
+
+  // Duración (minutos) del primer bloqueo de un teléfono; se duplica en cada bloqueo repetido
+  VERIFICACION_BLOQUEO_MINUTOS: z
+    .string()
+    .default("15")
+    .transform(Number)
+    .refine((val) => !Number.isNaN(val) && val > 0, {
+      message: "VERIFICACION_BLOQUEO_MINUTOS debe ser un número mayor a cero.",
+    }),
+
+  // Tope (minutos) de la escalada de bloqueos. Por defecto 24 horas.
+  VERIFICACION_BLOQUEO_MAX_MINUTOS: z
+    .string()
+    .default("1440")
+    .transform(Number)
+    .refine((val) => !Number.isNaN(val) && val > 0, {
+      message: "VERIFICACION_BLOQUEO_MAX_MINUTOS debe ser un número mayor a cero.",
+    }),
+
+  // Logs: claves adicionales (separadas por coma) cuyo valor nunca se escribe en los logs.
+  // Se suman a las claves sensibles por defecto (ver src/utilidades/redaccionLogs.ts).
+  LOG_CLAVES_SENSIBLES: z
+    .string()
+    .default("")
+    .transform((valor) => valor.split(",").map((clave) => clave.trim()).filter(Boolean))
+    .refine((claves) => claves.every((clave) => /^[\w.-]+$/.test(clave)), {
+      message: "LOG_CLAVES_SENSIBLES solo admite letras, números, puntos, guiones y guiones bajos.",
+    }),
+
+  // Logs: destinos separados por coma (consola, archivo).
+  // Si no se define: solo consola en test; consola y archivos en development y production.
+  LOG_TRANSPORTES: z
+    .string()
+    .optional()
+    .transform((valor) => valor?.split(",").map((destino) => destino.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(TRANSPORTES_LOG)).min(1, "LOG_TRANSPORTES debe incluir al menos un destino.").optional()),
+
+  // Directorio de los archivos de log (se crea si no existe)
+  LOG_DIRECTORIO: z.string().min(1).default("logs"),
+
+  // Los archivos rotan cada día y además al llegar a este tamaño (bytes o con sufijo k, m, g).
+  // Los archivos rotados se comprimen con gzip.
+  LOG_TAMANO_MAXIMO: z
+    .string()
+    .default("20m")
+    .refine((valor) => /^\d+[kmg]?$/i.test(valor), {
+      message: "LOG_TAMANO_MAXIMO debe ser un número de bytes o terminar en k, m o g (ej: 20m).",
+    }),
+
+  // Días que se conservan los logs de la aplicación y de errores
+  LOG_RETENCION_DIAS: z
+    .string()
+    .default("14")
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val > 0, {
+      message: "LOG_RETENCION_DIAS debe ser un entero mayor a cero.",
+    }),
+
+  // Días que se conservan los logs de auditoría y de seguridad (suelen pedirse en una investigación)
+  LOG_RETENCION_DIAS_SEGURIDAD: z
+    .string()
+    .default("365")
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val > 0, {
+      message: "LOG_RETENCION_DIAS_SEGURIDAD debe ser un entero mayor a cero.",
+    }),
+}).superRefine((vars, ctx) => {
+  // Las credenciales de Twilio solo se exigen cuando efectivamente se usa Twilio
+  if (vars.SMS_PROVEEDOR === "twilio") {
+    for (const clave of ["TWILIO_ACCOUNT_SID", "TWILIO_AUTH_TOKEN", "TWILIO_PHONE_NUMBER"] as const) {
+      if (!vars[clave]) {
+        ctx.addIssue({
+          code: "custom",
+          path: [clave],
+          message: `${clave} es obligatorio cuando SMS_PROVEEDOR=twilio.`,
+        });
+      }
+    }
+  }
+
+  // Con el acceso maestro habilitado, sus credenciales son obligatorias
+  if (vars.ACCESO_MAESTRO_HABILITADO) {
+    for (const clave of ["CODIGO_MAESTRO", "TELEFONO_ADMIN", "ACCESO_MAESTRO_TOTP_SECRETO"] as const) {
+      if (!vars[clave]) {
+        ctx.addIssue({
+          code: "custom",
+          path: [clave],
+          message: `${clave} es obligatorio cuando ACCESO_MAESTRO_HABILITADO=true.`,
+        });
+      }
+    }
+
+    if (vars.NODE_ENV === "production" && vars.ACCESO_MAESTRO_IPS_PERMITIDAS.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ACCESO_MAESTRO_IPS_PERMITIDAS"],
+        message: "En producción el acceso maestro requiere ACCESO_MAESTRO_IPS_PERMITIDAS.",
+      });
+    }
+  }
+
+  // En producción los tokens se firman con una clave asimétrica: quien los verifica no necesita el secreto
+  if (vars.NODE_ENV === "production" && !vars.JWT_CLAVE_ACTIVA) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["JWT_CLAVE_ACTIVA"],
+      message: "En producción JWT_CLAVE_ACTIVA es obligatorio.",
+    });
+  }
+
+  // En producción los códigos nunca deben quedar en un archivo ni en memoria
+  if (vars.NODE_ENV === "production" && vars.SMS_PROVEEDOR !== "twilio") {
+    ctx.addIssue({
+      code: "custom",
+      path: ["SMS_PROVEEDOR"],
+      message: "En producción SMS_PROVEEDOR debe ser twilio.",
+    });
+  }
 
-  // Acceso maestro (admin oculto)
-  CODIGO_MAESTRO: z.string().min(1, "CODIGO_MAESTRO es obligatorio."),
-  TELEFONO_ADMIN: z.string().min(1, "TELEFONO_ADMIN es obligatorio."),
-});
+  // En producción los logs de auditoría y seguridad tienen que quedar en archivo
+  if (vars.NODE_ENV === "production" && vars.LOG_TRANSPORTES && !vars.LOG_TRANSPORTES.includes("archivo")) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["LOG_TRANSPORTES"],
+      message: "En producción LOG_TRANSPORTES debe incluir archivo.",
+    });
+  }
+}).transform((vars) => ({
+  ...vars,
+  // Destinos por defecto según el entorno
+  LOG_TRANSPORTES:
+    vars.LOG_TRANSPORTES ?? (vars.NODE_ENV === "test" ? ["consola"] : ["consola", "archivo"]),
+}));
 
 /**
  * Validamos process.env contra el esquema definido.
@@ -2,69 +2,152 @@
  * accesoMaestro.controlador.ts
  *
  * Permite el acceso directo del administrador mediante un código maestro.
- * No requiere SMS ni verificación previa.
- * Si el código es válido, crea (si no existe) un usuario con rol admin
+ * No requiere SMS ni verificación previa, pero sí:
+ * - que la request venga de una IP permitida
+ * - que el acceso no esté bloqueado por intentos fallidos
+ * - el código maestro y un código TOTP vigente (segundo factor)
+ * Si todo es válido, crea (si no existe) un usuario con rol admin
  * y devuelve los tokens de autenticación como en loginUsuario.
+ *
+ * Cada intento queda registrado en la auditoría del acceso maestro (ver utilidades/accesoMaestro.ts);
+ * los exitosos, además, en el registro de auditoría general.
  */
 
 import { Request, Response } from 'express';
-import { generarJWT, generarRefreshToken } from '../utilidades/generarToken';
-import { enviarRespuestaExitosa, enviarRespuestaError } from '../utilidades/respuestaEstandarizada';
+import { generarJWT } from '../utilidades/generarToken';
+import { crearSesion } from '../utilidades/sesiones';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorLimiteExcedido, ErrorNoAutorizado, ErrorProhibido } from '../utilidades/errores';
+import { verificarCodigoTOTP } from '../utilidades/totp';
+import { segundosHasta } from '../utilidades/verificacionCodigo';
+import { registrarAuditoria } from '../utilidades/auditoria';
+import {
+  compararCodigoMaestro,
+  ipPermitidaAccesoMaestro,
+  pasoTOTPYaUsado,
+  registrarIntentoAccesoMaestro,
+  reiniciarIntentosAccesoMaestro,
+  reservarIntentoAccesoMaestro,
+} from '../utilidades/accesoMaestro';
 import { Usuario } from '../modelos/usuario.modelo';
-import { RefreshToken } from '../modelos/refreshToken.modelo';
-import { logger } from '../config/logger';
+import { MotivoAccesoMaestro } from '../modelos/intentoAccesoMaestro.modelo';
+import { loggerSeguridad } from '../config/logger';
 import { env } from '../config/variables'; // Importamos las variables de entorno validadas
 
-// Código secreto maestro y teléfono del admin, ahora desde .env y validados por Zod
-const CODIGO_MAESTRO = env.CODIGO_MAESTRO;
-const TELEFONO_ADMIN = env.TELEFONO_ADMIN;
-
-export const accesoMaestro = async (req: Request, res: Response) => {
-  try {
-    const { codigo } = req.body;
-
-    if (codigo !== CODIGO_MAESTRO) {
-      return enviarRespuestaError(res, 'Código incorrecto', 'CODIGO_MAESTRO_INVALIDO', undefined, 401);
-    }
-
-    // Buscamos el usuario admin oculto, o lo creamos si no existe
-    let usuario = await Usuario.findOne({ telefono: TELEFONO_ADMIN });
-
-    if (!usuario) {
-      usuario = new Usuario({
-        telefono: TELEFONO_ADMIN,
-        rol: 'admin',
-      });
-      await usuario.save();
-      logger.info('Usuario admin maestro creado automáticamente.');
-    }
-
-    // Generamos el token de acceso
-    const token = generarJWT({
-      usuarioId: usuario._id.toString(),
-      telefono: usuario.telefono,
-    });
+/**
+ * Compara ambos factores y devuelve el motivo del fallo, o el paso TOTP usado si son válidos.
+ * Se evalúan los dos siempre: la respuesta no revela cuál de los dos falló.
+ */
+const comprobarCredenciales = async (
+  codigo: string,
+  codigoTOTP: string,
+): Promise<{ motivo: MotivoAccesoMaestro } | { pasoTOTP: number }> => {
+  const codigoValido = compararCodigoMaestro(codigo);
+  const pasoTOTP = verificarCodigoTOTP(env.ACCESO_MAESTRO_TOTP_SECRETO!, codigoTOTP);
 
-    // Generamos y guardamos el refresh token
-    const refreshToken = generarRefreshToken();
+  if (!codigoValido) return { motivo: 'CODIGO_INVALIDO' };
+  if (pasoTOTP === null) return { motivo: 'TOTP_INVALIDO' };
+  if (await pasoTOTPYaUsado(pasoTOTP)) return { motivo: 'TOTP_REUTILIZADO' };
 
-    await RefreshToken.create({
-      token: refreshToken,
-      usuarioId: usuario._id,
+  return { pasoTOTP };
+};
+
+export const accesoMaestro = manejarAsync(async (req: Request, res: Response) => {
+  const origen = { ip: req.ip ?? req.socket.remoteAddress, userAgent: req.get('user-agent') };
+
+  if (!ipPermitidaAccesoMaestro(origen.ip)) {
+    await registrarIntentoAccesoMaestro({ ...origen, resultado: 'rechazado', motivo: 'IP_NO_PERMITIDA' });
+    throw new ErrorProhibido('Acceso no permitido desde esta dirección', 'IP_NO_PERMITIDA');
+  }
+
+  // El intento se reserva antes de comparar las credenciales: los intentos en paralelo también cuentan
+  const reserva = await reservarIntentoAccesoMaestro();
+
+  if (!reserva.permitido) {
+    const { bloqueadoHasta } = reserva;
+    await registrarIntentoAccesoMaestro({ ...origen, resultado: 'rechazado', motivo: 'BLOQUEADO' });
+
+    const reintentarEnSegundos = segundosHasta(bloqueadoHasta);
+
+    throw new ErrorLimiteExcedido(
+      'El acceso maestro está bloqueado por intentos fallidos',
+      'ACCESO_MAESTRO_BLOQUEADO',
+      { datos: { bloqueadoHasta, reintentarEnSegundos }, reintentarEnSegundos },
+    );
+  }
+
+  const credenciales = await comprobarCredenciales(req.body.codigo, req.body.codigoTOTP);
+
+  if ('motivo' in credenciales) {
+    await registrarIntentoAccesoMaestro({ ...origen, resultado: 'fallido', motivo: credenciales.motivo });
+    throw new ErrorNoAutorizado('Credenciales incorrectas', 'CODIGO_MAESTRO_INVALIDO');
+  }
+
+  await reiniciarIntentosAccesoMaestro();
+
+  // Buscamos el usuario admin oculto, o lo creamos si no existe
+  let usuario = await Usuario.findOne({ telefono: env.TELEFONO_ADMIN });
+  let adminCreado = false;
+
+  if (!usuario) {
+    usuario = new Usuario({
+      telefono: env.TELEFONO_ADMIN,
+      rol: 'admin',
     });
+    await usuario.save();
+    adminCreado = true;
+    loggerSeguridad.warn(`Usuario admin maestro creado desde ${origen.ip}`);
+  }
 
-    // Respondemos con éxito como si fuera un login
-    return enviarRespuestaExitosa(res, 'Acceso maestro exitoso', {
-      token,
-      refreshToken,
-      usuario: {
-        id: usuario._id,
-        telefono: usuario.telefono,
-        rol: usuario.rol,
-      },
+  if (usuario.suspendido) {
+    await registrarIntentoAccesoMaestro({
+      ...origen,
+      resultado: 'rechazado',
+      motivo: 'USUARIO_SUSPENDIDO',
+      usuarioId: usuario._id,
     });
-  } catch (error: any) {
-    logger.error('Error en acceso maestro:', error);
-    return enviarRespuestaError(res, 'Error interno del servidor', 'ERROR_ACCESO_MAESTRO');
+    throw new ErrorProhibido('La cuenta de administrador está suspendida', 'USUARIO_SUSPENDIDO');
   }
-};
+
+  // Abrimos la sesión (refresh token + datos del dispositivo).
+  // El código TOTP ya es el segundo factor: la sesión cuenta como verificada.
+  const { sesion, refreshToken } = await crearSesion(usuario._id, req, req.body.dispositivo, true);
+
+  // Generamos el token de acceso
+  const token = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    sesionId: sesion._id.toString(),
+    dosFactores: true,
+  });
+
+  await registrarIntentoAccesoMaestro({
+    ...origen,
+    resultado: 'exitoso',
+    usuarioId: usuario._id,
+    adminCreado,
+    pasoTOTP: credenciales.pasoTOTP,
+  });
+
+  await registrarAuditoria(req, {
+    accion: 'acceso_maestro.exitoso',
+    actor: usuario,
+    objetivoTipo: 'sesion',
+    objetivoId: sesion._id,
+    metadatos: { adminCreado },
+  });
+
+  // Respondemos con éxito como si fuera un login
+  return enviarRespuestaExitosa(res, 'Acceso maestro exitoso', {
+    token,
+    refreshToken,
+    usuario: {
+      id: usuario._id,
+      telefono: usuario.telefono,
+      rol: usuario.rol,
+    },
+  });
+});
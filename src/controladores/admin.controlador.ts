@@ -0,0 +1,308 @@
+/**
+ * admin.controlador.ts
+ *
+ * Controlador del panel de administración de usuarios:
+ * - Listado paginado con filtros
+ * - Detalle de un usuario (con sus servicios y sesiones activas)
+ * - Roles disponibles y cambio de rol
+ * - Suspensión / reactivación
+ * - Cierre forzado de sesiones
+ *
+ * Las acciones que modifican un usuario quedan en el registro de auditoría.
+ * Solo se puede operar sobre usuarios cuyo rol no tenga permisos que quien opera no tiene.
+ * Todas las funciones asumen que autenticarJWT y requierePermiso ya se ejecutaron.
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorNoEncontrado, ErrorProhibido, ErrorValidacion } from '../utilidades/errores';
+import { puedeGestionarUsuario } from '../utilidades/permisos';
+import { calcularCambios, registrarAuditoria } from '../utilidades/auditoria';
+import { PERMISOS, PERMISOS_POR_ROL } from '../config/roles';
+import { Usuario, ROLES_USUARIO } from '../modelos/usuario.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { Servicio } from '../modelos/servicio.modelo';
+import { RequestConUsuario } from '../tipos';
+import { ListarUsuariosQuery } from '../validaciones/admin.validacion';
+
+/**
+ * Campos del usuario que se muestran en el panel.
+ */
+const CAMPOS_USUARIO_ADMIN =
+  'telefono nombre email rol estaVerificado esPrestador suspendido motivoSuspension suspendidoEn suspendidoPor creadoEn actualizadoEn';
+
+/**
+ * Campos de la suspensión que se comparan en la auditoría.
+ */
+const CAMPOS_SUSPENSION = ['suspendido', 'motivoSuspension', 'suspendidoEn', 'suspendidoPor'] as const;
+
+/**
+ * Un admin no puede cambiarse el rol ni suspenderse a sí mismo:
+ * evita que el panel quede sin administradores por error.
+ */
+const esElMismoUsuario = (req: RequestConUsuario) => req.usuario!._id.toString() === req.params.id;
+
+/**
+ * Rechaza operar sobre un usuario cuyo rol tiene permisos que quien opera no tiene
+ * (ej: un moderador no puede suspender a un admin ni cerrarle las sesiones).
+ */
+const verificarPuedeGestionar = (req: RequestConUsuario, rolObjetivo: string) => {
+  if (!puedeGestionarUsuario(req, rolObjetivo)) {
+    throw new ErrorProhibido(
+      'No podés operar sobre un usuario con permisos que vos no tenés',
+      'USUARIO_CON_MAS_PRIVILEGIOS',
+    );
+  }
+};
+
+/**
+ * GET /api/admin/usuarios
+ *
+ * - Lista usuarios con filtros por rol, verificación, suspensión, fecha de alta y prefijo telefónico.
+ * - Paginación por página, con el total para que el panel arme la navegación.
+ */
+export const listarUsuarios = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // La query ya viene validada y normalizada por listarUsuariosQuerySchema
+  const { rol, verificado, suspendido, creadoDesde, creadoHasta, prefijoTelefono, pagina, limite } =
+    req.query as unknown as ListarUsuariosQuery;
+
+  const filtro: Record<string, unknown> = {};
+  if (rol) filtro.rol = rol;
+  if (verificado !== undefined) filtro.estaVerificado = verificado;
+  if (suspendido !== undefined) filtro.suspendido = suspendido;
+  if (creadoDesde || creadoHasta) {
+    filtro.creadoEn = {
+      ...(creadoDesde ? { $gte: creadoDesde } : {}),
+      ...(creadoHasta ? { $lte: creadoHasta } : {}),
+    };
+  }
+  // El prefijo ya fue validado (+ seguido de dígitos), así que es seguro armar la regex
+  if (prefijoTelefono) filtro.telefono = { $regex: `^\\+${prefijoTelefono.slice(1)}` };
+
+  const [usuarios, total] = await Promise.all([
+    Usuario.find(filtro)
+      .select(CAMPOS_USUARIO_ADMIN)
+      .sort({ creadoEn: -1 })
+      .skip((pagina - 1) * limite)
+      .limit(limite),
+    Usuario.countDocuments(filtro),
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Usuarios obtenidos correctamente', {
+    usuarios,
+    paginacion: { pagina, limite, total, totalPaginas: Math.ceil(total / limite) },
+  });
+});
+
+/**
+ * GET /api/admin/usuarios/:id
+ *
+ * - Devuelve el usuario, sus servicios y sus sesiones activas (refresh tokens vigentes).
+ * - Nunca se devuelve el valor del refresh token, solo su ID y los datos del dispositivo.
+ */
+export const obtenerUsuarioAdmin = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = await Usuario.findById(req.params.id).select(CAMPOS_USUARIO_ADMIN);
+
+  if (!usuario) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  const [servicios, sesiones] = await Promise.all([
+    Servicio.find({ usuarioId: usuario._id }).sort({ creadoEn: -1 }),
+    RefreshToken.find({ usuarioId: usuario._id })
+      .select('dispositivo userAgent ip creadoEn ultimoUso')
+      .sort({ ultimoUso: -1 })
+      .lean(),
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Usuario obtenido correctamente', {
+    usuario,
+    servicios,
+    sesiones: sesiones.map(({ _id, ...sesion }) => ({ id: _id, ...sesion })),
+  });
+});
+
+/**
+ * GET /api/admin/roles
+ *
+ * - Devuelve cada rol con sus permisos (y la descripción de cada permiso).
+ */
+export const listarRoles = (_req: RequestConUsuario, res: Response) => {
+  const roles = ROLES_USUARIO.map((rol) => ({
+    rol,
+    permisos: PERMISOS_POR_ROL[rol].map((permiso) => ({ permiso, descripcion: PERMISOS[permiso].descripcion })),
+  }));
+
+  return enviarRespuestaExitosa(res, 'Roles obtenidos correctamente', roles);
+};
+
+/**
+ * PATCH /api/admin/usuarios/:id/rol
+ *
+ * - Asigna un rol al usuario.
+ * - Incrementa versionToken: los tokens vigentes llevan los permisos del rol anterior,
+ *   así que dejan de valer y el usuario obtiene los nuevos al renovar o volver a entrar.
+ */
+export const cambiarRolUsuario = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  if (esElMismoUsuario(req)) {
+    throw new ErrorValidacion('No podés cambiar tu propio rol', 'OPERACION_SOBRE_SI_MISMO');
+  }
+
+  const anterior = await Usuario.findById(req.params.id).select('rol').lean();
+
+  if (!anterior) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  // Ni sobre alguien con más permisos, ni para darle permisos que quien opera no tiene
+  verificarPuedeGestionar(req, anterior.rol);
+  verificarPuedeGestionar(req, req.body.rol);
+
+  const usuario = await Usuario.findByIdAndUpdate(
+    req.params.id,
+    { rol: req.body.rol, $inc: { versionToken: 1 } },
+    { new: true, runValidators: true },
+  ).select(CAMPOS_USUARIO_ADMIN);
+
+  if (!usuario) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  await registrarAuditoria(req, {
+    accion: 'usuario.rol_cambiado',
+    objetivoTipo: 'usuario',
+    objetivoId: usuario._id,
+    cambios: calcularCambios(anterior, usuario, ['rol']),
+  });
+
+  logger.info(`Admin ${req.usuario!._id} cambió el rol de ${usuario._id} a ${usuario.rol}`);
+
+  return enviarRespuestaExitosa(res, 'Rol actualizado correctamente', usuario);
+});
+
+/**
+ * POST /api/admin/usuarios/:id/suspender
+ *
+ * - Marca la cuenta como suspendida (con motivo, fecha y admin responsable).
+ * - Revoca todas sus sesiones: no podrá renovar tokens ni volver a loguearse.
+ * - Incrementa versionToken: los access tokens vigentes dejan de servir incluso tras una reactivación.
+ */
+export const suspenderUsuario = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  if (esElMismoUsuario(req)) {
+    throw new ErrorValidacion('No podés suspender tu propia cuenta', 'OPERACION_SOBRE_SI_MISMO');
+  }
+
+  const anterior = await Usuario.findById(req.params.id)
+    .select([...CAMPOS_SUSPENSION, 'rol'].join(' '))
+    .lean();
+
+  if (!anterior) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  verificarPuedeGestionar(req, anterior.rol);
+
+  const usuario = await Usuario.findByIdAndUpdate(
+    req.params.id,
+    {
+      suspendido: true,
+      motivoSuspension: req.body.motivo,
+      suspendidoEn: new Date(),
+      suspendidoPor: req.usuario!._id,
+      $inc: { versionToken: 1 },
+    },
+    { new: true },
+  ).select(CAMPOS_USUARIO_ADMIN);
+
+  if (!usuario) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  const { deletedCount } = await RefreshToken.deleteMany({ usuarioId: usuario._id });
+
+  await registrarAuditoria(req, {
+    accion: 'usuario.suspendido',
+    objetivoTipo: 'usuario',
+    objetivoId: usuario._id,
+    cambios: calcularCambios(anterior, usuario, CAMPOS_SUSPENSION),
+    metadatos: { sesionesRevocadas: deletedCount },
+  });
+
+  logger.info(`Admin ${req.usuario!._id} suspendió a ${usuario._id} (${deletedCount} sesiones revocadas)`);
+
+  return enviarRespuestaExitosa(res, 'Usuario suspendido correctamente', usuario);
+});
+
+/**
+ * POST /api/admin/usuarios/:id/reactivar
+ *
+ * - Levanta la suspensión. El usuario deberá volver a loguearse.
+ */
+export const reactivarUsuario = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const anterior = await Usuario.findById(req.params.id)
+    .select([...CAMPOS_SUSPENSION, 'rol'].join(' '))
+    .lean();
+
+  if (!anterior) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  verificarPuedeGestionar(req, anterior.rol);
+
+  const usuario = await Usuario.findByIdAndUpdate(
+    req.params.id,
+    {
+      suspendido: false,
+      $unset: { motivoSuspension: 1, suspendidoEn: 1, suspendidoPor: 1 },
+    },
+    { new: true },
+  ).select(CAMPOS_USUARIO_ADMIN);
+
+  if (!usuario) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  await registrarAuditoria(req, {
+    accion: 'usuario.reactivado',
+    objetivoTipo: 'usuario',
+    objetivoId: usuario._id,
+    cambios: calcularCambios(anterior, usuario, CAMPOS_SUSPENSION),
+  });
+
+  logger.info(`Admin ${req.usuario!._id} reactivó a ${usuario._id}`);
+
+  return enviarRespuestaExitosa(res, 'Usuario reactivado correctamente', usuario);
+});
+
+/**
+ * POST /api/admin/usuarios/:id/cerrar-sesiones
+ *
+ * - Elimina todos los refresh tokens del usuario (logout forzado en todos sus dispositivos).
+ * - Incrementa versionToken: los access tokens ya emitidos dejan de servir en el acto.
+ */
+export const cerrarSesionesUsuario = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const objetivo = await Usuario.findById(req.params.id).select('rol').lean();
+
+  if (!objetivo) {
+    throw new ErrorNoEncontrado('Usuario no encontrado', 'USUARIO_NO_ENCONTRADO');
+  }
+
+  verificarPuedeGestionar(req, objetivo.rol);
+
+  await Usuario.updateOne({ _id: req.params.id }, { $inc: { versionToken: 1 } });
+
+  const { deletedCount } = await RefreshToken.deleteMany({ usuarioId: req.params.id });
+
+  await registrarAuditoria(req, {
+    accion: 'usuario.sesiones_cerradas',
+    objetivoTipo: 'usuario',
+    objetivoId: req.params.id,
+    metadatos: { sesionesCerradas: deletedCount },
+  });
+
+  logger.info(`Admin ${req.usuario!._id} cerró ${deletedCount} sesiones de ${req.params.id}`);
+
+  return enviarRespuestaExitosa(res, 'Sesiones cerradas correctamente', { sesionesCerradas: deletedCount });
+});
@@ -0,0 +1,96 @@
+/**
+ * auditoria.controlador.ts
+ *
+ * Consulta del registro de auditoría (panel de administración):
+ * - Listado paginado con filtros
+ * - Exportación a CSV
+ *
+ * Solo lectura: las entradas no se pueden modificar ni borrar desde la API.
+ * Todas las funciones asumen que autenticarJWT y requierePermiso ya se ejecutaron.
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ColumnaCSV, generarCSV } from '../utilidades/csv';
+import { IRegistroAuditoria, RegistroAuditoria } from '../modelos/registroAuditoria.modelo';
+import { RequestConUsuario } from '../tipos';
+import { ListarAuditoriaQuery } from '../validaciones/admin.validacion';
+
+/**
+ * Máximo de filas de una exportación: para más, se acota el rango de fechas.
+ */
+const MAXIMO_FILAS_CSV = 10000;
+
+/**
+ * Columnas del CSV exportado.
+ */
+const COLUMNAS_CSV: ColumnaCSV<IRegistroAuditoria>[] = [
+  { encabezado: 'fecha', valor: (r) => r.creadoEn },
+  { encabezado: 'actorId', valor: (r) => r.actorId?.toString() },
+  { encabezado: 'actorRol', valor: (r) => r.actorRol },
+  { encabezado: 'accion', valor: (r) => r.accion },
+  { encabezado: 'objetivoTipo', valor: (r) => r.objetivoTipo },
+  { encabezado: 'objetivoId', valor: (r) => r.objetivoId },
+  { encabezado: 'antes', valor: (r) => r.cambios?.antes },
+  { encabezado: 'despues', valor: (r) => r.cambios?.despues },
+  { encabezado: 'metadatos', valor: (r) => r.metadatos },
+  { encabezado: 'ip', valor: (r) => r.ip },
+  { encabezado: 'userAgent', valor: (r) => r.userAgent },
+  { encabezado: 'requestId', valor: (r) => r.requestId },
+];
+
+/**
+ * GET /api/admin/auditoria
+ *
+ * - Lista las entradas (más recientes primero) filtrando por actor, acción, objetivo y rango de fechas.
+ * - Con formato=csv devuelve un archivo con todas las entradas filtradas (hasta MAXIMO_FILAS_CSV);
+ *   el encabezado X-Total-Registros informa cuántas había en total.
+ */
+export const listarAuditoria = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // La query ya viene validada y normalizada por listarAuditoriaQuerySchema
+  const { actorId, accion, objetivoTipo, objetivoId, desde, hasta, formato, pagina, limite } =
+    req.query as unknown as ListarAuditoriaQuery;
+
+  const filtro: Record<string, unknown> = {};
+  if (actorId) filtro.actorId = actorId;
+  if (accion) filtro.accion = accion;
+  if (objetivoTipo) filtro.objetivoTipo = objetivoTipo;
+  if (objetivoId) filtro.objetivoId = objetivoId;
+  if (desde || hasta) {
+    filtro.creadoEn = {
+      ...(desde ? { $gte: desde } : {}),
+      ...(hasta ? { $lte: hasta } : {}),
+    };
+  }
+
+  if (formato === 'csv') {
+    const [registros, total] = await Promise.all([
+      RegistroAuditoria.find(filtro).sort({ creadoEn: -1 }).limit(MAXIMO_FILAS_CSV).lean<IRegistroAuditoria[]>(),
+      RegistroAuditoria.countDocuments(filtro),
+    ]);
+
+    logger.info(`Usuario ${req.usuario!._id} exportó ${registros.length} registros de auditoría`);
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="auditoria-${new Date().toISOString().slice(0, 10)}.csv"`,
+      'X-Total-Registros': String(total),
+    });
+    return res.status(200).send(generarCSV(COLUMNAS_CSV, registros));
+  }
+
+  const [registros, total] = await Promise.all([
+    RegistroAuditoria.find(filtro)
+      .sort({ creadoEn: -1 })
+      .skip((pagina - 1) * limite)
+      .limit(limite),
+    RegistroAuditoria.countDocuments(filtro),
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Registro de auditoría obtenido correctamente', {
+    registros,
+    paginacion: { pagina, limite, total, totalPaginas: Math.ceil(total / limite) },
+  });
+});
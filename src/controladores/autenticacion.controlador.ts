@@ -14,181 +14,246 @@ import { enviarSMS } from '../utilidades/enviarSMS';
 import {
   generarCodigo,
   generarJWT,
-  generarRefreshToken
+  generarTokenPendienteDosFactores,
+  hashearCodigo
 } from '../utilidades/generarToken';
+import { tieneDosFactoresHabilitado } from '../utilidades/dosFactores';
+import { crearSesion, rotarSesion, buscarSesionPorRefreshToken } from '../utilidades/sesiones';
 import {
-  enviarRespuestaExitosa,
-  enviarRespuestaError
-} from '../utilidades/respuestaEstandarizada';
+  comprobarCodigo,
+  obtenerBloqueoVigente,
+  segundosHasta,
+  ResultadoVerificacion
+} from '../utilidades/verificacionCodigo';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import {
+  ErrorLimiteExcedido,
+  ErrorNoAutorizado,
+  ErrorProhibido,
+  ErrorValidacion
+} from '../utilidades/errores';
 import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
 import { Usuario } from '../modelos/usuario.modelo';
-import { RefreshToken } from '../modelos/refreshToken.modelo';
+
+/**
+ * Error 429 CODIGO_BLOQUEADO indicando cuándo se puede volver a intentar.
+ */
+const errorTelefonoBloqueado = (bloqueadoHasta: Date) => {
+  const reintentarEnSegundos = segundosHasta(bloqueadoHasta);
+  return new ErrorLimiteExcedido(
+    'Demasiados intentos fallidos. Intenta nuevamente más tarde.',
+    'CODIGO_BLOQUEADO',
+    { datos: { bloqueadoHasta, reintentarEnSegundos }, reintentarEnSegundos }
+  );
+};
+
+/**
+ * Traduce un resultado de verificación fallido al error correspondiente.
+ * - bloqueado → 429 CODIGO_BLOQUEADO
+ * - incorrecto → 400 con los intentos restantes
+ * - inexistente → 400 (código vencido o nunca pedido)
+ *
+ * @param codigoError - Código de error de cada endpoint para "código inválido"
+ */
+const errorCodigoRechazado = (
+  resultado: Exclude<ResultadoVerificacion, { estado: 'valido' }>,
+  mensaje: string,
+  codigoError: string
+) => {
+  if (resultado.estado === 'bloqueado') {
+    return errorTelefonoBloqueado(resultado.bloqueadoHasta);
+  }
+
+  const datos = resultado.estado === 'incorrecto' ? { intentosRestantes: resultado.intentosRestantes } : undefined;
+  return new ErrorValidacion(mensaje, codigoError, { datos });
+};
 
 /**
  * POST /api/autenticacion/registro
  *
  * Paso 1 del proceso de autenticación.
  * - Recibe un teléfono.
+ * - Rechaza teléfonos bloqueados por intentos fallidos.
  * - Genera código de verificación aleatorio.
- * - Lo guarda con TTL en la colección temporal.
- * - Envía el código vía SMS.
+ * - Envía el código vía SMS (sujeto a los límites de utilidades/limitesSMS.ts).
+ * - Guarda su hash con TTL en la colección temporal (reinicia los intentos).
  */
-export const registrarUsuario = async (req: Request, res: Response) => {
-  try {
-    const { telefono } = req.body;
+export const registrarUsuario = manejarAsync(async (req: Request, res: Response) => {
+  const { telefono } = req.body;
 
-    const codigo = generarCodigo();
+  // Pedir un código nuevo no puede servir para saltear un bloqueo
+  const bloqueadoHasta = await obtenerBloqueoVigente(telefono);
+  if (bloqueadoHasta) {
+    throw errorTelefonoBloqueado(bloqueadoHasta);
+  }
 
-    await CodigoVerificacion.findOneAndUpdate(
-      { telefono },
-      { telefono, codigo, creadoEn: new Date() },
-      { upsert: true, new: true }
-    );
+  const codigo = generarCodigo();
 
-    await enviarSMS(telefono, `Tu código de verificación es: ${codigo}`);
+  // Primero se envía: si el guard de SMS bloquea el envío, el código anterior sigue siendo válido.
+  // El bloqueo (ErrorLimiteSMS) llega al manejador global como 429 SMS_LIMITE_EXCEDIDO.
+  await enviarSMS(telefono, `Tu código de verificación es: ${codigo}`);
 
-    logger.info(`Código de verificación enviado a ${telefono}`);
+  await CodigoVerificacion.findOneAndUpdate(
+    { telefono },
+    { telefono, codigoHash: hashearCodigo(codigo), intentosFallidos: 0, creadoEn: new Date() },
+    { upsert: true, new: true }
+  );
 
-    return enviarRespuestaExitosa(res, 'Código enviado correctamente', null);
-  } catch (error: any) {
-    logger.error('Error al registrar usuario:', error);
-    return enviarRespuestaError(res, 'Error interno del servidor', 'ERROR_REGISTRO_USUARIO');
-  }
-};
+  logger.info(`Código de verificación enviado a ${telefono}`);
+
+  return enviarRespuestaExitosa(res, 'Código enviado correctamente', null);
+});
 
 /**
  * POST /api/autenticacion/verificar
  *
  * Paso 2 del proceso de autenticación.
  * - Verifica que el código enviado por SMS sea válido.
+ * - Cada intento fallido cuenta; al agotarlos el teléfono queda bloqueado.
  */
-export const verificarUsuario = async (req: Request, res: Response) => {
-  try {
-    const { telefono, codigo } = req.body;
-
-    const codigoEncontrado = await CodigoVerificacion.findOne({ telefono, codigo });
-
-    if (!codigoEncontrado) {
-      return enviarRespuestaError(
-        res,
-        'Código incorrecto o expirado',
-        'CODIGO_INVALIDO_O_EXPIRADO'
-      );
-    }
-
-    await CodigoVerificacion.deleteOne({ _id: codigoEncontrado._id });
-
-    return enviarRespuestaExitosa(res, 'Código verificado correctamente', null);
-  } catch (error: any) {
-    logger.error('Error al verificar código de usuario:', error);
-    return enviarRespuestaError(res, 'Error interno al verificar el código', 'ERROR_VERIFICACION');
+export const verificarUsuario = manejarAsync(async (req: Request, res: Response) => {
+  const { telefono, codigo } = req.body;
+
+  const resultado = await comprobarCodigo(telefono, codigo);
+
+  if (resultado.estado !== 'valido') {
+    throw errorCodigoRechazado(resultado, 'Código incorrecto o expirado', 'CODIGO_INVALIDO_O_EXPIRADO');
   }
-};
+
+  await CodigoVerificacion.deleteOne({ telefono });
+
+  return enviarRespuestaExitosa(res, 'Código verificado correctamente', null);
+});
 
 /**
  * POST /api/autenticacion/login
  *
- * - Verifica código.
+ * - Verifica código (con límite de intentos, igual que /verificar).
  * - Crea usuario si no existe.
- * - Genera y guarda refreshToken.
+ * - Rechaza usuarios suspendidos.
+ * - Si el usuario tiene segundo factor, devuelve un token pendiente en lugar de los tokens.
+ * - Abre una sesión (refresh token + dispositivo, user agent e IP).
  * - Devuelve JWT + refreshToken al cliente.
  */
-export const loginUsuario = async (req: Request, res: Response) => {
-  try {
-    const { telefono, codigo } = req.body;
-
-    const codigoDoc = await CodigoVerificacion.findOne({ telefono });
-
-    if (!codigoDoc || codigoDoc.codigo !== codigo) {
-      return enviarRespuestaError(res, 'Código inválido o expirado', 'CODIGO_INVALIDO');
-    }
+export const loginUsuario = manejarAsync(async (req: Request, res: Response) => {
+  const { telefono, codigo, dispositivo } = req.body;
 
-    let usuario = await Usuario.findOne({ telefono });
+  const resultado = await comprobarCodigo(telefono, codigo);
 
-    if (!usuario) {
-      usuario = new Usuario({ telefono });
-      await usuario.save();
-    }
+  if (resultado.estado !== 'valido') {
+    throw errorCodigoRechazado(resultado, 'Código inválido o expirado', 'CODIGO_INVALIDO');
+  }
 
-    const token = generarJWT({
-      usuarioId: usuario._id.toString(),
-      telefono: usuario.telefono,
-    });
+  let usuario = await Usuario.findOne({ telefono });
 
-    const refreshTokenString = generarRefreshToken();
+  if (!usuario) {
+    usuario = new Usuario({ telefono });
+    await usuario.save();
+  }
 
-    await RefreshToken.create({
-      token: refreshTokenString,
-      usuarioId: usuario._id,
-    });
+  if (usuario.suspendido) {
+    throw new ErrorProhibido('Tu cuenta está suspendida', 'USUARIO_SUSPENDIDO');
+  }
 
+  // Con segundo factor habilitado, el código SMS no alcanza: se devuelve un token pendiente
+  // y la sesión se abre en POST /api/autenticacion/2fa/verificar
+  if (await tieneDosFactoresHabilitado(usuario._id)) {
     await CodigoVerificacion.deleteOne({ telefono });
 
-    return enviarRespuestaExitosa(res, 'Login exitoso', {
-      token,
-      refreshToken: refreshTokenString,
-      usuario: {
-        id: usuario._id,
-        telefono: usuario.telefono,
-      },
+    return enviarRespuestaExitosa(res, 'Ingresá el código de tu app autenticadora', {
+      dosFactoresPendiente: true,
+      tokenPendiente: generarTokenPendienteDosFactores({
+        usuarioId: usuario._id.toString(),
+        version: usuario.versionToken,
+        dispositivo,
+      }),
     });
-  } catch (error: any) {
-    logger.error('Error en loginUsuario:', error);
-    return enviarRespuestaError(res, 'Error interno del servidor', 'ERROR_LOGIN');
   }
-};
+
+  // Cada login abre una sesión nueva, identificada por el dispositivo que la inició
+  const { sesion, refreshToken } = await crearSesion(usuario._id, req, dispositivo);
+
+  const token = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    sesionId: sesion._id.toString(),
+  });
+
+  await CodigoVerificacion.deleteOne({ telefono });
+
+  return enviarRespuestaExitosa(res, 'Login exitoso', {
+    token,
+    refreshToken,
+    usuario: {
+      id: usuario._id,
+      telefono: usuario.telefono,
+    },
+  });
+});
 
 /**
  * POST /api/autenticacion/refresh-token
  *
  * - Verifica que el refresh token exista y no esté vencido.
- * - Si es válido, lo elimina (rotación) y genera uno nuevo.
+ * - Si es un token ya rotado (posible robo), revoca la sesión completa.
+ * - Si es válido, lo reemplaza por uno nuevo dentro de la misma sesión (rotación)
+ *   y actualiza la fecha de último uso.
  * - Devuelve nuevo JWT y nuevo refresh token.
  */
-export const refrescarToken = async (req: Request, res: Response) => {
-  try {
-    const { refreshToken } = req.body;
-
-    // Buscamos si el token está registrado y sigue siendo válido
-    const tokenEnBD = await RefreshToken.findOne({ token: refreshToken });
-
-    if (!tokenEnBD) {
-      return enviarRespuestaError(
-        res,
-        'Refresh token inválido o caducado',
-        'REFRESH_TOKEN_INVALIDO'
-      );
-    }
-
-    // Validamos que el usuario exista
-    const usuario = await Usuario.findById(tokenEnBD.usuarioId);
-    if (!usuario) {
-      return enviarRespuestaError(res, 'Usuario no encontrado', 'USUARIO_NO_EXISTE');
-    }
-
-    // Eliminamos el token usado: ROTACIÓN de token
-    await RefreshToken.deleteOne({ _id: tokenEnBD._id });
-
-    // Generamos nuevo JWT y nuevo refresh token
-    const nuevoJWT = generarJWT({
-      usuarioId: usuario._id.toString(),
-      telefono: usuario.telefono,
-    });
+export const refrescarToken = manejarAsync(async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
 
-    const nuevoRefreshToken = generarRefreshToken();
+  // Buscamos la sesión del token (detecta reutilización de tokens ya rotados)
+  const resultado = await buscarSesionPorRefreshToken(refreshToken, req);
 
-    // Guardamos el nuevo token en la base de datos
-    await RefreshToken.create({
-      token: nuevoRefreshToken,
-      usuarioId: usuario._id,
-    });
+  if (resultado.estado === 'reutilizada') {
+    throw new ErrorNoAutorizado(
+      'Este refresh token ya fue utilizado. Por seguridad se cerró la sesión; inicia sesión nuevamente.',
+      'REFRESH_TOKEN_REUTILIZADO'
+    );
+  }
 
-    return enviarRespuestaExitosa(res, 'Token renovado correctamente', {
-      token: nuevoJWT,
-      refreshToken: nuevoRefreshToken,
-    });
-  } catch (error: any) {
-    logger.error('Error al refrescar token:', error);
-    return enviarRespuestaError(res, 'Error al procesar el refresh token', 'ERROR_REFRESH_TOKEN');
+  if (resultado.estado === 'invalida') {
+    throw new ErrorValidacion('Refresh token inválido o caducado', 'REFRESH_TOKEN_INVALIDO');
   }
-};
+
+  const tokenEnBD = resultado.sesion;
+
+  // Validamos que el usuario exista
+  const usuario = await Usuario.findById(tokenEnBD.usuarioId);
+  if (!usuario) {
+    throw new ErrorValidacion('Usuario no encontrado', 'USUARIO_NO_EXISTE');
+  }
+
+  // Un usuario suspendido no puede renovar tokens
+  if (usuario.suspendido) {
+    throw new ErrorProhibido('Tu cuenta está suspendida', 'USUARIO_SUSPENDIDO');
+  }
+
+  // ROTACIÓN de token: se reemplaza dentro de la misma sesión (conserva el dispositivo)
+  const nuevoRefreshToken = await rotarSesion(tokenEnBD, req);
+
+  if (!nuevoRefreshToken) {
+    // Otra request rotó este mismo token un instante antes
+    throw new ErrorValidacion('Refresh token inválido o caducado', 'REFRESH_TOKEN_INVALIDO');
+  }
+
+  // Generamos nuevo JWT asociado a la misma sesión
+  const nuevoJWT = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    sesionId: tokenEnBD._id.toString(),
+    // La sesión conserva si se abrió con segundo factor
+    dosFactores: tokenEnBD.dosFactores,
+  });
+
+  return enviarRespuestaExitosa(res, 'Token renovado correctamente', {
+    token: nuevoJWT,
+    refreshToken: nuevoRefreshToken,
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * clicks.controlador.ts
+ *
+ * Controlador para el registro y la consulta de clicks:
+ * - Registrar un click (público, con deduplicación por visitante)
+ * - Consultar los contadores de un servicio (dueño o permiso estadisticas:ver-todas)
+ * - Estadísticas de un servicio por período (dueño o permiso estadisticas:ver-todas)
+ */
+
+import { Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { env } from '../config/variables';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorNoEncontrado, ErrorProhibido, ErrorValidacion } from '../utilidades/errores';
+import { puedeVerMetricasServicio } from '../utilidades/permisos';
+import { Click, TIPOS_CLICK, TipoClick } from '../modelos/click.modelo';
+import { Servicio } from '../modelos/servicio.modelo';
+import { RequestConUsuario } from '../tipos';
+import { EstadisticasQuery } from '../validaciones/clicks.validacion';
+
+/**
+ * Agrupación temporal de las estadísticas (dia, semana o mes).
+ */
+type Agrupacion = EstadisticasQuery['agrupacion'];
+
+/**
+ * Conteo de clicks por tipo, más el total.
+ */
+type ConteoPorTipo = Record<TipoClick | 'total', number>;
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rango consultado cuando el cliente no envía "desde":
+ * 30 días, 12 semanas o 12 meses (aprox.) hacia atrás según la agrupación.
+ */
+const RANGO_POR_DEFECTO_MS: Record<Agrupacion, number> = {
+  dia: 30 * DIA_MS,
+  semana: 12 * 7 * DIA_MS,
+  mes: 365 * DIA_MS,
+};
+
+/**
+ * Unidad de $dateTrunc correspondiente a cada agrupación.
+ */
+const UNIDAD_DATE_TRUNC: Record<Agrupacion, string> = {
+  dia: 'day',
+  semana: 'week',
+  mes: 'month',
+};
+
+/**
+ * Convierte la salida de un $group por tipo ([{ _id: 'llamada', cantidad: 3 }, ...])
+ * en un objeto con todos los tipos presentes (en cero si no hubo clicks) y el total.
+ */
+const armarConteo = (grupos: { _id: TipoClick; cantidad: number }[]): ConteoPorTipo => {
+  const conteo = { total: 0 } as ConteoPorTipo;
+  for (const tipo of TIPOS_CLICK) {
+    conteo[tipo] = 0;
+  }
+  for (const { _id, cantidad } of grupos) {
+    conteo[_id] = cantidad;
+    conteo.total += cantidad;
+  }
+  return conteo;
+};
+
+/**
+ * Variación porcentual entre el período actual y el anterior (1 decimal).
+ * Es null cuando el período anterior no tuvo clicks (no hay base de comparación).
+ */
+const calcularVariacion = (actual: ConteoPorTipo, anterior: ConteoPorTipo) => {
+  const variacion = {} as Record<keyof ConteoPorTipo, number | null>;
+  for (const clave of Object.keys(actual) as (keyof ConteoPorTipo)[]) {
+    variacion[clave] =
+      anterior[clave] === 0 ? null : Math.round(((actual[clave] - anterior[clave]) / anterior[clave]) * 1000) / 10;
+  }
+  return variacion;
+};
+
+/**
+ * Clave de deduplicación de un click: servicio, tipo, quién (usuario o visitante)
+ * y el tramo de la ventana en el que cae. undefined si la deduplicación está desactivada.
+ */
+const generarClaveDeduplicacion = (
+  servicioId: string,
+  tipo: TipoClick,
+  autor: string,
+  fecha: Date,
+): string | undefined => {
+  const ventanaMs = env.CLICKS_VENTANA_DEDUPLICACION_SEGUNDOS * 1000;
+
+  if (ventanaMs === 0) {
+    return undefined;
+  }
+
+  return [servicioId, tipo, autor, Math.floor(fecha.getTime() / ventanaMs)].join(':');
+};
+
+/**
+ * POST /api/clicks
+ *
+ * - Verifica que el servicio exista, esté activo y aprobado.
+ * - Si el mismo visitante (o usuario) ya hizo este tipo de click sobre el servicio
+ *   dentro de la ventana de deduplicación, no se registra de nuevo.
+ * - Si es un click nuevo, lo guarda e incrementa los contadores del servicio.
+ *   El alta es un upsert sobre la clave de deduplicación: de dos clicks simultáneos
+ *   solo uno se inserta, y solo ese incrementa los contadores.
+ */
+export const registrarClick = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { servicioId, tipo, visitanteId, referrer } = req.body;
+
+  // Solo se registran clicks sobre servicios visibles públicamente
+  const servicio = await Servicio.findOne({ _id: servicioId, activo: true, estadoModeracion: 'aprobado' }).select(
+    '_id',
+  );
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  // Si hay sesión deduplicamos por usuario (mismo usuario desde varios dispositivos),
+  // si no, por el identificador anónimo del visitante.
+  const usuarioId = req.usuario?._id;
+  const ahora = new Date();
+  const desde = new Date(ahora.getTime() - env.CLICKS_VENTANA_DEDUPLICACION_SEGUNDOS * 1000);
+
+  const duplicado = await Click.exists({
+    servicioId,
+    tipo,
+    creadoEn: { $gte: desde },
+    ...(usuarioId ? { usuarioId } : { visitanteId }),
+  });
+
+  if (duplicado) {
+    return enviarRespuestaExitosa(res, 'Click ya registrado recientemente', { registrado: false });
+  }
+
+  const origen = referrer ?? req.get('referer');
+  const click = {
+    servicioId,
+    tipo,
+    visitanteId,
+    creadoEn: ahora,
+    ...(usuarioId && { usuarioId }),
+    ...(origen && { referrer: origen }),
+  };
+  const autor = usuarioId ? `usuario:${usuarioId}` : `visitante:${visitanteId}`;
+  const claveDeduplicacion = generarClaveDeduplicacion(servicioId, tipo, autor, ahora);
+
+  if (claveDeduplicacion) {
+    // Dos requests simultáneos pasan los dos la consulta anterior: el índice único decide cuál inserta
+    // (la clave la copia el upsert desde el filtro)
+    const { upsertedCount } = await Click.updateOne({ claveDeduplicacion }, { $setOnInsert: click }, { upsert: true });
+
+    if (upsertedCount === 0) {
+      return enviarRespuestaExitosa(res, 'Click ya registrado recientemente', { registrado: false });
+    }
+  } else {
+    await Click.create(click);
+  }
+
+  await Servicio.updateOne({ _id: servicioId }, { $inc: { [`contadores.${tipo}`]: 1, 'contadores.total': 1 } });
+
+  return enviarRespuestaExitosa(res, 'Click registrado correctamente', { registrado: true }, 201);
+});
+
+/**
+ * GET /api/clicks/servicios/:servicioId
+ *
+ * - Devuelve los contadores acumulados de clicks de un servicio.
+ * - Solo el dueño del servicio o quien tenga estadisticas:ver-todas pueden verlos.
+ */
+export const obtenerContadoresServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { servicioId } = req.params;
+
+  if (!isValidObjectId(servicioId)) {
+    throw new ErrorValidacion('ID de servicio inválido', 'ID_INVALIDO');
+  }
+
+  const servicio = await Servicio.findById(servicioId);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  if (!puedeVerMetricasServicio(req, servicio)) {
+    throw new ErrorProhibido('No tenés permiso para ver las métricas de este servicio', 'ACCESO_NO_AUTORIZADO');
+  }
+
+  return enviarRespuestaExitosa(res, 'Contadores obtenidos correctamente', {
+    servicioId: servicio._id,
+    contadores: servicio.contadores,
+  });
+});
+
+/**
+ * GET /api/servicios/:id/estadisticas
+ *
+ * - Agrega los clicks del servicio con un pipeline de MongoDB.
+ * - Devuelve una serie temporal (por día, semana o mes) desglosada por tipo de click.
+ * - Compara los totales con el período anterior de igual duración.
+ * - Solo el dueño del servicio o quien tenga estadisticas:ver-todas pueden consultarlas.
+ *
+ * La serie solo incluye los períodos con actividad; el frontend completa los vacíos.
+ * Las fechas se agrupan en UTC y las semanas empiezan el lunes.
+ */
+export const obtenerEstadisticasServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { id } = req.params;
+
+  if (!isValidObjectId(id)) {
+    throw new ErrorValidacion('ID de servicio inválido', 'ID_INVALIDO');
+  }
+
+  const servicio = await Servicio.findById(id);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  if (!puedeVerMetricasServicio(req, servicio)) {
+    throw new ErrorProhibido('No tenés permiso para ver las estadísticas de este servicio', 'ACCESO_NO_AUTORIZADO');
+  }
+
+  // La query ya viene validada y normalizada por estadisticasQuerySchema
+  const { agrupacion, desde: desdeQuery, hasta } = req.query as unknown as EstadisticasQuery;
+
+  const desde = desdeQuery ?? new Date(hasta.getTime() - RANGO_POR_DEFECTO_MS[agrupacion]);
+  const desdeAnterior = new Date(desde.getTime() - (hasta.getTime() - desde.getTime()));
+
+  const [resultado] = await Click.aggregate<{
+    serie: { _id: Date; porTipo: { _id: TipoClick; cantidad: number }[] }[];
+    actual: { _id: TipoClick; cantidad: number }[];
+    anterior: { _id: TipoClick; cantidad: number }[];
+  }>([
+    // Un solo $match cubre ambos períodos y aprovecha el índice por servicioId + creadoEn
+    { $match: { servicioId: servicio._id, creadoEn: { $gte: desdeAnterior, $lt: hasta } } },
+    {
+      $facet: {
+        serie: [
+          { $match: { creadoEn: { $gte: desde } } },
+          {
+            $group: {
+              _id: {
+                fecha: {
+                  $dateTrunc: { date: '$creadoEn', unit: UNIDAD_DATE_TRUNC[agrupacion], startOfWeek: 'monday' },
+                },
+                tipo: '$tipo',
+              },
+              cantidad: { $sum: 1 },
+            },
+          },
+          { $group: { _id: '$_id.fecha', porTipo: { $push: { _id: '$_id.tipo', cantidad: '$cantidad' } } } },
+          { $sort: { _id: 1 } },
+        ],
+        actual: [{ $match: { creadoEn: { $gte: desde } } }, { $group: { _id: '$tipo', cantidad: { $sum: 1 } } }],
+        anterior: [{ $match: { creadoEn: { $lt: desde } } }, { $group: { _id: '$tipo', cantidad: { $sum: 1 } } }],
+      },
+    },
+  ]);
+
+  const totales = armarConteo(resultado.actual);
+  const totalesPeriodoAnterior = armarConteo(resultado.anterior);
+
+  return enviarRespuestaExitosa(res, 'Estadísticas obtenidas correctamente', {
+    servicioId: servicio._id,
+    agrupacion,
+    periodo: { desde, hasta },
+    periodoAnterior: { desde: desdeAnterior, hasta: desde },
+    serie: resultado.serie.map(({ _id, porTipo }) => ({ fecha: _id, ...armarConteo(porTipo) })),
+    totales,
+    totalesPeriodoAnterior,
+    variacionPorcentual: calcularVariacion(totales, totalesPeriodoAnterior),
+  });
+});
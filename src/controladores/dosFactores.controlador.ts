@@ -0,0 +1,276 @@
+/**
+ * dosFactores.controlador.ts
+ *
+ * Controlador del segundo factor de autenticación (TOTP):
+ * - Inscripción (genera el secreto y la URI otpauth para el código QR)
+ * - Confirmación (habilita el segundo factor y entrega los códigos de recuperación)
+ * - Verificación (completa un login que quedó pendiente del segundo factor)
+ * - Regeneración de los códigos de recuperación
+ *
+ * Es obligatorio para usar los permisos del personal (ver config/roles.ts).
+ */
+
+import { Request, Response } from 'express';
+import { logger, loggerSeguridad } from '../config/logger';
+import { getListaRevocacion } from '../config/revocacion';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import {
+  ErrorConflicto,
+  ErrorLimiteExcedido,
+  ErrorNoAutorizado,
+  ErrorNoEncontrado,
+  ErrorProhibido,
+} from '../utilidades/errores';
+import {
+  generarJWT,
+  verificarTokenPendienteDosFactores,
+  PayloadPendienteDosFactores,
+} from '../utilidades/generarToken';
+import { generarSecretoTOTP, generarUriOtpauth } from '../utilidades/totp';
+import {
+  aceptarCodigoTOTP,
+  cifrarSecreto,
+  generarCodigosRecuperacion,
+  reiniciarIntentosDosFactores,
+  reservarIntentoDosFactores,
+  verificarSegundoFactor,
+} from '../utilidades/dosFactores';
+import { segundosHasta } from '../utilidades/verificacionCodigo';
+import { crearSesion } from '../utilidades/sesiones';
+import { registrarAuditoria } from '../utilidades/auditoria';
+import { SegundoFactor } from '../modelos/segundoFactor.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { Usuario } from '../modelos/usuario.modelo';
+import { RequestConUsuario } from '../tipos';
+
+/**
+ * Error 401 cuando el código del segundo factor no es válido (o ya se usó).
+ */
+const errorCodigoInvalido = () =>
+  new ErrorNoAutorizado('Código de segundo factor inválido', 'CODIGO_SEGUNDO_FACTOR_INVALIDO');
+
+/**
+ * Error 401 cuando el token pendiente venció, ya se usó o quedó invalidado.
+ */
+const errorTokenPendienteInvalido = () =>
+  new ErrorNoAutorizado('El inicio de sesión expiró. Volvé a empezar.', 'TOKEN_PENDIENTE_INVALIDO');
+
+/**
+ * Error 429 cuando el usuario agotó los intentos del segundo factor.
+ */
+const errorDosFactoresBloqueado = (bloqueadoHasta: Date) => {
+  const reintentarEnSegundos = segundosHasta(bloqueadoHasta);
+  return new ErrorLimiteExcedido(
+    'Demasiados códigos de segundo factor incorrectos. Intentá más tarde.',
+    'DOS_FACTORES_BLOQUEADO',
+    { datos: { bloqueadoHasta, reintentarEnSegundos }, reintentarEnSegundos },
+  );
+};
+
+/**
+ * POST /api/autenticacion/2fa/inscripcion
+ *
+ * - Genera un secreto TOTP nuevo y lo guarda sin confirmar (reemplaza una inscripción sin terminar).
+ * - Devuelve el secreto y la URI otpauth:// para mostrarla como código QR.
+ * - Si el usuario ya tiene un segundo factor confirmado, responde 409.
+ */
+export const iniciarInscripcionDosFactores = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = req.usuario!;
+
+  if (await SegundoFactor.exists({ usuarioId: usuario._id, confirmado: true })) {
+    throw new ErrorConflicto('El segundo factor ya está habilitado', 'DOS_FACTORES_YA_HABILITADO');
+  }
+
+  const secreto = generarSecretoTOTP();
+
+  await SegundoFactor.findOneAndUpdate(
+    { usuarioId: usuario._id },
+    { secretoCifrado: cifrarSecreto(secreto), confirmado: false, ultimoPaso: 0, codigosRecuperacion: [] },
+    { upsert: true },
+  );
+
+  return enviarRespuestaExitosa(res, 'Escaneá el código QR con tu app autenticadora y confirmá con un código', {
+    secreto,
+    otpauthUri: generarUriOtpauth(secreto, usuario.telefono),
+  });
+});
+
+/**
+ * POST /api/autenticacion/2fa/confirmar
+ *
+ * - Comprueba un código de la app contra el secreto pendiente y habilita el segundo factor.
+ * - Devuelve los códigos de recuperación (única vez que se muestran).
+ * - La sesión actual pasa a contar con segundo factor y se devuelve un token de acceso que lo refleja.
+ */
+export const confirmarDosFactores = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = req.usuario!;
+  const segundoFactor = await SegundoFactor.findOne({ usuarioId: usuario._id, confirmado: false });
+
+  if (!segundoFactor) {
+    throw new ErrorNoEncontrado('No hay una inscripción de segundo factor pendiente', 'DOS_FACTORES_NO_INICIADO');
+  }
+
+  if (!(await aceptarCodigoTOTP(segundoFactor, req.body.codigo))) {
+    throw errorCodigoInvalido();
+  }
+
+  const { codigos, hashes } = generarCodigosRecuperacion();
+
+  await SegundoFactor.updateOne(
+    { _id: segundoFactor._id },
+    { confirmado: true, confirmadoEn: new Date(), codigosRecuperacion: hashes },
+  );
+
+  // El usuario acaba de demostrar que tiene el autenticador: la sesión actual queda verificada
+  if (req.sesionId) {
+    await RefreshToken.updateOne({ _id: req.sesionId, usuarioId: usuario._id }, { dosFactores: true });
+  }
+
+  const token = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    sesionId: req.sesionId,
+    dosFactores: true,
+  });
+
+  await registrarAuditoria(req, {
+    accion: 'dos_factores.habilitado',
+    objetivoTipo: 'usuario',
+    objetivoId: usuario._id,
+  });
+
+  logger.info(`Usuario ${usuario._id} habilitó el segundo factor`);
+
+  return enviarRespuestaExitosa(res, 'Segundo factor habilitado. Guardá los códigos de recuperación.', {
+    token,
+    codigosRecuperacion: codigos,
+  });
+});
+
+/**
+ * POST /api/autenticacion/2fa/verificar
+ *
+ * - Completa un login pendiente: token pendiente + código TOTP o código de recuperación.
+ * - El token pendiente es de un solo uso: se revoca al completar el login.
+ * - Los intentos se cuentan por usuario: al agotarlos se revoca el token pendiente y el
+ *   segundo factor queda bloqueado (429), aunque el siguiente código sea correcto.
+ * - Abre la sesión marcada con segundo factor y devuelve JWT + refreshToken.
+ */
+export const verificarDosFactores = manejarAsync(async (req: Request, res: Response) => {
+  const { tokenPendiente, codigo, codigoRecuperacion } = req.body;
+
+  let pendiente: PayloadPendienteDosFactores;
+
+  try {
+    pendiente = verificarTokenPendienteDosFactores(tokenPendiente);
+  } catch {
+    throw errorTokenPendienteInvalido();
+  }
+
+  if (await getListaRevocacion().estaRevocado(pendiente.jti)) {
+    throw errorTokenPendienteInvalido();
+  }
+
+  const usuario = await Usuario.findById(pendiente.usuarioId);
+
+  if (!usuario || usuario.versionToken !== pendiente.version) {
+    throw errorTokenPendienteInvalido();
+  }
+
+  if (usuario.suspendido) {
+    throw new ErrorProhibido('Tu cuenta está suspendida', 'USUARIO_SUSPENDIDO');
+  }
+
+  // El intento se consume antes de comparar el código: los intentos en paralelo también cuentan
+  const intento = await reservarIntentoDosFactores(usuario._id);
+
+  if (intento.estado === 'bloqueado') {
+    throw errorDosFactoresBloqueado(intento.bloqueadoHasta);
+  }
+
+  const metodo =
+    intento.estado === 'permitido' ? await verificarSegundoFactor(usuario._id, { codigo, codigoRecuperacion }) : null;
+
+  if (!metodo) {
+    loggerSeguridad.warn(`Segundo factor inválido para el usuario ${usuario._id} desde ${req.ip}`);
+
+    if (intento.estado === 'permitido' && intento.bloqueadoHasta) {
+      // Último intento agotado: el login pendiente no puede seguir usándose
+      await getListaRevocacion().revocar(pendiente.jti, new Date(pendiente.exp! * 1000));
+      loggerSeguridad.warn(`Segundo factor del usuario ${usuario._id} bloqueado por intentos fallidos`);
+      throw errorDosFactoresBloqueado(intento.bloqueadoHasta);
+    }
+
+    throw errorCodigoInvalido();
+  }
+
+  await reiniciarIntentosDosFactores(usuario._id);
+  await getListaRevocacion().revocar(pendiente.jti, new Date(pendiente.exp! * 1000));
+
+  const { sesion, refreshToken } = await crearSesion(usuario._id, req, pendiente.dispositivo, true);
+
+  const token = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    sesionId: sesion._id.toString(),
+    dosFactores: true,
+  });
+
+  if (metodo === 'recuperacion') {
+    logger.warn(`Usuario ${usuario._id} inició sesión con un código de recuperación`);
+
+    await registrarAuditoria(req, {
+      accion: 'dos_factores.codigo_recuperacion_usado',
+      actor: usuario,
+      objetivoTipo: 'sesion',
+      objetivoId: sesion._id,
+    });
+  }
+
+  return enviarRespuestaExitosa(res, 'Login exitoso', {
+    token,
+    refreshToken,
+    usuario: {
+      id: usuario._id,
+      telefono: usuario.telefono,
+    },
+  });
+});
+
+/**
+ * POST /api/autenticacion/2fa/codigos-recuperacion
+ *
+ * - Requiere un código TOTP vigente (no alcanza con el token de acceso).
+ * - Invalida los códigos anteriores y devuelve unos nuevos.
+ */
+export const regenerarCodigosRecuperacion = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = req.usuario!;
+  const segundoFactor = await SegundoFactor.findOne({ usuarioId: usuario._id, confirmado: true });
+
+  if (!segundoFactor) {
+    throw new ErrorNoEncontrado('El segundo factor no está habilitado', 'DOS_FACTORES_NO_HABILITADO');
+  }
+
+  if (!(await aceptarCodigoTOTP(segundoFactor, req.body.codigo))) {
+    throw errorCodigoInvalido();
+  }
+
+  const { codigos, hashes } = generarCodigosRecuperacion();
+
+  await SegundoFactor.updateOne({ _id: segundoFactor._id }, { codigosRecuperacion: hashes });
+
+  await registrarAuditoria(req, {
+    accion: 'dos_factores.codigos_regenerados',
+    objetivoTipo: 'usuario',
+    objetivoId: usuario._id,
+  });
+
+  logger.info(`Usuario ${usuario._id} regeneró sus códigos de recuperación`);
+
+  return enviarRespuestaExitosa(res, 'Códigos de recuperación regenerados', { codigosRecuperacion: codigos });
+});
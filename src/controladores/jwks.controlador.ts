@@ -0,0 +1,22 @@
+/**
+ * jwks.controlador.ts
+ *
+ * Publica las claves públicas con las que se verifican los tokens de acceso.
+ */
+
+import { Request, Response } from 'express';
+import { obtenerJWKS } from '../config/clavesJWT';
+
+/**
+ * GET /.well-known/jwks.json
+ *
+ * - Devuelve el JWK Set sin el envoltorio de respuesta estandarizada:
+ *   las librerías de JWT lo consumen tal cual (RFC 7517).
+ * - Se permite cachearlo unos minutos; tras una rotación los clientes
+ *   que no encuentren un kid deben volver a pedirlo.
+ * - Sin claves asimétricas configuradas, devuelve una lista vacía.
+ */
+export const obtenerClavesPublicas = (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  return res.status(200).json(obtenerJWKS());
+};
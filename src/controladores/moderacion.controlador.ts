@@ -0,0 +1,121 @@
+/**
+ * moderacion.controlador.ts
+ *
+ * Controlador de la moderación de servicios (panel de administración):
+ * - Cola de servicios pendientes de revisión
+ * - Aprobar un servicio
+ * - Rechazar un servicio con motivo
+ *
+ * Cada decisión queda en el registro de auditoría.
+ * Todas las funciones asumen que autenticarJWT y requierePermiso ya se ejecutaron.
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorConflicto, ErrorNoEncontrado } from '../utilidades/errores';
+import { calcularCambios, registrarAuditoria } from '../utilidades/auditoria';
+import { Servicio } from '../modelos/servicio.modelo';
+import { RequestConUsuario } from '../tipos';
+import { PaginacionQuery } from '../validaciones/admin.validacion';
+
+/**
+ * Campos de moderación que se comparan en la auditoría.
+ */
+const CAMPOS_MODERACION = ['estadoModeracion', 'motivoRechazo'] as const;
+
+/**
+ * GET /api/admin/servicios/pendientes
+ *
+ * - Lista los servicios pendientes de revisión, del más viejo al más nuevo (FIFO),
+ *   para que ningún prestador quede esperando indefinidamente.
+ */
+export const listarServiciosPendientes = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // La query ya viene validada y normalizada por paginacionQuerySchema
+  const { pagina, limite } = req.query as unknown as PaginacionQuery;
+  const filtro = { estadoModeracion: 'pendiente' };
+
+  const [servicios, total] = await Promise.all([
+    Servicio.find(filtro)
+      .populate('usuarioId', 'telefono nombre')
+      .sort({ actualizadoEn: 1 })
+      .skip((pagina - 1) * limite)
+      .limit(limite),
+    Servicio.countDocuments(filtro),
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Servicios pendientes obtenidos correctamente', {
+    servicios,
+    paginacion: { pagina, limite, total, totalPaginas: Math.ceil(total / limite) },
+  });
+});
+
+/**
+ * POST /api/admin/servicios/:id/aprobar
+ *
+ * - Aprueba el servicio: desde ahora aparece en las búsquedas públicas.
+ * - Registra el admin que lo revisó en el historial.
+ */
+export const aprobarServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const servicio = await Servicio.findById(req.params.id);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  if (servicio.estadoModeracion === 'aprobado') {
+    throw new ErrorConflicto('El servicio ya está aprobado', 'SERVICIO_YA_APROBADO');
+  }
+
+  const anterior = { estadoModeracion: servicio.estadoModeracion, motivoRechazo: servicio.motivoRechazo };
+
+  servicio.estadoModeracion = 'aprobado';
+  servicio.motivoRechazo = undefined;
+  servicio.historialModeracion.push({ estado: 'aprobado', fecha: new Date(), revisadoPor: req.usuario!._id });
+  await servicio.save();
+
+  await registrarAuditoria(req, {
+    accion: 'servicio.aprobado',
+    objetivoTipo: 'servicio',
+    objetivoId: servicio._id,
+    cambios: calcularCambios(anterior, servicio, CAMPOS_MODERACION),
+  });
+
+  logger.info(`Admin ${req.usuario!._id} aprobó el servicio ${servicio._id}`);
+
+  return enviarRespuestaExitosa(res, 'Servicio aprobado correctamente', servicio);
+});
+
+/**
+ * POST /api/admin/servicios/:id/rechazar
+ *
+ * - Rechaza el servicio con un motivo visible para su dueño.
+ * - Si estaba aprobado, deja de aparecer en las búsquedas.
+ */
+export const rechazarServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const servicio = await Servicio.findById(req.params.id);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  const { motivo } = req.body;
+  const anterior = { estadoModeracion: servicio.estadoModeracion, motivoRechazo: servicio.motivoRechazo };
+
+  servicio.estadoModeracion = 'rechazado';
+  servicio.motivoRechazo = motivo;
+  servicio.historialModeracion.push({ estado: 'rechazado', fecha: new Date(), revisadoPor: req.usuario!._id, motivo });
+  await servicio.save();
+
+  await registrarAuditoria(req, {
+    accion: 'servicio.rechazado',
+    objetivoTipo: 'servicio',
+    objetivoId: servicio._id,
+    cambios: calcularCambios(anterior, servicio, CAMPOS_MODERACION),
+  });
+
+  logger.info(`Admin ${req.usuario!._id} rechazó el servicio ${servicio._id}`);
+
+  return enviarRespuestaExitosa(res, 'Servicio rechazado correctamente', servicio);
+});
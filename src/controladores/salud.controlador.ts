@@ -0,0 +1,129 @@
+/**
+ * salud.controlador.ts
+ *
+ * Estado de la API:
+ * - Liveness y readiness para el orquestador (GET /health/live y /health/ready)
+ * - Estado detallado del sistema para el panel de administración (GET /api/admin/estado)
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { env } from '../config/variables';
+import { logger } from '../config/logger';
+import { obtenerEstadisticasPool } from '../config/db';
+import { getProveedorSMS } from '../config/sms';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { verificarDependencias } from '../utilidades/salud';
+import { CodigoVerificacion, VIGENCIA_CODIGO_SEGUNDOS } from '../modelos/codigoVerificacion.modelo';
+import { BloqueoVerificacion } from '../modelos/bloqueoVerificacion.modelo';
+import { RequestConUsuario } from '../tipos';
+
+/**
+ * Versión de la API, leída una vez del package.json (está dos niveles arriba tanto en src como en dist).
+ */
+const leerVersion = (): string => {
+  try {
+    const paquete = JSON.parse(readFileSync(path.join(__dirname, '../../package.json'), 'utf8')) as {
+      version?: string;
+    };
+    return paquete.version ?? 'desconocida';
+  } catch {
+    return process.env.npm_package_version ?? 'desconocida';
+  }
+};
+
+const VERSION = leerVersion();
+
+/**
+ * Bytes a megabytes, con un decimal.
+ */
+const aMegabytes = (bytes: number): number => Math.round((bytes / 1024 / 1024) * 10) / 10;
+
+/**
+ * GET /health/live
+ *
+ * - El proceso está vivo y el event loop responde: no consulta ninguna dependencia,
+ *   así una caída de MongoDB no hace que el orquestador reinicie el contenedor.
+ * - Sin el envoltorio de respuesta estandarizada: la consume el orquestador, no el frontend.
+ */
+export const vivo = (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'no-store');
+  return res.status(200).json({ estado: 'ok' });
+};
+
+/**
+ * GET /health/ready
+ *
+ * - Verifica MongoDB, el proveedor de SMS y el cache.
+ * - 200 si todas responden; 503 si alguna falla (el orquestador deja de enviar tráfico).
+ * - Es pública: solo informa qué dependencia falló; el motivo queda en el log
+ *   y en GET /api/admin/estado.
+ */
+export const listo = manejarAsync(async (_req: Request, res: Response) => {
+  const { listo: estaListo, verificaciones } = await verificarDependencias();
+
+  if (!estaListo) {
+    logger.warn('Readiness fallida', { verificaciones });
+  }
+
+  res.set('Cache-Control', 'no-store');
+  return res.status(estaListo ? 200 : 503).json({
+    estado: estaListo ? 'ok' : 'error',
+    verificaciones: Object.fromEntries(
+      Object.entries(verificaciones).map(([dependencia, { estado }]) => [dependencia, estado]),
+    ),
+  });
+});
+
+/**
+ * GET /api/admin/estado
+ *
+ * - Versión, entorno, uptime y memoria del proceso.
+ * - Estado de la conexión a MongoDB y de su pool de conexiones.
+ * - Resultado (con motivo) de cada verificación de dependencias.
+ * - Códigos de verificación pendientes y teléfonos bloqueados
+ *   (sin MongoDB disponible, los contadores vienen en null).
+ */
+export const obtenerEstadoSistema = manejarAsync(async (_req: RequestConUsuario, res: Response) => {
+  const dependencias = await verificarDependencias();
+  const ahora = new Date();
+
+  const [codigosPendientes, telefonosBloqueados] =
+    dependencias.verificaciones.mongo.estado === 'ok'
+      ? await Promise.all([
+          CodigoVerificacion.countDocuments({
+            creadoEn: { $gt: new Date(ahora.getTime() - VIGENCIA_CODIGO_SEGUNDOS * 1000) },
+          }),
+          BloqueoVerificacion.countDocuments({ bloqueadoHasta: { $gt: ahora } }),
+        ])
+      : [null, null];
+
+  const memoria = process.memoryUsage();
+
+  return enviarRespuestaExitosa(res, 'Estado del sistema obtenido correctamente', {
+    version: VERSION,
+    entorno: env.NODE_ENV,
+    node: process.version,
+    uptimeSegundos: Math.floor(process.uptime()),
+    memoriaMB: {
+      rss: aMegabytes(memoria.rss),
+      heapUsado: aMegabytes(memoria.heapUsed),
+      heapTotal: aMegabytes(memoria.heapTotal),
+      externa: aMegabytes(memoria.external),
+    },
+    mongo: {
+      estado: mongoose.ConnectionStates[mongoose.connection.readyState],
+      base: mongoose.connection.name,
+      pool: obtenerEstadisticasPool(),
+    },
+    dependencias,
+    verificacion: {
+      proveedorSMS: getProveedorSMS().nombre,
+      codigosPendientes,
+      telefonosBloqueados,
+    },
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * servicios.controlador.ts
+ *
+ * Controlador para el CRUD de servicios publicados por los prestadores:
+ * - Crear
+ * - Buscar (texto, filtros, facetas y paginación por cursor) / listar los míos
+ * - Obtener por ID
+ * - Actualizar
+ * - Eliminar
+ */
+
+import { Response } from 'express';
+import { isValidObjectId, Types } from 'mongoose';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorNoEncontrado, ErrorProhibido, ErrorValidacion } from '../utilidades/errores';
+import { puedeGestionarServicio, tienePermiso } from '../utilidades/permisos';
+import { Servicio } from '../modelos/servicio.modelo';
+import { IServicio, RequestConUsuario } from '../tipos';
+import { BusquedaServicios, CercanosQuery } from '../validaciones/servicios.validacion';
+
+/**
+ * Criterio de orden de la búsqueda (relevancia, recientes o mas-clicks).
+ */
+type OrdenBusqueda = NonNullable<BusquedaServicios['orden']>;
+
+/**
+ * Para cada orden: campo por el que se ordena (siempre descendente, desempatando por _id)
+ * y cómo reconstruir su valor a partir del cursor (que viaja como JSON).
+ */
+const ORDEN_CURSOR: Record<OrdenBusqueda, { campo: string; convertir: (valor: unknown) => unknown }> = {
+  relevancia: { campo: 'puntaje', convertir: Number },
+  recientes: { campo: 'creadoEn', convertir: (valor) => new Date(valor as string) },
+  'mas-clicks': { campo: 'contadores.total', convertir: Number },
+};
+
+/**
+ * Contenido de un cursor de paginación: el valor del campo de orden y el _id
+ * del último resultado entregado, más el orden con el que se generó.
+ */
+interface PosicionCursor {
+  orden: OrdenBusqueda;
+  valor: unknown;
+  id: string;
+}
+
+/**
+ * Genera el cursor opaco (base64url) que apunta al último resultado de la página.
+ */
+const codificarCursor = (ultimo: IServicio & { puntaje?: number }, orden: OrdenBusqueda): string => {
+  const valores: Record<OrdenBusqueda, unknown> = {
+    relevancia: ultimo.puntaje,
+    recientes: ultimo.creadoEn,
+    'mas-clicks': ultimo.contadores?.total ?? 0,
+  };
+  const posicion: PosicionCursor = { orden, valor: valores[orden], id: ultimo._id.toString() };
+  return Buffer.from(JSON.stringify(posicion)).toString('base64url');
+};
+
+/**
+ * Decodifica un cursor recibido. Devuelve null si está mal formado
+ * o si fue generado con un orden distinto al de la búsqueda actual.
+ */
+const decodificarCursor = (cursor: string, orden: OrdenBusqueda): PosicionCursor | null => {
+  try {
+    const posicion = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as PosicionCursor;
+    if (posicion.orden !== orden || !isValidObjectId(posicion.id) || posicion.valor === undefined) {
+      return null;
+    }
+    return posicion;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Campos que el prestador puede definir o modificar en un servicio.
+ * Cualquier otro campo del body (ej: usuarioId) se ignora.
+ */
+const CAMPOS_EDITABLES = [
+  'titulo',
+  'descripcion',
+  'categoria',
+  'zona',
+  'precioMinimo',
+  'precioMaximo',
+  'telefonoContacto',
+  'whatsapp',
+  'ubicacion',
+  'radioCoberturaKm',
+  'activo',
+] as const;
+
+/**
+ * Campos cuya modificación obliga a revisar de nuevo un servicio ya aprobado:
+ * son los que un prestador podría usar para colar contenido no moderado.
+ */
+const CAMPOS_SENSIBLES = ['titulo', 'descripcion', 'categoria', 'telefonoContacto', 'whatsapp'] as const;
+
+/**
+ * Extrae del body solo los campos editables que vinieron definidos.
+ */
+const extraerCamposEditables = (body: Record<string, unknown>) => {
+  const datos: Record<string, unknown> = {};
+  for (const campo of CAMPOS_EDITABLES) {
+    if (body[campo] !== undefined) {
+      datos[campo] = body[campo];
+    }
+  }
+  return datos;
+};
+
+/**
+ * POST /api/servicios
+ *
+ * - Crea un servicio cuyo dueño es el usuario autenticado.
+ * - Devuelve el servicio creado con status 201.
+ */
+export const crearServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const servicio = await Servicio.create({
+    ...extraerCamposEditables(req.body),
+    usuarioId: req.usuario!._id,
+  });
+
+  logger.info(`Servicio ${servicio._id} creado por el usuario ${req.usuario!._id}`);
+
+  return enviarRespuestaExitosa(res, 'Servicio creado correctamente', servicio, 201);
+});
+
+/**
+ * GET /api/servicios
+ *
+ * Búsqueda avanzada de servicios:
+ * - Texto libre (q) sobre el índice de texto de título y descripción.
+ * - Filtros por categoría, zona, rango de precio y estado activo
+ *   (los servicios sin precio cargado se incluyen en cualquier rango).
+ * - Orden por relevancia, recientes o más clickeados.
+ * - Paginación por cursor (estable aunque se publiquen servicios nuevos mientras se navega).
+ * - Facetas: cantidad de resultados por categoría y por zona para armar los filtros del frontend.
+ *
+ * Las facetas son "disyuntivas": el conteo por categoría ignora el filtro de categoría
+ * (y el de zona ignora el de zona), así el usuario ve cuántos resultados tendría al cambiarlo.
+ */
+export const buscarServicios = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // La query ya viene validada y normalizada por busquedaServiciosSchema
+  const { q, categoria, zona, precioMin, precioMax, soloActivos, limite, cursor, ...query } =
+    req.query as unknown as BusquedaServicios;
+
+  // Sin texto de búsqueda no hay puntaje de relevancia: se ordena por recientes
+  const orden: OrdenBusqueda = query.orden ?? (q ? 'relevancia' : 'recientes');
+  const { campo, convertir } = ORDEN_CURSOR[orden];
+
+  let posicion: PosicionCursor | null = null;
+  if (cursor) {
+    posicion = decodificarCursor(cursor, orden);
+    if (!posicion) {
+      throw new ErrorValidacion('El cursor de paginación es inválido', 'CURSOR_INVALIDO');
+    }
+  }
+
+  // Filtros comunes a resultados y facetas.
+  // Solo se muestran servicios aprobados, y solo quien gestiona todos los servicios puede incluir los pausados.
+  const filtroBase: Record<string, unknown> = { estadoModeracion: 'aprobado' };
+  if (q) filtroBase.$text = { $search: q };
+  if (soloActivos || !tienePermiso(req, 'servicios:gestionar-todos')) filtroBase.activo = true;
+  // Rango de precio: el rango del servicio debe superponerse con el buscado.
+  // Un extremo sin cargar queda abierto (null también cubre el campo ausente): los servicios
+  // que se presupuestan a medida no desaparecen al filtrar por precio.
+  const filtrosPrecio: Record<string, unknown>[] = [];
+  if (precioMin !== undefined) {
+    filtrosPrecio.push({ $or: [{ precioMaximo: { $gte: precioMin } }, { precioMaximo: null }] });
+  }
+  if (precioMax !== undefined) {
+    filtrosPrecio.push({ $or: [{ precioMinimo: { $lte: precioMax } }, { precioMinimo: null }] });
+  }
+  if (filtrosPrecio.length > 0) filtroBase.$and = filtrosPrecio;
+
+  const filtroCategoria = categoria ? { categoria } : {};
+  const filtroZona = zona ? { zona } : {};
+
+  const [resultado] = await Servicio.aggregate<{
+    resultados: (IServicio & { puntaje?: number })[];
+    categorias: { _id: string; cantidad: number }[];
+    zonas: { _id: string; cantidad: number }[];
+  }>([
+    // $text solo puede usarse en el primer $match del pipeline
+    { $match: filtroBase },
+    ...(q ? [{ $addFields: { puntaje: { $meta: 'textScore' } } }] : []),
+    {
+      $facet: {
+        resultados: [
+          { $match: { ...filtroCategoria, ...filtroZona } },
+          ...(posicion
+            ? [
+                {
+                  $match: {
+                    $or: [
+                      { [campo]: { $lt: convertir(posicion.valor) } },
+                      { [campo]: convertir(posicion.valor), _id: { $lt: new Types.ObjectId(posicion.id) } },
+                    ],
+                  },
+                },
+              ]
+            : []),
+          { $sort: { [campo]: -1, _id: -1 } },
+          // Pedimos uno más del límite para saber si hay otra página
+          { $limit: limite + 1 },
+        ],
+        categorias: [
+          { $match: filtroZona },
+          { $group: { _id: '$categoria', cantidad: { $sum: 1 } } },
+          { $sort: { cantidad: -1, _id: 1 } },
+        ],
+        zonas: [
+          { $match: filtroCategoria },
+          { $group: { _id: '$zona', cantidad: { $sum: 1 } } },
+          { $sort: { cantidad: -1, _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  const hayMas = resultado.resultados.length > limite;
+  const resultados = resultado.resultados.slice(0, limite);
+  const ultimo = resultados[resultados.length - 1];
+
+  return enviarRespuestaExitosa(res, 'Servicios obtenidos correctamente', {
+    resultados,
+    paginacion: {
+      orden,
+      limite,
+      hayMas,
+      siguienteCursor: hayMas && ultimo ? codificarCursor(ultimo, orden) : null,
+    },
+    facetas: {
+      categorias: resultado.categorias.map(({ _id, cantidad }) => ({ valor: _id, cantidad })),
+      zonas: resultado.zonas.map(({ _id, cantidad }) => ({ valor: _id, cantidad })),
+    },
+  });
+});
+
+/**
+ * GET /api/servicios/cercanos
+ *
+ * Búsqueda "cerca mío":
+ * - Usa $geoNear sobre el índice 2dsphere, que devuelve los servicios ordenados por distancia.
+ * - radioKm limita qué tan lejos busca el usuario.
+ * - Además, solo se incluyen los servicios cuyo radio de cobertura llega hasta el usuario
+ *   (un prestador a 8 km con cobertura de 5 km no aparece).
+ */
+export const buscarServiciosCercanos = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // La query ya viene validada y normalizada por cercanosQuerySchema
+  const { lat, lng, radioKm, categoria, limite } = req.query as unknown as CercanosQuery;
+
+  const servicios = await Servicio.aggregate([
+    // $geoNear debe ser la primera etapa del pipeline
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: [lng, lat] },
+        key: 'ubicacion',
+        distanceField: 'distanciaMetros',
+        maxDistance: radioKm * 1000,
+        spherical: true,
+        query: { activo: true, estadoModeracion: 'aprobado', ...(categoria ? { categoria } : {}) },
+      },
+    },
+    // El usuario tiene que estar dentro del radio de cobertura del prestador
+    { $match: { $expr: { $lte: ['$distanciaMetros', { $multiply: ['$radioCoberturaKm', 1000] }] } } },
+    { $limit: limite },
+    { $addFields: { distanciaKm: { $round: [{ $divide: ['$distanciaMetros', 1000] }, 2] } } },
+    { $project: { distanciaMetros: 0 } },
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Servicios cercanos obtenidos correctamente', servicios);
+});
+
+/**
+ * GET /api/servicios/mios
+ *
+ * - Lista todos los servicios del usuario autenticado (activos e inactivos).
+ */
+export const listarMisServicios = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const servicios = await Servicio.find({ usuarioId: req.usuario!._id }).sort({ creadoEn: -1 });
+
+  return enviarRespuestaExitosa(res, 'Servicios obtenidos correctamente', servicios);
+});
+
+/**
+ * GET /api/servicios/:id
+ *
+ * - Devuelve un servicio por ID.
+ * - Los servicios inactivos o no aprobados solo los ve su dueño o quien gestiona todos los servicios.
+ */
+export const obtenerServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { id } = req.params;
+
+  if (!isValidObjectId(id)) {
+    throw new ErrorValidacion('ID de servicio inválido', 'ID_INVALIDO');
+  }
+
+  const servicio = await Servicio.findById(id);
+
+  const esPublico = servicio?.activo && servicio.estadoModeracion === 'aprobado';
+
+  if (!servicio || (!esPublico && !puedeGestionarServicio(req, servicio))) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  return enviarRespuestaExitosa(res, 'Servicio obtenido correctamente', servicio);
+});
+
+/**
+ * PATCH /api/servicios/:id
+ *
+ * - Actualiza los campos enviados.
+ * - Solo el dueño del servicio o quien gestiona todos los servicios (servicios:gestionar-todos).
+ * - Si el dueño cambia campos sensibles de un servicio aprobado, o corrige uno rechazado,
+ *   el servicio vuelve a quedar pendiente de revisión (las ediciones de un moderador no).
+ */
+export const actualizarServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { id } = req.params;
+
+  if (!isValidObjectId(id)) {
+    throw new ErrorValidacion('ID de servicio inválido', 'ID_INVALIDO');
+  }
+
+  const servicio = await Servicio.findById(id);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  if (!puedeGestionarServicio(req, servicio)) {
+    throw new ErrorProhibido('No tenés permiso para modificar este servicio', 'ACCESO_NO_AUTORIZADO');
+  }
+
+  servicio.set(extraerCamposEditables(req.body));
+
+  if (!tienePermiso(req, 'servicios:moderar')) {
+    const cambioSensible = CAMPOS_SENSIBLES.some((campo) => servicio.isModified(campo));
+
+    if (servicio.estadoModeracion === 'rechazado' || (servicio.estadoModeracion === 'aprobado' && cambioSensible)) {
+      servicio.estadoModeracion = 'pendiente';
+      servicio.historialModeracion.push({
+        estado: 'pendiente',
+        fecha: new Date(),
+        motivo: 'Reenviado a revisión por edición del dueño',
+      });
+    }
+  }
+
+  await servicio.save();
+
+  return enviarRespuestaExitosa(res, 'Servicio actualizado correctamente', servicio);
+});
+
+/**
+ * DELETE /api/servicios/:id
+ *
+ * - Elimina el servicio.
+ * - Solo el dueño del servicio o quien gestiona todos los servicios (servicios:gestionar-todos).
+ */
+export const eliminarServicio = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { id } = req.params;
+
+  if (!isValidObjectId(id)) {
+    throw new ErrorValidacion('ID de servicio inválido', 'ID_INVALIDO');
+  }
+
+  const servicio = await Servicio.findById(id);
+
+  if (!servicio) {
+    throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+  }
+
+  if (!puedeGestionarServicio(req, servicio)) {
+    throw new ErrorProhibido('No tenés permiso para eliminar este servicio', 'ACCESO_NO_AUTORIZADO');
+  }
+
+  await Servicio.deleteOne({ _id: servicio._id });
+
+  logger.info(`Servicio ${servicio._id} eliminado por el usuario ${req.usuario!._id}`);
+
+  return enviarRespuestaExitosa(res, 'Servicio eliminado correctamente', null);
+});
@@ -0,0 +1,145 @@
+/**
+ * sesiones.controlador.ts
+ *
+ * Controlador de las sesiones del usuario autenticado:
+ * - Listar sesiones activas (una por dispositivo)
+ * - Cerrar una sesión
+ * - Cerrar todas las sesiones excepto la actual
+ * - Logout (cerrar la sesión actual y revocar su token de acceso)
+ *
+ * Una sesión es un refresh token vigente (ver utilidades/sesiones.ts).
+ * Cerrarla impide renovar el token de acceso desde ese dispositivo, y autenticarJWT
+ * rechaza desde ese momento los tokens de acceso que emitió.
+ * Cada cierre queda en el registro de auditoría.
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorNoEncontrado, ErrorValidacion } from '../utilidades/errores';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { getListaRevocacion } from '../config/revocacion';
+import { hashearRefreshToken } from '../utilidades/generarToken';
+import { registrarAuditoria } from '../utilidades/auditoria';
+import { RequestConUsuario } from '../tipos';
+
+/**
+ * Campos de la sesión que se muestran al usuario (nunca el token).
+ */
+const CAMPOS_SESION = 'dispositivo userAgent ip creadoEn ultimoUso';
+
+/**
+ * GET /api/autenticacion/sesiones
+ *
+ * - Lista las sesiones activas del usuario, la usada más recientemente primero.
+ * - Marca con actual: true la sesión desde la que se hace la consulta.
+ */
+export const listarSesiones = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const sesiones = await RefreshToken.find({ usuarioId: req.usuario!._id })
+    .select(CAMPOS_SESION)
+    .sort({ ultimoUso: -1 })
+    .lean();
+
+  return enviarRespuestaExitosa(
+    res,
+    'Sesiones obtenidas correctamente',
+    sesiones.map(({ _id, ...sesion }) => ({
+      id: _id,
+      ...sesion,
+      actual: _id.toString() === req.sesionId,
+    })),
+  );
+});
+
+/**
+ * DELETE /api/autenticacion/sesiones/:id
+ *
+ * - Cierra una sesión propia (ej: un dispositivo perdido).
+ * - Si es la sesión actual, equivale a cerrar sesión en este dispositivo.
+ */
+export const cerrarSesion = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // Filtrar también por usuario: nadie puede cerrar sesiones ajenas adivinando IDs
+  const { deletedCount } = await RefreshToken.deleteOne({ _id: req.params.id, usuarioId: req.usuario!._id });
+
+  if (deletedCount === 0) {
+    throw new ErrorNoEncontrado('Sesión no encontrada', 'SESION_NO_ENCONTRADA');
+  }
+
+  await registrarAuditoria(req, { accion: 'sesion.cerrada', objetivoTipo: 'sesion', objetivoId: req.params.id });
+
+  logger.info(`Usuario ${req.usuario!._id} cerró la sesión ${req.params.id}`);
+
+  return enviarRespuestaExitosa(res, 'Sesión cerrada correctamente', null);
+});
+
+/**
+ * POST /api/autenticacion/sesiones/cerrar-otras
+ *
+ * - Cierra todas las sesiones del usuario excepto la actual ("cerrar sesión en todos los demás dispositivos").
+ * - Requiere un token de acceso emitido por una sesión (con sesionId).
+ */
+export const cerrarOtrasSesiones = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  if (!req.sesionId) {
+    throw new ErrorValidacion(
+      'No se pudo identificar la sesión actual. Inicia sesión nuevamente.',
+      'SESION_ACTUAL_DESCONOCIDA',
+    );
+  }
+
+  const { deletedCount } = await RefreshToken.deleteMany({
+    usuarioId: req.usuario!._id,
+    _id: { $ne: req.sesionId },
+  });
+
+  await registrarAuditoria(req, {
+    accion: 'sesion.otras_cerradas',
+    objetivoTipo: 'usuario',
+    objetivoId: req.usuario!._id,
+    metadatos: { sesionActual: req.sesionId, sesionesCerradas: deletedCount },
+  });
+
+  logger.info(`Usuario ${req.usuario!._id} cerró ${deletedCount} sesiones en otros dispositivos`);
+
+  return enviarRespuestaExitosa(res, 'Sesiones cerradas correctamente', { sesionesCerradas: deletedCount });
+});
+
+/**
+ * POST /api/autenticacion/logout
+ *
+ * - Elimina el refresh token de la sesión: el indicado en el body o, si no viene,
+ *   el de la sesión que emitió el token de acceso.
+ * - Revoca el token de acceso (su jti) hasta que expire, para que no pueda seguir usándose.
+ */
+export const logout = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const { refreshToken } = req.body ?? {};
+  let sesionesEliminadas = 0;
+
+  // Sin refresh token ni sesión en el token no hay nada que borrar (el filtro nunca debe quedar vacío)
+  if (refreshToken || req.sesionId) {
+    const filtro = refreshToken ? { tokenHash: hashearRefreshToken(refreshToken) } : { _id: req.sesionId };
+
+    // Filtrar también por usuario: un refresh token ajeno no se puede cerrar desde esta cuenta
+    const { deletedCount } = await RefreshToken.deleteOne({ ...filtro, usuarioId: req.usuario!._id });
+    sesionesEliminadas = deletedCount;
+  }
+
+  const { jti, exp } = req.tokenAcceso!;
+
+  if (exp) {
+    await getListaRevocacion().revocar(jti, new Date(exp * 1000));
+  }
+
+  await registrarAuditoria(req, {
+    accion: 'sesion.logout',
+    objetivoTipo: 'sesion',
+    objetivoId: req.sesionId,
+    metadatos: { sesionesEliminadas, tokenRevocado: jti },
+  });
+
+  logger.info(
+    `Usuario ${req.usuario!._id} cerró sesión (${sesionesEliminadas} sesiones eliminadas, token ${jti} revocado)`,
+  );
+
+  return enviarRespuestaExitosa(res, 'Sesión cerrada correctamente', null);
+});
@@ -0,0 +1,69 @@
+/**
+ * sms.controlador.ts
+ *
+ * Controlador de los límites de envío de SMS (panel de administración):
+ * - Ver la configuración y los contadores del día
+ * - Ajustar los límites
+ *
+ * Los cambios de límites quedan en el registro de auditoría.
+ * Todas las funciones asumen que autenticarJWT y requierePermiso ya se ejecutaron.
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { calcularCambios, registrarAuditoria } from '../utilidades/auditoria';
+import { obtenerConfiguracionSMS } from '../utilidades/limitesSMS';
+import { ConfiguracionSMS } from '../modelos/configuracionSMS.modelo';
+import { ContadorSMSPrefijo } from '../modelos/contadorSMS.modelo';
+import { RequestConUsuario } from '../tipos';
+
+/**
+ * GET /api/admin/sms/limites
+ *
+ * - Devuelve los límites vigentes.
+ * - Devuelve, por prefijo, los SMS enviados y bloqueados del día pedido (hoy por defecto).
+ */
+export const obtenerLimitesSMS = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const fecha = (req.query.fecha as string | undefined) ?? new Date().toISOString().slice(0, 10);
+
+  const [configuracion, contadores] = await Promise.all([
+    obtenerConfiguracionSMS(),
+    ContadorSMSPrefijo.find({ fecha }).select('prefijo enviados bloqueados -_id').sort({ enviados: -1 }).lean(),
+  ]);
+
+  return enviarRespuestaExitosa(res, 'Límites de SMS obtenidos correctamente', {
+    configuracion,
+    fecha,
+    contadores,
+  });
+});
+
+/**
+ * PATCH /api/admin/sms/limites
+ *
+ * - Actualiza los límites indicados; el resto queda igual.
+ * - Rige desde el próximo envío, en todas las instancias.
+ */
+export const actualizarLimitesSMS = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  // Garantiza que el documento exista antes de actualizarlo (y lo conserva para la auditoría)
+  const anterior = await obtenerConfiguracionSMS();
+
+  const configuracion = await ConfiguracionSMS.findOneAndUpdate(
+    { clave: 'global' },
+    { ...req.body, actualizadoPor: req.usuario!._id },
+    { new: true, runValidators: true },
+  ).orFail();
+
+  await registrarAuditoria(req, {
+    accion: 'sms.limites_actualizados',
+    objetivoTipo: 'configuracion_sms',
+    objetivoId: configuracion.clave,
+    cambios: calcularCambios(anterior, configuracion, Object.keys(req.body)),
+  });
+
+  logger.info(`Admin ${req.usuario!._id} actualizó los límites de SMS: ${JSON.stringify(req.body)}`);
+
+  return enviarRespuestaExitosa(res, 'Límites de SMS actualizados correctamente', configuracion);
+});
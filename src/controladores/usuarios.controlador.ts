@@ -0,0 +1,113 @@
+/**
+ * usuarios.controlador.ts
+ *
+ * Controlador para el perfil del usuario autenticado:
+ * - Ver mi perfil
+ * - Editar mi perfil
+ * - Eliminar mi cuenta (con borrado en cascada)
+ */
+
+import { Response } from 'express';
+import { logger } from '../config/logger';
+import { enviarRespuestaExitosa } from '../utilidades/respuestaEstandarizada';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorConflicto } from '../utilidades/errores';
+import { Usuario } from '../modelos/usuario.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { RefreshTokenRotado } from '../modelos/refreshTokenRotado.modelo';
+import { SegundoFactor } from '../modelos/segundoFactor.modelo';
+import { Servicio } from '../modelos/servicio.modelo';
+import { Click } from '../modelos/click.modelo';
+import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
+import { IUsuario, RequestConUsuario } from '../tipos';
+
+/**
+ * Campos del perfil que el usuario puede modificar.
+ */
+const CAMPOS_PERFIL = ['nombre', 'avatarUrl', 'email', 'zonaPreferida', 'esPrestador'] as const;
+
+/**
+ * Arma la vista pública del perfil (nunca devolvemos el documento crudo).
+ */
+const formatearPerfil = (usuario: IUsuario) => ({
+  id: usuario._id,
+  telefono: usuario.telefono,
+  nombre: usuario.nombre ?? null,
+  avatarUrl: usuario.avatarUrl ?? null,
+  email: usuario.email ?? null,
+  zonaPreferida: usuario.zonaPreferida ?? null,
+  esPrestador: usuario.esPrestador,
+  rol: usuario.rol,
+  estaVerificado: usuario.estaVerificado,
+  creadoEn: usuario.creadoEn,
+});
+
+/**
+ * GET /api/usuarios/yo
+ *
+ * - Devuelve el perfil del usuario autenticado.
+ */
+export const obtenerMiPerfil = (req: RequestConUsuario, res: Response) => {
+  return enviarRespuestaExitosa(res, 'Perfil obtenido correctamente', formatearPerfil(req.usuario!));
+};
+
+/**
+ * PATCH /api/usuarios/yo
+ *
+ * - Actualiza los campos enviados del perfil.
+ * - Un campo en null se elimina del perfil.
+ * - Si el email ya lo usa otra cuenta, responde 409.
+ */
+export const actualizarMiPerfil = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = req.usuario!;
+
+  for (const campo of CAMPOS_PERFIL) {
+    if (req.body[campo] !== undefined) {
+      // null → undefined: Mongoose elimina el campo (clave para el índice sparse de email)
+      usuario.set(campo, req.body[campo] ?? undefined);
+    }
+  }
+
+  try {
+    await usuario.save();
+  } catch (error) {
+    // El único índice único editable desde el perfil es el email: se responde con un código específico
+    if ((error as { code?: number }).code === 11000) {
+      throw new ErrorConflicto('El email ya está en uso por otra cuenta', 'EMAIL_EN_USO', { cause: error });
+    }
+    throw error;
+  }
+
+  return enviarRespuestaExitosa(res, 'Perfil actualizado correctamente', formatearPerfil(usuario));
+});
+
+/**
+ * DELETE /api/usuarios/yo
+ *
+ * Elimina la cuenta del usuario autenticado en cascada:
+ * 1. Revoca todas sus sesiones (refresh tokens y registro de tokens rotados). Va primero:
+ *    aunque falle algo después, nadie puede seguir renovando tokens de esta cuenta.
+ * 2. Elimina sus servicios y los clicks asociados a ellos.
+ * 3. Anonimiza los clicks que hizo como visitante (se conservan para las métricas de otros prestadores).
+ * 4. Elimina códigos de verificación pendientes, el segundo factor y, por último, el usuario.
+ */
+export const eliminarMiCuenta = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+  const usuario = req.usuario!;
+
+  await RefreshToken.deleteMany({ usuarioId: usuario._id });
+  await RefreshTokenRotado.deleteMany({ usuarioId: usuario._id });
+
+  const servicioIds = await Servicio.find({ usuarioId: usuario._id }).distinct('_id');
+  await Click.deleteMany({ servicioId: { $in: servicioIds } });
+  await Servicio.deleteMany({ _id: { $in: servicioIds } });
+
+  await Click.updateMany({ usuarioId: usuario._id }, { $unset: { usuarioId: 1 } });
+
+  await CodigoVerificacion.deleteMany({ telefono: usuario.telefono });
+  await SegundoFactor.deleteOne({ usuarioId: usuario._id });
+  await Usuario.deleteOne({ _id: usuario._id });
+
+  logger.info(`Cuenta ${usuario._id} eliminada (${servicioIds.length} servicios borrados)`);
+
+  return enviarRespuestaExitosa(res, 'Cuenta eliminada correctamente', null);
+});
@@ -12,8 +12,8 @@
  */
 
 import dotenv from 'dotenv';
-import mongoose from 'mongoose';
 import app from './app';
+import { connectDB } from './config/db';
 import { logger } from './config/logger'; // Futuro archivo con Winston configurado
 
 /**
@@ -29,32 +29,24 @@ dotenv.config();
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
 /**
- * Conexión a MongoDB.
+ * Conexión a MongoDB (ver config/db.ts).
  *
  * Importante:
  * - Mantenemos la conexión antes de arrancar el servidor.
- * - En caso de error, salimos con código distinto de cero (process.exit).
+ * - En caso de error, connectDB sale con código distinto de cero (process.exit).
  */
-mongoose
-  .connect(process.env.MONGODB_URI as string)
-  .then(() => {
-    logger.info('Conexión a MongoDB exitosa.');
-
-    // Una vez conectados, arrancamos el servidor HTTP.
-    app.listen(PORT, () => {
-      logger.info(`SERVIPRO backend corriendo en http://localhost:${PORT}`);
-    });
-  })
-  .catch((error) => {
-    logger.error('Error conectando a MongoDB:', error);
-    process.exit(1); // Salimos con error si falla la base de datos
+connectDB().then(() => {
+  // Una vez conectados, arrancamos el servidor HTTP.
+  app.listen(PORT, () => {
+    logger.info(`SERVIPRO backend corriendo en http://localhost:${PORT}`);
   });
+});
 
 /**
  * Captura errores no manejados en promesas.
  * Esto evita que el proceso quede en estado inconsistente.
  */
-process.on('unhandledRejection', (reason: any) => {
+process.on('unhandledRejection', (reason: unknown) => {
   logger.error('Unhandled Rejection detectado:', reason);
   process.exit(1);
 });
@@ -0,0 +1,20 @@
+/**
+ * accesoMaestro.middleware.ts
+ *
+ * Deshabilita por completo el acceso maestro cuando ACCESO_MAESTRO_HABILITADO no es true.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../config/variables';
+
+/**
+ * Si el acceso maestro está deshabilitado, la request sigue de largo como si
+ * la ruta no existiera (termina en el 404 general): no se revela que el endpoint existe.
+ */
+export const accesoMaestroHabilitado = (_req: Request, _res: Response, next: NextFunction) => {
+  if (!env.ACCESO_MAESTRO_HABILITADO) {
+    return next('route');
+  }
+
+  next();
+};
@@ -6,60 +6,129 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { enviarRespuestaError } from '../utilidades/respuestaEstandarizada';
-import { Usuario } from '../modelos/usuario.modelo';
-import { env } from '../config/variables';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { asignarUsuarioContexto } from '../utilidades/contextoRequest';
+import { ErrorNoAutorizado, ErrorProhibido } from '../utilidades/errores';
+import { Usuario, IUsuario } from '../modelos/usuario.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { getListaRevocacion } from '../config/revocacion';
+import { PayloadJWT, verificarJWT } from '../utilidades/generarToken';
 /**
  * Extendemos el tipo Request para que Express sepa que
  * vamos a inyectar una propiedad "usuario" en el objeto request.
+ *
+ * Se exporta para que los controladores de rutas protegidas
+ * puedan tipar req.usuario sin recurrir a any.
  */
-interface RequestConUsuario extends Request {
-  usuario?: any; // opcional al inicio, se agrega si el token es válido
+export interface RequestConUsuario extends Request {
+  usuario?: IUsuario; // opcional al inicio, se agrega si el token es válido
+  sesionId?: string; // sesión que emitió el token (si el token la informa)
+  tokenAcceso?: PayloadJWT; // payload del token verificado (jti y vencimiento, usados en el logout)
 }
 
+/**
+ * Indica si la sesión que emitió el token sigue abierta (su refresh token existe).
+ * Los tokens sin sesión (ej: los de pruebas o integraciones) no dependen de una.
+ */
+const sesionSigueAbierta = async (payload: PayloadJWT): Promise<boolean> =>
+  !payload.sesionId || (await RefreshToken.exists({ _id: payload.sesionId, usuarioId: payload.usuarioId })) !== null;
+
 /**
  * Middleware principal.
  *
  * - Extrae el token del header Authorization.
  * - Lo verifica con la clave secreta.
+ * - Comprueba que no haya sido revocado (logout) ni invalidado por versión.
+ * - Si el token viene de una sesión, comprueba que la sesión siga abierta:
+ *   cerrar una sesión corta al instante sus tokens de acceso, sin esperar a que venzan.
  * - Si es válido, busca al usuario en la base de datos.
  * - Inyecta el usuario en req.usuario.
- * - Si falla algo, responde con 401 (no autorizado).
+ * - Si falla algo, lanza un ErrorNoAutorizado (401); los errores de jsonwebtoken
+ *   (token mal formado, firma inválida, vencido) los traduce el manejador global de errores.
  */
-export const autenticarJWT = async (
-  req: RequestConUsuario,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    // Obtenemos el header Authorization: Bearer <token>
-    const authHeader = req.headers.authorization;
+export const autenticarJWT = manejarAsync(async (req: RequestConUsuario, _res: Response, next: NextFunction) => {
+  // Obtenemos el header Authorization: Bearer <token>
+  const authHeader = req.headers.authorization;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return enviarRespuestaError(res, 'Token no proporcionado', 'TOKEN_FALTANTE', undefined, 401);
-    }
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new ErrorNoAutorizado('Token no proporcionado', 'TOKEN_FALTANTE');
+  }
 
-    // Extraemos solo el token (sacamos "Bearer ")
-    const token = authHeader.split(' ')[1];
+  // Extraemos solo el token (sacamos "Bearer ")
+  const token = authHeader.split(' ')[1];
 
-    // Verificamos el token con la clave secreta
-    const payload = jwt.verify(token, env.JWT_SECRET) as { usuarioId: string };
+  // Verificamos el token con la clave secreta
+  const payload = verificarJWT(token);
 
-    // Buscamos al usuario autenticado en la base de datos
-    const usuario = await Usuario.findById(payload.usuarioId);
+  // Un token revocado en un logout no sirve aunque la firma y el vencimiento sean válidos
+  if (await getListaRevocacion().estaRevocado(payload.jti)) {
+    throw new ErrorNoAutorizado('El token fue revocado', 'TOKEN_REVOCADO');
+  }
 
-    if (!usuario) {
-      return enviarRespuestaError(res, 'Usuario no encontrado', 'USUARIO_INVALIDO', undefined, 401);
-    }
+  // Buscamos al usuario autenticado y, si el token la informa, su sesión
+  const [usuario, sesionAbierta] = await Promise.all([
+    Usuario.findById(payload.usuarioId),
+    sesionSigueAbierta(payload),
+  ]);
+
+  if (!usuario) {
+    throw new ErrorNoAutorizado('Usuario no encontrado', 'USUARIO_INVALIDO');
+  }
+
+  // La sesión se cerró (desde otro dispositivo, por reutilización del refresh token, etc.)
+  if (!sesionAbierta) {
+    throw new ErrorNoAutorizado('La sesión fue cerrada', 'SESION_CERRADA');
+  }
+
+  // Una cuenta suspendida no puede seguir usando tokens emitidos antes de la suspensión
+  if (usuario.suspendido) {
+    throw new ErrorProhibido('Tu cuenta está suspendida', 'USUARIO_SUSPENDIDO');
+  }
+
+  // Los tokens emitidos antes de incrementar versionToken (ej: cierre forzado de sesiones) quedan invalidados
+  if (payload.version !== usuario.versionToken) {
+    throw new ErrorNoAutorizado('El token fue revocado', 'TOKEN_REVOCADO');
+  }
+
+  // Inyectamos el usuario (y la sesión de la que proviene el token) en la request,
+  // y lo registramos en el contexto para que aparezca en los logs
+  req.usuario = usuario;
+  req.sesionId = payload.sesionId;
+  req.tokenAcceso = payload;
+  asignarUsuarioContexto(usuario._id.toString());
+
+  // Continuamos hacia la ruta protegida
+  next();
+});
+
+/**
+ * Middleware de autenticación opcional.
+ *
+ * Pensado para endpoints públicos que aprovechan la sesión si existe
+ * (ej: registrar un click). Nunca corta la request:
+ * - Sin header Authorization → continúa como anónimo.
+ * - Token inválido, revocado, de una sesión cerrada, usuario inexistente o suspendido → continúa como anónimo.
+ * - Token válido → inyecta el usuario en req.usuario.
+ */
+export const autenticarJWTOpcional = async (req: RequestConUsuario, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
 
-    // Inyectamos el usuario en la request
-    req.usuario = usuario;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next();
+  }
 
-    // Continuamos hacia la ruta protegida
-    next();
-  } catch (error: any) {
-    console.error('Error en middleware de autenticación:', error);
-    return enviarRespuestaError(res, 'Token inválido o expirado', 'TOKEN_INVALIDO', undefined, 401);
+  try {
+    const payload = verificarJWT(authHeader.split(' ')[1]);
+    const revocado = await getListaRevocacion().estaRevocado(payload.jti);
+    const usuario = revocado || !(await sesionSigueAbierta(payload)) ? null : await Usuario.findById(payload.usuarioId);
+
+    if (usuario && !usuario.suspendido && payload.version === usuario.versionToken) {
+      req.usuario = usuario;
+      asignarUsuarioContexto(usuario._id.toString());
+    }
+  } catch {
+    // Un token inválido en un endpoint público no es un error: se sigue como anónimo
   }
+
+  next();
 };
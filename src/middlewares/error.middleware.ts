@@ -0,0 +1,138 @@
+/**
+ * error.middleware.ts
+ *
+ * Manejador global de errores. Es el único lugar que convierte un error en respuesta:
+ * - ErrorAplicacion (y sus subclases) → su status y su código.
+ * - Errores conocidos de librerías (Mongoose, MongoDB, jsonwebtoken, body parser)
+ *   → el ErrorAplicacion equivalente.
+ * - Cualquier otro error → 500 sin exponer el mensaje interno.
+ *
+ * Siempre responde con el formato estándar (enviarRespuestaError, que incluye el request id)
+ * y deja el error en el log: los 5xx como error (con stack), el resto como warning.
+ * El logger agrega a cada línea el request id y el usuario de la request en curso.
+ *
+ * Debe registrarse en app.ts después de todas las rutas y del middleware 404.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import { logger } from '../config/logger';
+import { enviarRespuestaError } from '../utilidades/respuestaEstandarizada';
+import {
+  ErrorAplicacion,
+  ErrorConflicto,
+  ErrorLimiteExcedido,
+  ErrorNoAutorizado,
+  ErrorValidacion,
+} from '../utilidades/errores';
+
+/**
+ * Error del driver de MongoDB por índice único violado.
+ */
+const CODIGO_CLAVE_DUPLICADA = 11000;
+
+/**
+ * Forma mínima de los errores que lanza el body parser de Express (JSON mal formado, body enorme).
+ */
+interface ErrorBodyParser {
+  type?: string;
+  status?: number;
+}
+
+/**
+ * normalizarError
+ *
+ * Traduce cualquier error a un ErrorAplicacion.
+ * Devuelve null si el error es inesperado (se responde como 500).
+ */
+const normalizarError = (error: unknown): ErrorAplicacion | null => {
+  if (error instanceof ErrorAplicacion) {
+    return error;
+  }
+
+  // Validaciones del esquema de Mongoose (required, enum, min, etc.)
+  if (error instanceof mongoose.Error.ValidationError) {
+    const errores = Object.values(error.errors).map(({ path, message }) => ({ campo: path, mensaje: message }));
+    return new ErrorValidacion('Error de validación en los datos enviados', 'VALIDACION_DATOS_INVALIDOS', {
+      errores,
+      cause: error,
+    });
+  }
+
+  // Un valor que no se pudo convertir al tipo del esquema (típicamente un ObjectId mal formado)
+  if (error instanceof mongoose.Error.CastError) {
+    const codigo = error.kind === 'ObjectId' ? 'ID_INVALIDO' : 'VALOR_INVALIDO';
+    return new ErrorValidacion(`Valor inválido para ${error.path}`, codigo, {
+      errores: [{ campo: error.path, mensaje: `Valor inválido para ${error.path}` }],
+      cause: error,
+    });
+  }
+
+  // Índice único violado: el mensaje nombra los campos, nunca los valores
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === CODIGO_CLAVE_DUPLICADA) {
+    const campos = Object.keys(error.keyValue ?? error.keyPattern ?? {});
+    return new ErrorConflicto('Ya existe un registro con esos datos', 'REGISTRO_DUPLICADO', {
+      errores: campos.map((campo) => ({ campo, mensaje: 'Ya está en uso' })),
+      cause: error,
+    });
+  }
+
+  // TokenExpiredError extiende JsonWebTokenError: va primero
+  if (error instanceof TokenExpiredError) {
+    return new ErrorNoAutorizado('El token expiró', 'TOKEN_EXPIRADO', { cause: error });
+  }
+
+  if (error instanceof JsonWebTokenError) {
+    return new ErrorNoAutorizado('Token inválido o expirado', 'TOKEN_INVALIDO', { cause: error });
+  }
+
+  // Errores del body parser (express.json / express.urlencoded)
+  const { type } = (error ?? {}) as ErrorBodyParser;
+
+  if (type === 'entity.parse.failed') {
+    return new ErrorValidacion('El cuerpo de la solicitud no es JSON válido', 'JSON_INVALIDO', { cause: error });
+  }
+
+  if (type === 'entity.too.large') {
+    return new ErrorAplicacion('El cuerpo de la solicitud es demasiado grande', 'CUERPO_DEMASIADO_GRANDE', 413, {
+      cause: error,
+    });
+  }
+
+  return null;
+};
+
+/**
+ * manejadorErrores
+ *
+ * Middleware de errores de Express (4 parámetros).
+ */
+export const manejadorErrores = (error: unknown, req: Request, res: Response, next: NextFunction) => {
+  // Si la respuesta ya empezó a enviarse, solo Express puede cortar la conexión
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const errorAplicacion = normalizarError(error);
+
+  if (!errorAplicacion) {
+    logger.error(`Error no controlado en ${req.method} ${req.originalUrl}:`, error);
+    return enviarRespuestaError(res, 'Error interno del servidor', 'ERROR_INTERNO', undefined, 500);
+  }
+
+  const { statusCode, codigo, message, errores, datos } = errorAplicacion;
+  const descripcion = `${req.method} ${req.originalUrl} → ${statusCode} ${codigo}`;
+
+  if (statusCode >= 500) {
+    logger.error(`${descripcion}:`, errorAplicacion.cause ?? errorAplicacion);
+  } else {
+    logger.warn(`${descripcion}: ${message}`);
+  }
+
+  if (errorAplicacion instanceof ErrorLimiteExcedido && errorAplicacion.reintentarEnSegundos !== undefined) {
+    res.set('Retry-After', String(errorAplicacion.reintentarEnSegundos));
+  }
+
+  return enviarRespuestaError(res, message, codigo, errores, statusCode, datos);
+};
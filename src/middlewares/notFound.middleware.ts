@@ -0,0 +1,19 @@
+/**
+ * notFound.middleware.ts
+ *
+ * Middleware para las rutas que no existen (404).
+ * Se registra en app.ts después de todas las rutas: si la request llegó hasta acá,
+ * ninguna la atendió. Delega la respuesta en el manejador global de errores.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ErrorNoEncontrado } from '../utilidades/errores';
+
+/**
+ * rutaNoEncontrada
+ *
+ * Genera un ErrorNoEncontrado con el método y la ruta pedida.
+ */
+export const rutaNoEncontrada = (req: Request, _res: Response, next: NextFunction) => {
+  next(new ErrorNoEncontrado(`Ruta no encontrada: ${req.method} ${req.path}`, 'RUTA_NO_ENCONTRADA'));
+};
@@ -0,0 +1,219 @@
+/**
+ * rateLimit.middleware.ts
+ *
+ * Middleware de rate limiting con políticas con nombre.
+ *
+ * Cada política define cuántas solicitudes se permiten en una ventana de tiempo
+ * y contra qué se cuentan:
+ * - 'ip': la IP del cliente
+ * - 'telefono': el teléfono del body (debe usarse después de validarRequest)
+ * - 'usuario': el usuario autenticado (debe usarse después de autenticarJWT u opcional)
+ *
+ * Si se supera el límite se responde 429 con el encabezado Retry-After
+ * y el formato estándar de error.
+ *
+ * Uso:
+ *   router.post('/registro', limitarTasa('registroPorIp'), validarRequest(registroSchema),
+ *     limitarTasa('registroPorTelefono'), registrarUsuario);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger, loggerSeguridad } from '../config/logger';
+import { ErrorLimiteExcedido } from '../utilidades/errores';
+import { AlmacenLimites } from '../proveedores/limites/almacenLimites';
+import { AlmacenLimitesCache } from '../proveedores/limites/cache.almacen';
+import { RequestConUsuario } from './auth.middleware';
+
+/**
+ * Contra qué se cuentan las solicitudes de una política.
+ */
+export type TipoClaveLimite = 'ip' | 'telefono' | 'usuario';
+
+/**
+ * PoliticaLimite
+ *
+ * - nombre: identifica la política en las claves del almacén y en los logs
+ * - clave: contra qué se cuenta
+ * - maximo: solicitudes permitidas por ventana
+ * - ventanaSegundos: duración de la ventana
+ * - mensaje: texto de la respuesta 429
+ */
+export interface PoliticaLimite {
+  nombre: string;
+  clave: TipoClaveLimite;
+  maximo: number;
+  ventanaSegundos: number;
+  mensaje: string;
+}
+
+/**
+ * Políticas de la API.
+ *
+ * Los límites por teléfono protegen el saldo de SMS y a cada usuario individual;
+ * los límites por IP frenan a un mismo cliente que rota teléfonos.
+ */
+export const POLITICAS_LIMITE = {
+  registroPorIp: {
+    nombre: 'registroPorIp',
+    clave: 'ip',
+    maximo: 20,
+    ventanaSegundos: 60 * 60,
+    mensaje: 'Demasiadas solicitudes de código desde esta conexión. Intenta más tarde.',
+  },
+  registroPorTelefono: {
+    nombre: 'registroPorTelefono',
+    clave: 'telefono',
+    maximo: 3,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Ya pediste varios códigos para este teléfono. Espera antes de pedir otro.',
+  },
+  loginPorIp: {
+    nombre: 'loginPorIp',
+    clave: 'ip',
+    maximo: 30,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Demasiados intentos de inicio de sesión desde esta conexión. Intenta más tarde.',
+  },
+  loginPorTelefono: {
+    nombre: 'loginPorTelefono',
+    clave: 'telefono',
+    maximo: 10,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Demasiados intentos de inicio de sesión para este teléfono. Intenta más tarde.',
+  },
+  refreshPorIp: {
+    nombre: 'refreshPorIp',
+    clave: 'ip',
+    maximo: 60,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Demasiadas renovaciones de sesión desde esta conexión. Intenta más tarde.',
+  },
+  accesoMaestroPorIp: {
+    nombre: 'accesoMaestroPorIp',
+    clave: 'ip',
+    maximo: 5,
+    ventanaSegundos: 60 * 60,
+    mensaje: 'Demasiados intentos de acceso. Intenta más tarde.',
+  },
+  dosFactoresPorIp: {
+    nombre: 'dosFactoresPorIp',
+    clave: 'ip',
+    maximo: 10,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Demasiados intentos de verificación del segundo factor. Intenta más tarde.',
+  },
+  dosFactoresPorUsuario: {
+    nombre: 'dosFactoresPorUsuario',
+    clave: 'usuario',
+    maximo: 10,
+    ventanaSegundos: 15 * 60,
+    mensaje: 'Demasiados intentos de verificación del segundo factor. Intenta más tarde.',
+  },
+  clicksPorIp: {
+    nombre: 'clicksPorIp',
+    clave: 'ip',
+    maximo: 120,
+    ventanaSegundos: 60,
+    mensaje: 'Demasiados clicks registrados desde esta conexión.',
+  },
+  clicksPorUsuario: {
+    nombre: 'clicksPorUsuario',
+    clave: 'usuario',
+    maximo: 60,
+    ventanaSegundos: 60,
+    mensaje: 'Demasiados clicks registrados para este usuario.',
+  },
+} satisfies Record<string, PoliticaLimite>;
+
+/**
+ * Nombre de una política registrada en POLITICAS_LIMITE.
+ */
+export type NombrePoliticaLimite = keyof typeof POLITICAS_LIMITE;
+
+/**
+ * Almacén de contadores activo. Por defecto, en memoria (NodeCache).
+ */
+let almacenLimites: AlmacenLimites = new AlmacenLimitesCache();
+
+/**
+ * configurarAlmacenLimites
+ *
+ * Reemplaza el almacén de contadores (ej: uno compartido entre instancias).
+ * Debe llamarse al arrancar, antes de atender solicitudes.
+ */
+export const configurarAlmacenLimites = (almacen: AlmacenLimites): void => {
+  almacenLimites = almacen;
+};
+
+/**
+ * Obtiene el valor contra el que se cuenta la solicitud.
+ * Devuelve undefined si no aplica (ej: política por usuario en una request anónima).
+ */
+const obtenerValorClave = (req: RequestConUsuario, tipo: TipoClaveLimite): string | undefined => {
+  switch (tipo) {
+    case 'ip':
+      return req.ip ?? req.socket.remoteAddress;
+    case 'telefono':
+      return typeof req.body?.telefono === 'string' ? req.body.telefono : undefined;
+    case 'usuario':
+      return req.usuario?._id.toString();
+  }
+};
+
+/**
+ * crearLimitador
+ *
+ * Devuelve un middleware que aplica una política (registrada o ad hoc).
+ *
+ * - Agrega los encabezados RateLimit-Limit, RateLimit-Remaining y RateLimit-Reset.
+ * - Si se supera el máximo responde 429 LIMITE_SOLICITUDES_EXCEDIDO con Retry-After.
+ * - Si el almacén falla, deja pasar la solicitud: un problema de infraestructura
+ *   no debe tumbar la autenticación.
+ */
+export const crearLimitador = (politica: PoliticaLimite) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const valor = obtenerValorClave(req as RequestConUsuario, politica.clave);
+
+    if (!valor) {
+      return next();
+    }
+
+    try {
+      const { total, reiniciaEn } = await almacenLimites.incrementar(
+        `${politica.nombre}:${valor}`,
+        politica.ventanaSegundos,
+      );
+      const segundosRestantes = Math.max(1, Math.ceil((reiniciaEn.getTime() - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', politica.maximo);
+      res.setHeader('RateLimit-Remaining', Math.max(0, politica.maximo - total));
+      res.setHeader('RateLimit-Reset', segundosRestantes);
+
+      if (total > politica.maximo) {
+        loggerSeguridad.warn(`Rate limit "${politica.nombre}" superado por ${politica.clave} ${valor}`);
+
+        // El manejador global de errores responde el 429 y agrega Retry-After
+        return next(
+          new ErrorLimiteExcedido(politica.mensaje, 'LIMITE_SOLICITUDES_EXCEDIDO', {
+            datos: { politica: politica.nombre, reintentarEnSegundos: segundosRestantes },
+            reintentarEnSegundos: segundosRestantes,
+          }),
+        );
+      }
+
+      next();
+    } catch (error) {
+      logger.error(`Error en rate limit "${politica.nombre}", se deja pasar la solicitud:`, error);
+      next();
+    }
+  };
+};
+
+/**
+ * limitarTasa
+ *
+ * Aplica una o más políticas registradas, en orden.
+ * La primera que se supere corta la cadena con 429.
+ */
+export const limitarTasa = (...nombres: NombrePoliticaLimite[]) =>
+  nombres.map((nombre) => crearLimitador(POLITICAS_LIMITE[nombre]));
@@ -0,0 +1,73 @@
+/**
+ * registroHttp.middleware.ts
+ *
+ * Log de acceso HTTP: Morgan mide cada solicitud y la escribe a través del logger de Winston,
+ * así las solicitudes quedan en los mismos destinos (y con el mismo formato) que el resto de los logs.
+ *
+ * Cada línea incluye request id, usuario, método, ruta, status, latencia y tamaño de la respuesta:
+ * con el request id se cruza una solicitud con los errores que causó.
+ */
+
+import { Response } from 'express';
+import morgan from 'morgan';
+import { logger } from '../config/logger';
+import { HEADER_REQUEST_ID } from '../utilidades/requestId';
+import { RequestConUsuario } from './auth.middleware';
+
+/**
+ * Datos de una solicitud que quedan en el log.
+ */
+interface DatosSolicitudHTTP {
+  requestId?: string;
+  usuarioId?: string;
+  metodo: string;
+  ruta: string;
+  status: number;
+  duracionMs: number;
+  bytes?: number;
+}
+
+/**
+ * Arma los datos de la solicitud (se ejecuta cuando termina la respuesta).
+ * Morgan solo sabe escribir texto: se serializan y el stream los vuelve a leer.
+ * La ruta va sin query string (puede traer datos personales).
+ */
+const formatoSolicitud: morgan.FormatFn<RequestConUsuario, Response> = (tokens, req, res) => {
+  const bytes = tokens.res(req, res, 'content-length');
+
+  const datos: DatosSolicitudHTTP = {
+    requestId: res.getHeader(HEADER_REQUEST_ID)?.toString(),
+    usuarioId: req.usuario?._id.toString(),
+    metodo: req.method,
+    ruta: req.originalUrl.split('?')[0],
+    status: res.statusCode,
+    duracionMs: Number(tokens['response-time'](req, res) ?? 0),
+    bytes: bytes ? Number(bytes) : undefined,
+  };
+
+  return JSON.stringify(datos);
+};
+
+/**
+ * Stream que recibe las líneas de Morgan y las manda al logger.
+ */
+const flujoLogger = {
+  write: (linea: string) => {
+    const datos = JSON.parse(linea) as DatosSolicitudHTTP;
+    logger.info(`${datos.metodo} ${datos.ruta} ${datos.status} ${datos.duracionMs} ms`, datos);
+  },
+};
+
+/**
+ * Las sondas del orquestador (/health) llegan cada pocos segundos:
+ * solo se registran cuando fallan.
+ */
+const esSondaExitosa = (req: RequestConUsuario, res: Response): boolean =>
+  req.originalUrl.startsWith('/health/') && res.statusCode < 400;
+
+/**
+ * registrarSolicitudHTTP
+ *
+ * Middleware de Morgan conectado a Winston.
+ */
+export const registrarSolicitudHTTP = morgan(formatoSolicitud, { stream: flujoLogger, skip: esSondaExitosa });
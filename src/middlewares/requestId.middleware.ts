@@ -0,0 +1,28 @@
+/**
+ * requestId.middleware.ts
+ *
+ * Asigna un request id a cada request y abre su contexto (ver utilidades/contextoRequest.ts).
+ *
+ * - Respeta el X-Request-Id entrante (del proxy o del cliente) si es válido; si no, genera uno.
+ * - Lo devuelve en el header X-Request-Id de la respuesta, para que el cliente pueda reportarlo.
+ * - Todo lo que se ejecute durante la request (logs, errores, auditoría) lo ve sin recibirlo por parámetro.
+ *
+ * Debe registrarse en app.ts antes que cualquier otro middleware.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ejecutarConContexto } from '../utilidades/contextoRequest';
+import { HEADER_REQUEST_ID, resolverRequestId } from '../utilidades/requestId';
+
+/**
+ * asignarRequestId
+ *
+ * Resuelve el request id y continúa la cadena dentro del contexto de la request.
+ */
+export const asignarRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const requestId = resolverRequestId(req.get(HEADER_REQUEST_ID));
+
+  res.setHeader(HEADER_REQUEST_ID, requestId);
+
+  ejecutarConContexto({ requestId, metodo: req.method, ruta: req.originalUrl.split('?')[0] }, () => next());
+};
@@ -0,0 +1,62 @@
+/**
+ * requierePermiso.middleware.ts
+ *
+ * Middleware de autorización por permisos (ver config/roles.ts).
+ * Reemplaza a los chequeos de rol: la ruta declara qué permiso necesita
+ * y el rol del usuario decide si lo tiene.
+ *
+ * Los permisos se leen del token de acceso, sin consultar la base.
+ * Este middleware debe usarse DESPUÉS de autenticarJWT.
+ */
+
+import { Response, NextFunction } from 'express';
+import { ErrorNoAutorizado, ErrorProhibido } from '../utilidades/errores';
+import { tienePermiso } from '../utilidades/permisos';
+import { PERMISOS, Permiso } from '../config/roles';
+import { RequestConUsuario } from './auth.middleware';
+
+/**
+ * requierePermiso
+ *
+ * Devuelve un middleware que exige TODOS los permisos indicados.
+ * - Sin usuario autenticado → 401.
+ * - Falta un permiso → 403 ACCESO_NO_AUTORIZADO.
+ * - Tiene el permiso pero el token no completó el segundo factor → 403 DOS_FACTORES_REQUERIDO.
+ *
+ * @param permisos - Permisos requeridos por la ruta.
+ */
+export const requierePermiso =
+  (...permisos: Permiso[]) =>
+  (req: RequestConUsuario, _res: Response, next: NextFunction) => {
+    // Si no hay usuario en la request, algo salió mal con el middleware anterior
+    if (!req.usuario || !req.tokenAcceso) {
+      return next(new ErrorNoAutorizado('Usuario no autenticado', 'USUARIO_NO_AUTENTICADO'));
+    }
+
+    const faltante = permisos.find((permiso) => !tienePermiso(req, permiso));
+
+    if (!faltante) {
+      return next();
+    }
+
+    // Un token del personal sin segundo factor completado (ej: solo código SMS) no habilita la ruta
+    if (req.tokenAcceso.permisos.includes(faltante) && PERMISOS[faltante].requiereDosFactores) {
+      return next(
+        new ErrorProhibido(
+          'Esta operación requiere iniciar sesión con segundo factor (TOTP)',
+          'DOS_FACTORES_REQUERIDO',
+        ),
+      );
+    }
+
+    return next(
+      new ErrorProhibido('No tenés permiso para realizar esta operación', 'ACCESO_NO_AUTORIZADO', {
+        datos: { permisoRequerido: faltante },
+      }),
+    );
+  };
+
+// Uso: se encadena después de autenticarJWT, con el permiso que necesita la ruta.
+// Ejemplo:
+//
+// router.get('/usuarios', autenticarJWT, requierePermiso('usuarios:ver'), listarUsuarios);
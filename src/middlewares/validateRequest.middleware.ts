@@ -5,44 +5,57 @@
  * y la query string (query) de una solicitud HTTP usando Zod.
  *
  * Esta función recibe un esquema Zod y devuelve un middleware Express.
- * Si la validación falla, se detiene la ejecución y se responde con error estandarizado.
+ * Si la validación falla, se detiene la ejecución con un ErrorValidacion (ver error.middleware.ts).
  * Si todo es válido, se continúa al siguiente middleware/controlador.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { ZodObject, ZodRawShape, ZodError } from 'zod';
-import { enviarRespuestaError } from '../utilidades/respuestaEstandarizada';
+import { ErrorValidacion } from '../utilidades/errores';
 
 /**
- * Recibe un esquema Zod y devuelve un middleware que valida req.body contra él.
- * También podría extenderse para validar query o params si lo necesitás a futuro.
+ * Parte de la request que se valida.
+ */
+export type OrigenValidacion = 'body' | 'query' | 'params';
+
+/**
+ * Recibe un esquema Zod y devuelve un middleware que valida una parte de la request contra él.
+ * Por defecto valida req.body; para query strings o parámetros de URL se indica el origen:
  *
- * @param schema - Esquema Zod que define la forma esperada del body.
+ *   router.get('/', validarRequest(busquedaSchema, 'query'), buscar);
+ *
+ * @param schema - Esquema Zod que define la forma esperada de los datos.
+ * @param origen - Parte de la request a validar: 'body' (default), 'query' o 'params'.
  */
 export const validarRequest = (
-  schema: ZodObject<ZodRawShape>
+  schema: ZodObject<ZodRawShape>,
+  origen: OrigenValidacion = 'body'
 ) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return (req: Request, _res: Response, next: NextFunction) => {
     try {
-      // Parseamos y validamos el cuerpo (body) de la solicitud
-      schema.parse(req.body);
+      // Parseamos y validamos la parte indicada de la solicitud.
+      // Reemplazamos los datos por el resultado: así llegan los valores normalizados
+      // (trim, coerción de tipos, defaults) y se descartan campos que el esquema no declara.
+      const datos = schema.parse(req[origen]);
+
+      // En Express 5 req.query es un getter de solo lectura, por eso lo redefinimos
+      // como propiedad propia de la request en lugar de asignarlo directamente.
+      Object.defineProperty(req, origen, { value: datos, writable: true, enumerable: true, configurable: true });
 
       // Si no lanza error, continúa al siguiente middleware o controlador
       next();
     } catch (error) {
       if (error instanceof ZodError) {
-        // Si hay errores de validación, respondemos con formato estandarizado
+        // Si hay errores de validación, el manejador global responde con formato estandarizado
         const detalles = error.issues.map((err) => ({
           campo: err.path.join('.'),
           mensaje: err.message,
         }));
 
-        return enviarRespuestaError(
-          res,
-          'Error de validación en los datos enviados',
-          'VALIDACION_DATOS_INVALIDOS',
-          detalles,
-          400
+        return next(
+          new ErrorValidacion('Error de validación en los datos enviados', 'VALIDACION_DATOS_INVALIDOS', {
+            errores: detalles,
+          })
         );
       }
 
@@ -0,0 +1,90 @@
+/**
+ * bloqueoVerificacion.modelo.ts
+ *
+ * Registra los bloqueos de un teléfono por agotar los intentos de verificación.
+ *
+ * Cada vez que un código se invalida por intentos fallidos, el teléfono queda
+ * bloqueado durante un período que se duplica con cada bloqueo repetido.
+ * Si el teléfono no vuelve a bloquearse durante un día, el historial expira
+ * y la escalada vuelve a empezar.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interface TypeScript para el modelo de bloqueo de verificación.
+ */
+export interface IBloqueoVerificacion extends Document {
+  telefono: string;
+  bloqueos: number;
+  bloqueadoHasta: Date;
+  expiraEn: Date;
+}
+
+/**
+ * Esquema Mongoose para bloqueos de verificación.
+ */
+const bloqueoVerificacionSchema: Schema<IBloqueoVerificacion> = new Schema(
+  {
+    /**
+     * Teléfono bloqueado.
+     * Único: hay un solo registro por teléfono que acumula los bloqueos.
+     */
+    telefono: {
+      type: String,
+      required: [true, 'El número de teléfono es obligatorio'],
+      trim: true,
+      lowercase: true,
+      unique: true,
+    },
+
+    /**
+     * Cantidad de bloqueos consecutivos.
+     * Determina la duración del próximo bloqueo (escalada exponencial).
+     */
+    bloqueos: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    /**
+     * Hasta cuándo el teléfono no puede pedir ni verificar códigos.
+     */
+    bloqueadoHasta: {
+      type: Date,
+      required: true,
+    },
+
+    /**
+     * Fecha en la que el registro se elimina (y con él la escalada).
+     * Se recalcula en cada bloqueo: bloqueadoHasta + 24 horas.
+     */
+    expiraEn: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: false,
+  },
+);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const BloqueoVerificacion = mongoose.model<IBloqueoVerificacion>(
+  'BloqueoVerificacion',
+  bloqueoVerificacionSchema,
+);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                  =======> Justificación
+//
+// telefono unique            =======>	Un registro por teléfono: los bloqueos se acumulan con $inc atómico
+// bloqueos                   =======>	Permite escalar la duración (base, 2x base, 4x base...) ante ataques repetidos
+// bloqueadoHasta             =======>	Se consulta antes de enviar o comparar un código
+// expiraEn (TTL expires: 0)  =======>	Mongo borra el registro en esa fecha exacta: pasado un día sin bloqueos, la escalada se reinicia
+// modelo separado            =======>	Los códigos duran 5 minutos; el bloqueo tiene que sobrevivirlos
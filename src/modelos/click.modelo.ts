@@ -0,0 +1,137 @@
+/**
+ * click.modelo.ts
+ *
+ * Registra cada interacción de un usuario final con un servicio publicado:
+ * - llamada: tocó el botón "llamar"
+ * - whatsapp: tocó el botón de WhatsApp
+ * - vista: abrió el detalle del servicio
+ *
+ * Es la materia prima de las métricas que ven los prestadores.
+ */
+
+import mongoose, { Document, Types, Schema } from 'mongoose';
+
+/**
+ * Tipos de click que registramos.
+ * Se exporta para reutilizarlo en validaciones y contadores.
+ */
+export const TIPOS_CLICK = ['llamada', 'whatsapp', 'vista'] as const;
+export type TipoClick = (typeof TIPOS_CLICK)[number];
+
+/**
+ * Interface de TypeScript para tipar un click.
+ */
+export interface IClick extends Document {
+  _id: Types.ObjectId;
+  servicioId: Types.ObjectId;
+  tipo: TipoClick;
+  visitanteId: string;
+  usuarioId?: Types.ObjectId;
+  referrer?: string;
+  claveDeduplicacion?: string;
+  creadoEn: Date;
+}
+
+/**
+ * Esquema de Mongoose para la colección de clicks.
+ */
+const clickSchema: Schema<IClick> = new Schema(
+  {
+    /**
+     * Servicio sobre el que se hizo click.
+     */
+    servicioId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Servicio',
+      required: [true, 'El click debe referenciar un servicio'],
+    },
+
+    /**
+     * Tipo de interacción (llamada, whatsapp, vista).
+     */
+    tipo: {
+      type: String,
+      enum: TIPOS_CLICK,
+      required: [true, 'El tipo de click es obligatorio'],
+    },
+
+    /**
+     * Identificador anónimo del visitante.
+     * Lo genera el frontend y lo persiste en el navegador; no identifica a una persona.
+     */
+    visitanteId: {
+      type: String,
+      required: [true, 'El identificador de visitante es obligatorio'],
+      trim: true,
+    },
+
+    /**
+     * Usuario autenticado que hizo el click (solo si envió un JWT válido).
+     */
+    usuarioId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+
+    /**
+     * Página o sitio desde donde llegó el visitante.
+     */
+    referrer: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+
+    /**
+     * Servicio, tipo, visitante (o usuario) y tramo de la ventana de deduplicación.
+     * Con el índice único, dos clicks simultáneos del mismo visitante no pueden
+     * insertarse los dos. No se guarda si la deduplicación está desactivada.
+     */
+    claveDeduplicacion: {
+      type: String,
+    },
+
+    /**
+     * Momento del click. Base para la deduplicación y para las estadísticas.
+     */
+    creadoEn: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    // Un click nunca se modifica: no necesitamos updatedAt
+    timestamps: false,
+  },
+);
+
+/**
+ * Índice para la deduplicación: "¿este visitante ya hizo este tipo de click
+ * sobre este servicio dentro de la ventana?". También sirve para las estadísticas por servicio.
+ */
+clickSchema.index({ servicioId: 1, visitanteId: 1, tipo: 1, creadoEn: -1 });
+
+/**
+ * Garantía atómica de la deduplicación: un solo click por clave.
+ * Parcial: los clicks sin clave (anteriores a este campo o sin ventana) no participan.
+ */
+clickSchema.index(
+  { claveDeduplicacion: 1 },
+  { unique: true, partialFilterExpression: { claveDeduplicacion: { $exists: true } } },
+);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const Click = mongoose.model<IClick>('Click', clickSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                     =======> Justificación
+//
+// tipo con enum                 =======>	Solo registramos interacciones que sabemos medir
+// visitanteId obligatorio       =======>	Permite deduplicar sin exigir login al usuario final
+// usuarioId opcional            =======>	Si hay sesión se aprovecha, pero el endpoint es público
+// sin TTL                       =======>	Las estadísticas necesitan el historial completo
+// índice compuesto              =======>	Deduplicación y agregaciones por servicio sin escanear toda la colección
+// claveDeduplicacion unique     =======>	El índice compuesto no impide que dos requests simultáneos inserten el mismo click
@@ -12,10 +12,16 @@ import mongoose, { Document, Schema } from 'mongoose';
  */
 export interface ICodigoVerificacion extends Document {
   telefono: string;
-  codigo: string;
+  codigoHash: string;
+  intentosFallidos: number;
   creadoEn: Date;
 }
 
+/**
+ * Vigencia de un código (en segundos): pasado este tiempo el índice TTL lo elimina.
+ */
+export const VIGENCIA_CODIGO_SEGUNDOS = 300;
+
 /**
  * Esquema Mongoose para códigos de verificación.
  */
@@ -37,16 +43,29 @@ const codigoVerificacionSchema: Schema<ICodigoVerificacion> = new Schema(
     },
 
     /**
-     * Código numérico generado y enviado al teléfono.
+     * Hash (HMAC-SHA256) del código numérico enviado al teléfono.
      *
      * Reglas:
      * - Requerido
-     * - Puede tener 4 a 6 dígitos (según config futura)
+     * - Nunca se guarda el código en texto plano: si se filtra la base,
+     *   los códigos vigentes no se pueden usar directamente.
+     * - Se genera y compara con hashearCodigo / compararCodigo (utilidades/generarToken.ts)
      */
-    codigo: {
+    codigoHash: {
       type: String,
-      required: [true, 'El código de verificación es obligatorio'],
-      trim: true,
+      required: [true, 'El hash del código de verificación es obligatorio'],
+    },
+
+    /**
+     * Cantidad de intentos contra este código: se reserva uno antes de cada comparación,
+     * también cuando el código resulta correcto.
+     * Al llegar al máximo configurado el código se invalida y el teléfono se bloquea
+     * (ver utilidades/verificacionCodigo.ts).
+     */
+    intentosFallidos: {
+      type: Number,
+      default: 0,
+      min: 0,
     },
 
     /**
@@ -57,7 +76,7 @@ const codigoVerificacionSchema: Schema<ICodigoVerificacion> = new Schema(
       type: Date,
       default: Date.now,
       index: {
-        expires: 300, // 300 segundos = 5 minutos
+        expires: VIGENCIA_CODIGO_SEGUNDOS, // 300 segundos = 5 minutos
         // El documento se eliminará automáticamente 5 minutos después de creado
       },
     },
@@ -83,6 +102,7 @@ export const CodigoVerificacion = mongoose.model<ICodigoVerificacion>(
 //
 // TTL (expires: 300)         =======>	Elimina automáticamente los códigos vencidos después de 5 minutos
 // telefono: trim + lowercase =======>	Evita falsos duplicados por espacios o mayúsculas
-// codigo: string             =======>	Permite almacenar números como string sin perder ceros a la izquierda
+// codigoHash                 =======>	El código nunca se persiste en texto plano; HMAC con secreto del servidor
+// intentosFallidos           =======>	Limita los intentos por código: se invalida al llegar al máximo
 // timestamps: false          =======>	No es necesario updatedAt para datos efímeros
 // no unique                  =======>	Se permite múltiples códigos por número; la lógica se encargará de reemplazar el anterior
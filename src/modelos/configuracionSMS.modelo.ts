@@ -0,0 +1,130 @@
+/**
+ * configuracionSMS.modelo.ts
+ *
+ * Límites de envío de SMS, ajustables por un admin sin redeploy.
+ *
+ * Es un documento único (clave 'global'); si no existe se crea con los valores por defecto.
+ * Lo consulta utilidades/limitesSMS.ts antes de cada envío.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Presupuesto diario de SMS para un prefijo de país (ej: +54 → 500 por día).
+ */
+export interface PresupuestoPrefijo {
+  prefijo: string;
+  maximoDiario: number;
+}
+
+/**
+ * Interface TypeScript para el modelo de configuración de SMS.
+ */
+export interface IConfiguracionSMS extends Document {
+  clave: string;
+  cooldownSegundos: number;
+  maximoDiarioPorTelefono: number;
+  presupuestoDiarioPorDefecto: number;
+  presupuestosPorPrefijo: PresupuestoPrefijo[];
+  actualizadoPor?: mongoose.Types.ObjectId;
+  actualizadoEn: Date;
+}
+
+/**
+ * Subdocumento de presupuesto por prefijo (sin _id propio).
+ */
+const presupuestoPrefijoSchema = new Schema<PresupuestoPrefijo>(
+  {
+    prefijo: {
+      type: String,
+      required: true,
+      trim: true,
+      match: [/^\+\d{1,4}$/, 'El prefijo debe tener formato +<dígitos>, ej: +54'],
+    },
+    maximoDiario: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * Esquema Mongoose para la configuración de SMS.
+ */
+const configuracionSMSSchema: Schema<IConfiguracionSMS> = new Schema(
+  {
+    /**
+     * Identificador del documento único.
+     */
+    clave: {
+      type: String,
+      default: 'global',
+      unique: true,
+    },
+
+    /**
+     * Segundos mínimos entre dos SMS al mismo teléfono.
+     */
+    cooldownSegundos: {
+      type: Number,
+      default: 60,
+      min: 0,
+    },
+
+    /**
+     * SMS máximos por teléfono y por día (UTC).
+     */
+    maximoDiarioPorTelefono: {
+      type: Number,
+      default: 5,
+      min: 0,
+    },
+
+    /**
+     * SMS diarios permitidos para los prefijos que no tienen presupuesto propio.
+     * Todos esos prefijos comparten este cupo: un ataque de "SMS pumping"
+     * repartido entre destinos premium se corta igual.
+     */
+    presupuestoDiarioPorDefecto: {
+      type: Number,
+      default: 100,
+      min: 0,
+    },
+
+    /**
+     * Presupuestos propios de los países donde opera la plataforma.
+     */
+    presupuestosPorPrefijo: {
+      type: [presupuestoPrefijoSchema],
+      default: [],
+    },
+
+    /**
+     * Último admin que modificó los límites.
+     */
+    actualizadoPor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: 'actualizadoEn' },
+  },
+);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const ConfiguracionSMS = mongoose.model<IConfiguracionSMS>('ConfiguracionSMS', configuracionSMSSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                      =======> Justificación
+//
+// documento único (clave)        =======>	Una sola configuración para todas las instancias; unique evita duplicados al crearla
+// defaults en el esquema         =======>	La plataforma queda protegida aunque ningún admin haya configurado nada
+// presupuestoDiarioPorDefecto    =======>	Cupo compartido para prefijos no configurados: limita el costo de destinos inesperados
+// presupuestosPorPrefijo _id:false =====>	Son valores de configuración, no entidades
+// actualizadoPor / actualizadoEn =======>	Trazabilidad de quién cambió los límites y cuándo
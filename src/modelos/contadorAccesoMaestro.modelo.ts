@@ -0,0 +1,76 @@
+/**
+ * contadorAccesoMaestro.modelo.ts
+ *
+ * Contador de intentos del acceso maestro que usa el bloqueo de utilidades/accesoMaestro.ts.
+ *
+ * Es un único documento: el acceso maestro abre una sola cuenta, así que el bloqueo es global.
+ * Cada intento se reserva con un $inc condicional antes de comparar las credenciales,
+ * por eso los intentos en paralelo no pueden superar el máximo.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Clave del único documento del contador.
+ */
+export const CLAVE_CONTADOR_ACCESO_MAESTRO = 'global';
+
+/**
+ * Interface TypeScript del contador de intentos del acceso maestro.
+ */
+export interface IContadorAccesoMaestro extends Document {
+  clave: string;
+  intentos: number;
+  ventanaHasta: Date;
+}
+
+const contadorAccesoMaestroSchema: Schema<IContadorAccesoMaestro> = new Schema(
+  {
+    /**
+     * Siempre CLAVE_CONTADOR_ACCESO_MAESTRO. Único: el upsert inicial no puede duplicarlo.
+     */
+    clave: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+
+    /**
+     * Intentos reservados desde que empezó la ventana actual (o desde el último acceso exitoso).
+     */
+    intentos: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    /**
+     * Fin de la ventana: último intento + ACCESO_MAESTRO_BLOQUEO_MINUTOS.
+     * Con los intentos agotados, es también el fin del bloqueo.
+     */
+    ventanaHasta: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+  },
+);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const ContadorAccesoMaestro = mongoose.model<IContadorAccesoMaestro>(
+  'ContadorAccesoMaestro',
+  contadorAccesoMaestroSchema,
+);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                  =======> Justificación
+//
+// documento único (clave)    =======>	El bloqueo es global; unique evita dos contadores si dos requests lo crean a la vez
+// intentos con $inc          =======>	Se reserva el intento antes de comparar: ningún intento paralelo se salta el bloqueo
+// ventanaHasta               =======>	Ventana deslizante desde el último intento; agotados los intentos, marca el fin del bloqueo
+// sin TTL                    =======>	Un solo documento; la auditoría de cada intento queda en IntentoAccesoMaestro
@@ -0,0 +1,164 @@
+/**
+ * contadorSMS.modelo.ts
+ *
+ * Contadores de envíos de SMS que usa utilidades/limitesSMS.ts:
+ *
+ * - ContadorSMSTelefono: un documento por teléfono con su último envío
+ *   (cooldown) y los envíos del día (tope diario por teléfono).
+ * - ContadorSMSPrefijo: un documento por día y prefijo de país con los envíos
+ *   (presupuesto diario) y los envíos bloqueados por motivo.
+ *
+ * Se guardan en MongoDB para que todas las instancias compartan los contadores.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Motivos por los que el guard de SMS bloquea un envío.
+ */
+export const MOTIVOS_BLOQUEO_SMS = ['cooldown', 'limiteTelefono', 'presupuestoPrefijo'] as const;
+export type MotivoBloqueoSMS = (typeof MOTIVOS_BLOQUEO_SMS)[number];
+
+/**
+ * Interface TypeScript del contador por teléfono.
+ */
+export interface IContadorSMSTelefono extends Document {
+  telefono: string;
+  fecha: string;
+  enviadosHoy: number;
+  ultimoEnvio: Date;
+  expiraEn: Date;
+}
+
+/**
+ * Interface TypeScript del contador diario por prefijo.
+ */
+export interface IContadorSMSPrefijo extends Document {
+  fecha: string;
+  prefijo: string;
+  enviados: number;
+  bloqueados: Record<MotivoBloqueoSMS, number>;
+  expiraEn: Date;
+}
+
+const contadorSMSTelefonoSchema: Schema<IContadorSMSTelefono> = new Schema(
+  {
+    /**
+     * Teléfono en formato E.164. Un documento por teléfono.
+     */
+    telefono: {
+      type: String,
+      required: true,
+      trim: true,
+      unique: true,
+    },
+
+    /**
+     * Día (UTC, YYYY-MM-DD) al que corresponde enviadosHoy.
+     * Si cambia el día, el contador diario vuelve a empezar.
+     */
+    fecha: {
+      type: String,
+      required: true,
+    },
+
+    enviadosHoy: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    /**
+     * Momento del último envío (base del cooldown, aun entre días distintos).
+     */
+    ultimoEnvio: {
+      type: Date,
+      required: true,
+    },
+
+    /**
+     * Borrado automático cuando el teléfono deja de recibir SMS.
+     */
+    expiraEn: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: false,
+  },
+);
+
+const contadorSMSPrefijoSchema: Schema<IContadorSMSPrefijo> = new Schema(
+  {
+    /**
+     * Día (UTC, YYYY-MM-DD).
+     */
+    fecha: {
+      type: String,
+      required: true,
+    },
+
+    /**
+     * Prefijo de país con presupuesto propio, o '*' para el cupo compartido.
+     */
+    prefijo: {
+      type: String,
+      required: true,
+    },
+
+    enviados: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    /**
+     * Envíos bloqueados por el guard, por motivo.
+     */
+    bloqueados: {
+      cooldown: { type: Number, default: 0 },
+      limiteTelefono: { type: Number, default: 0 },
+      presupuestoPrefijo: { type: Number, default: 0 },
+    },
+
+    /**
+     * Se conserva un tiempo para poder revisar el historial desde el panel.
+     */
+    expiraEn: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: false,
+  },
+);
+
+/**
+ * Un único contador por día y prefijo (los $inc con upsert dependen de esto).
+ */
+contadorSMSPrefijoSchema.index({ fecha: 1, prefijo: 1 }, { unique: true });
+
+/**
+ * Compilación de los modelos y exportación.
+ */
+export const ContadorSMSTelefono = mongoose.model<IContadorSMSTelefono>(
+  'ContadorSMSTelefono',
+  contadorSMSTelefonoSchema,
+);
+
+export const ContadorSMSPrefijo = mongoose.model<IContadorSMSPrefijo>('ContadorSMSPrefijo', contadorSMSPrefijoSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                      =======> Justificación
+//
+// MongoDB (no NodeCache)         =======>	Los topes de costo tienen que valer para todas las instancias y sobrevivir reinicios
+// contador por teléfono sin fecha =======>	El cooldown se respeta aunque el reenvío cruce la medianoche
+// fecha como string UTC          =======>	Agrupa por día sin ambigüedad de zona horaria y es legible en el panel
+// índice único (fecha, prefijo)  =======>	Permite $inc con upsert sin crear duplicados
+// bloqueados por motivo          =======>	El panel muestra cuánto bloqueó cada regla (ej: un pico de presupuestoPrefijo indica pumping)
+// expiraEn con TTL               =======>	Los contadores no crecen indefinidamente
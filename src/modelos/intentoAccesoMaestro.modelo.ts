@@ -0,0 +1,130 @@
+/**
+ * intentoAccesoMaestro.modelo.ts
+ *
+ * Auditoría persistente del acceso maestro: cada intento queda registrado,
+ * exitoso o no, con la IP y el user agent desde donde se hizo.
+ *
+ * Además de servir para auditoría, es la fuente de la detección de códigos TOTP
+ * reutilizados (ver utilidades/accesoMaestro.ts). El bloqueo por intentos fallidos
+ * se lleva en un contador aparte (contadorAccesoMaestro.modelo.ts).
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Resultado de un intento:
+ * - exitoso: credenciales válidas, se emitieron tokens
+ * - fallido: credenciales inválidas
+ * - rechazado: ni siquiera se evaluaron las credenciales (IP no permitida, bloqueo vigente, cuenta suspendida)
+ */
+export const RESULTADOS_ACCESO_MAESTRO = ['exitoso', 'fallido', 'rechazado'] as const;
+export type ResultadoAccesoMaestro = (typeof RESULTADOS_ACCESO_MAESTRO)[number];
+
+/**
+ * Motivo de un intento no exitoso.
+ */
+export const MOTIVOS_ACCESO_MAESTRO = [
+  'CODIGO_INVALIDO',
+  'TOTP_INVALIDO',
+  'TOTP_REUTILIZADO',
+  'IP_NO_PERMITIDA',
+  'BLOQUEADO',
+  'USUARIO_SUSPENDIDO',
+] as const;
+export type MotivoAccesoMaestro = (typeof MOTIVOS_ACCESO_MAESTRO)[number];
+
+/**
+ * Interface TypeScript para un intento de acceso maestro.
+ */
+export interface IIntentoAccesoMaestro extends Document {
+  resultado: ResultadoAccesoMaestro;
+  motivo?: MotivoAccesoMaestro;
+  ip?: string;
+  userAgent?: string;
+  usuarioId?: Types.ObjectId;
+  adminCreado: boolean;
+  pasoTOTP?: number;
+  creadoEn: Date;
+}
+
+/**
+ * Esquema Mongoose para los intentos de acceso maestro.
+ */
+const intentoAccesoMaestroSchema: Schema<IIntentoAccesoMaestro> = new Schema(
+  {
+    resultado: {
+      type: String,
+      enum: RESULTADOS_ACCESO_MAESTRO,
+      required: true,
+    },
+
+    /**
+     * Por qué no fue exitoso. Nunca se guardan los códigos recibidos.
+     */
+    motivo: {
+      type: String,
+      enum: MOTIVOS_ACCESO_MAESTRO,
+    },
+
+    ip: {
+      type: String,
+      trim: true,
+    },
+
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+
+    /**
+     * Usuario admin al que se dio acceso (solo en intentos exitosos o de cuenta suspendida).
+     */
+    usuarioId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+
+    /**
+     * true si este acceso creó la cuenta de administrador.
+     */
+    adminCreado: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * Paso TOTP usado en un acceso exitoso: un código ya usado no vuelve a aceptarse.
+     */
+    pasoTOTP: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: { createdAt: 'creadoEn', updatedAt: false },
+  },
+);
+
+/**
+ * Índice para las consultas por resultado (accesos exitosos, últimos fallos).
+ */
+intentoAccesoMaestroSchema.index({ resultado: 1, creadoEn: -1 });
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const IntentoAccesoMaestro = mongoose.model<IIntentoAccesoMaestro>(
+  'IntentoAccesoMaestro',
+  intentoAccesoMaestroSchema,
+);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                      =======> Justificación
+//
+// sin TTL                        =======>	Es un registro de auditoría: se conserva
+// resultado fallido vs rechazado =======>	Distingue los fallos de credenciales de los intentos que ni se evaluaron (ej: durante el bloqueo)
+// motivo enum                    =======>	Permite auditar qué falló sin guardar nunca los códigos recibidos
+// adminCreado                    =======>	La creación de la cuenta admin deja de ser silenciosa
+// pasoTOTP                       =======>	Impide reutilizar un código TOTP ya aceptado dentro de su ventana de 30 segundos
+// índice resultado + creadoEn    =======>	Cubre las consultas de auditoría por resultado y la de pasos TOTP ya usados
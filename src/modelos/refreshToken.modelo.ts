@@ -8,17 +8,27 @@
  * - Asociar cada token a un usuario específico (por ID).
  * - Implementar TTL automático: el token expira y se elimina sin intervención manual.
  * - Posibilitar revocación de sesión desde backend eliminando tokens.
+ * - Representar una sesión por dispositivo: el documento se conserva al rotar el token
+ *   (mismo _id), así el usuario ve y cierra sus sesiones (GET/DELETE /api/autenticacion/sesiones).
+ * - Cada sesión es una "familia" de tokens: los tokens ya rotados quedan registrados en
+ *   RefreshTokenRotado y, si alguno se vuelve a usar, se revoca la familia entera.
  */
 
-import { Schema, model, Document } from 'mongoose';
+import { Schema, model, Document, Types } from 'mongoose';
 
 /**
  * Interface TypeScript que representa un documento de RefreshToken.
  * Extendemos de Document (de Mongoose) para que sea tipado correctamente.
  */
 export interface IRefreshToken extends Document {
-  token: string;
+  _id: Types.ObjectId;
+  tokenHash: string;
   usuarioId: Schema.Types.ObjectId;
+  dispositivo?: string;
+  userAgent?: string;
+  ip?: string;
+  dosFactores: boolean;
+  ultimoUso: Date;
   creadoEn: Date;
 }
 
@@ -28,12 +38,12 @@ export interface IRefreshToken extends Document {
  */
 const refreshTokenSchema = new Schema<IRefreshToken>({
   /**
-   * token:
-   * - Es el string único que se entrega al frontend.
-   * - Puede ser generado como UUID v4 o string aleatorio de alta entropía.
-   * - No se cifra en esta versión, pero podría hacerse para mayor seguridad.
+   * tokenHash:
+   * - SHA-256 del refresh token entregado al frontend (el token en sí nunca se guarda).
+   * - Si se filtra la base, los hashes no sirven para renovar sesiones.
+   * - Alcanza con SHA-256 sin sal: el token tiene 320 bits aleatorios, no se puede adivinar.
    */
-  token: {
+  tokenHash: {
     type: String,
     required: true,
     unique: true,
@@ -50,23 +60,72 @@ const refreshTokenSchema = new Schema<IRefreshToken>({
     required: true,
   },
 
+  /**
+   * dispositivo:
+   * - Nombre que envía la app al iniciar sesión (ej: "iPhone de Ana").
+   * - Opcional: permite al usuario reconocer cada sesión.
+   */
+  dispositivo: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+
+  /**
+   * userAgent / ip:
+   * - Datos de la request que abrió la sesión (la IP se actualiza en cada rotación).
+   * - Sirven para detectar sesiones desconocidas.
+   */
+  userAgent: {
+    type: String,
+    maxlength: 500,
+  },
+  ip: {
+    type: String,
+  },
+
+  /**
+   * dosFactores:
+   * - true si la sesión se abrió completando el segundo factor (TOTP o código de recuperación).
+   * - Los tokens de acceso renovados desde la sesión lo heredan.
+   */
+  dosFactores: {
+    type: Boolean,
+    default: false,
+  },
+
+  /**
+   * ultimoUso:
+   * - Última vez que se usó la sesión para renovar el token de acceso.
+   * - Se utiliza para TTL: una sesión sin uso durante 30 días se elimina sola.
+   *   Cada rotación la extiende (sesión deslizante).
+   */
+  ultimoUso: {
+    type: Date,
+    default: Date.now,
+    expires: '30d',
+  },
+
   /**
    * creadoEn:
-   * - Fecha de creación del token.
-   * - Se utiliza para TTL (Time To Live).
+   * - Fecha de inicio de la sesión (no cambia al rotar el token).
    */
   creadoEn: {
     type: Date,
     default: Date.now,
-    expires: '30d', // TTL automático: el documento se elimina 30 días después de creado
   },
 });
 
+/**
+ * Índice para listar rápidamente las sesiones de un usuario.
+ */
+refreshTokenSchema.index({ usuarioId: 1, creadoEn: -1 });
+
 /**
  * Index TTL explícito (alternativo a usar expires en el campo directamente):
- * Este enfoque NO es necesario si ya se usa "expires" en el campo creadoEn como arriba.
+ * Este enfoque NO es necesario si ya se usa "expires" en el campo ultimoUso como arriba.
  */
-// refreshTokenSchema.index({ creadoEn: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 });
+// refreshTokenSchema.index({ ultimoUso: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 });
 
 /**
  * Exportamos el modelo bajo el nombre "RefreshToken".
@@ -0,0 +1,69 @@
+/**
+ * refreshTokenRotado.modelo.ts
+ *
+ * Registro de los refresh tokens que ya fueron rotados (reemplazados por uno nuevo).
+ *
+ * Un token rotado nunca debería volver a presentarse. Si aparece, alguien más
+ * tiene una copia (token robado): se revoca toda la familia (la sesión) y se
+ * registra un evento de seguridad (ver utilidades/sesiones.ts).
+ */
+
+import { Schema, model, Document, Types } from 'mongoose';
+
+/**
+ * Interface TypeScript que representa un token rotado.
+ */
+export interface IRefreshTokenRotado extends Document {
+  tokenHash: string;
+  familiaId: Types.ObjectId;
+  usuarioId: Types.ObjectId;
+  rotadoEn: Date;
+}
+
+const refreshTokenRotadoSchema = new Schema<IRefreshTokenRotado>({
+  /**
+   * tokenHash:
+   * - SHA-256 del token ya rotado (mismo cálculo que RefreshToken.tokenHash).
+   */
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+
+  /**
+   * familiaId:
+   * - Sesión (documento RefreshToken) a la que pertenecía el token.
+   * - Es lo que se revoca si el token se reutiliza.
+   */
+  familiaId: {
+    type: Schema.Types.ObjectId,
+    ref: 'RefreshToken',
+    required: true,
+    index: true,
+  },
+
+  /**
+   * usuarioId:
+   * - Dueño de la sesión, para el evento de seguridad y el borrado de cuenta.
+   */
+  usuarioId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Usuario',
+    required: true,
+    index: true,
+  },
+
+  /**
+   * rotadoEn:
+   * - Se utiliza para TTL: pasados 30 días el token habría vencido igual,
+   *   ya no hace falta recordarlo.
+   */
+  rotadoEn: {
+    type: Date,
+    default: Date.now,
+    expires: '30d',
+  },
+});
+
+export const RefreshTokenRotado = model<IRefreshTokenRotado>('RefreshTokenRotado', refreshTokenRotadoSchema);
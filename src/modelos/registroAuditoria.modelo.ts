@@ -0,0 +1,197 @@
+/**
+ * registroAuditoria.modelo.ts
+ *
+ * Registro de auditoría: quién hizo qué, sobre qué y desde dónde.
+ * Cubre las acciones del panel de administración y los eventos de seguridad
+ * (acceso maestro, revocación de sesiones, segundo factor).
+ *
+ * Es de solo agregado: el modelo rechaza cualquier modificación o borrado,
+ * y la API solo expone la consulta (GET /api/admin/auditoria).
+ * Se escribe a través de utilidades/auditoria.ts.
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Acciones auditadas, con el formato "objetivo.accion".
+ */
+export const ACCIONES_AUDITORIA = [
+  'usuario.rol_cambiado',
+  'usuario.suspendido',
+  'usuario.reactivado',
+  'usuario.sesiones_cerradas',
+  'servicio.aprobado',
+  'servicio.rechazado',
+  'sms.limites_actualizados',
+  'acceso_maestro.exitoso',
+  'sesion.cerrada',
+  'sesion.otras_cerradas',
+  'sesion.logout',
+  'sesion.reutilizacion_detectada',
+  'dos_factores.habilitado',
+  'dos_factores.codigos_regenerados',
+  'dos_factores.codigo_recuperacion_usado',
+] as const;
+export type AccionAuditoria = (typeof ACCIONES_AUDITORIA)[number];
+
+/**
+ * Tipos de documento sobre los que se actúa.
+ */
+export const TIPOS_OBJETIVO_AUDITORIA = ['usuario', 'servicio', 'sesion', 'configuracion_sms'] as const;
+export type TipoObjetivoAuditoria = (typeof TIPOS_OBJETIVO_AUDITORIA)[number];
+
+/**
+ * Interface TypeScript para una entrada de auditoría.
+ */
+export interface IRegistroAuditoria extends Document {
+  _id: Types.ObjectId;
+  actorId?: Types.ObjectId;
+  actorRol?: string;
+  accion: AccionAuditoria;
+  objetivoTipo: TipoObjetivoAuditoria;
+  objetivoId?: string;
+  cambios?: {
+    antes: Record<string, unknown>;
+    despues: Record<string, unknown>;
+  };
+  metadatos?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+  creadoEn: Date;
+}
+
+/**
+ * Esquema Mongoose para las entradas de auditoría.
+ */
+const registroAuditoriaSchema: Schema<IRegistroAuditoria> = new Schema(
+  {
+    /**
+     * Usuario que realizó la acción. Vacío en los eventos que detecta el sistema
+     * (ej: reutilización de un refresh token).
+     */
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+
+    /**
+     * Rol del actor en ese momento: el rol puede cambiar después.
+     */
+    actorRol: {
+      type: String,
+    },
+
+    accion: {
+      type: String,
+      enum: ACCIONES_AUDITORIA,
+      required: true,
+    },
+
+    objetivoTipo: {
+      type: String,
+      enum: TIPOS_OBJETIVO_AUDITORIA,
+      required: true,
+    },
+
+    /**
+     * ID del documento afectado. String: no todos los objetivos tienen un ObjectId
+     * (ej: la configuración de SMS se identifica por su clave).
+     */
+    objetivoId: {
+      type: String,
+    },
+
+    /**
+     * Solo los campos que cambiaron, con su valor anterior y el nuevo.
+     */
+    cambios: {
+      type: {
+        _id: false,
+        antes: { type: Schema.Types.Mixed },
+        despues: { type: Schema.Types.Mixed },
+      },
+    },
+
+    /**
+     * Datos de contexto que no son cambios del documento (ej: motivo, sesiones cerradas).
+     */
+    metadatos: {
+      type: Schema.Types.Mixed,
+    },
+
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+
+    /**
+     * Identificador de la request: permite cruzar la entrada con los logs.
+     */
+    requestId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: 'creadoEn', updatedAt: false },
+    // Los metadatos son libres: que Mongoose no descarte claves vacías
+    minimize: false,
+  },
+);
+
+/**
+ * Índices para los filtros del panel (siempre ordenados por fecha descendente).
+ */
+registroAuditoriaSchema.index({ creadoEn: -1 });
+registroAuditoriaSchema.index({ actorId: 1, creadoEn: -1 });
+registroAuditoriaSchema.index({ accion: 1, creadoEn: -1 });
+registroAuditoriaSchema.index({ objetivoTipo: 1, objetivoId: 1, creadoEn: -1 });
+
+/**
+ * Solo agregado: una entrada ya guardada no se puede modificar ni borrar desde la aplicación.
+ */
+const rechazarModificacion = () => {
+  throw new Error('El registro de auditoría es de solo agregado');
+};
+
+registroAuditoriaSchema.pre('save', function () {
+  if (!this.isNew) rechazarModificacion();
+});
+
+registroAuditoriaSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  { document: false, query: true },
+  rechazarModificacion,
+);
+
+registroAuditoriaSchema.pre('deleteOne', { document: true, query: false }, rechazarModificacion);
+
+registroAuditoriaSchema.pre('bulkWrite', rechazarModificacion);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const RegistroAuditoria = mongoose.model<IRegistroAuditoria>('RegistroAuditoria', registroAuditoriaSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                    =======> Justificación
+//
+// hooks que rechazan cambios   =======>	Solo agregado: ni un bug ni un endpoint futuro pueden reescribir la historia
+// sin TTL                      =======>	La retención la decide el negocio; no se pierde nada por vencimiento
+// actorRol                     =======>	Foto del rol al actuar: un cambio de rol posterior no altera la lectura
+// objetivoId como String       =======>	Admite objetivos sin ObjectId (ej: configuración global)
+// cambios solo con diferencias =======>	Entradas chicas y fáciles de leer; no se copian documentos enteros
+// requestId                    =======>	Une la entrada con las líneas de log de la misma request
+// índices por actor/acción/objetivo =======>	Cada filtro del panel usa su índice ordenado por fecha
@@ -0,0 +1,137 @@
+/**
+ * segundoFactor.modelo.ts
+ *
+ * Segundo factor (TOTP) de un usuario y sus códigos de recuperación.
+ *
+ * Se guarda aparte del usuario para que el secreto nunca viaje con los datos
+ * de perfil (listados de admin, /api/usuarios/yo, populate, etc.).
+ *
+ * Ciclo de vida:
+ * - Inscripción: se genera el secreto y se guarda sin confirmar.
+ * - Confirmación: el usuario ingresa un código de su app; recién ahí se habilita
+ *   y se emiten los códigos de recuperación.
+ * - Login: cada verificación cuenta como intento; al agotar DOS_FACTORES_MAX_INTENTOS
+ *   el segundo factor queda bloqueado durante DOS_FACTORES_BLOQUEO_MINUTOS.
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Código de recuperación de un solo uso (solo se guarda su hash).
+ */
+export interface CodigoRecuperacion {
+  hash: string;
+  usadoEn?: Date;
+}
+
+/**
+ * Interface TypeScript para el segundo factor.
+ */
+export interface ISegundoFactor extends Document {
+  usuarioId: Types.ObjectId;
+  secretoCifrado: string;
+  confirmado: boolean;
+  confirmadoEn?: Date;
+  ultimoPaso: number;
+  codigosRecuperacion: CodigoRecuperacion[];
+  intentosFallidos: number;
+  bloqueadoHasta?: Date;
+  creadoEn: Date;
+  actualizadoEn: Date;
+}
+
+/**
+ * Esquema Mongoose para el segundo factor.
+ */
+const segundoFactorSchema: Schema<ISegundoFactor> = new Schema(
+  {
+    /**
+     * Dueño del segundo factor. Único: un solo autenticador por usuario.
+     */
+    usuarioId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+      required: true,
+      unique: true,
+    },
+
+    /**
+     * Secreto TOTP cifrado con AES-256-GCM (ver utilidades/dosFactores.ts).
+     * Tiene que poder recuperarse para calcular los códigos: por eso se cifra, no se hashea.
+     */
+    secretoCifrado: {
+      type: String,
+      required: true,
+    },
+
+    /**
+     * false hasta que el usuario demuestra que cargó el secreto en su app.
+     * Un segundo factor sin confirmar no se exige en el login.
+     */
+    confirmado: {
+      type: Boolean,
+      default: false,
+    },
+    confirmadoEn: {
+      type: Date,
+    },
+
+    /**
+     * Último paso TOTP aceptado: un código ya usado no vuelve a aceptarse.
+     */
+    ultimoPaso: {
+      type: Number,
+      default: 0,
+    },
+
+    /**
+     * Códigos de recuperación (HMAC-SHA256). Cada uno sirve una sola vez.
+     */
+    codigosRecuperacion: [
+      {
+        _id: false,
+        hash: { type: String, required: true },
+        usadoEn: { type: Date },
+      },
+    ],
+
+    /**
+     * Intentos de verificación del login desde el último éxito.
+     * Se cuentan por usuario (no por IP ni por token pendiente): rotar de conexión
+     * o volver a pedir el SMS no da intentos nuevos.
+     */
+    intentosFallidos: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    /**
+     * Hasta cuándo no se acepta ningún código (ni siquiera uno correcto).
+     */
+    bloqueadoHasta: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: 'creadoEn', updatedAt: 'actualizadoEn' },
+  },
+);
+
+/**
+ * Compilación del modelo y exportación.
+ */
+export const SegundoFactor = mongoose.model<ISegundoFactor>('SegundoFactor', segundoFactorSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                    =======> Justificación
+//
+// colección separada           =======>	El secreto nunca se selecciona junto con el perfil del usuario
+// usuarioId unique             =======>	Un autenticador por usuario; reinscribirse reemplaza al no confirmado
+// secretoCifrado               =======>	Un volcado de la base no alcanza para generar códigos sin la clave del servidor
+// confirmado                   =======>	Evita dejar afuera al usuario si nunca terminó de cargar el secreto
+// ultimoPaso                   =======>	Impide reutilizar un código interceptado dentro de sus 30 segundos
+// codigosRecuperacion hasheados =======>	Se muestran una sola vez; en la base solo queda el hash y la fecha de uso
+// intentosFallidos por usuario =======>	Con el SMS en mano, adivinar el TOTP cambiando de IP o de token pendiente no suma intentos
+// bloqueadoHasta               =======>	Se fija en la misma operación que consume el último intento: no hay carrera entre requests
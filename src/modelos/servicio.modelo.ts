@@ -0,0 +1,332 @@
+/**
+ * servicio.modelo.ts
+ *
+ * Define el esquema de los servicios publicados por los prestadores.
+ * Cada servicio pertenece a un usuario (su dueño) y es lo que los usuarios finales
+ * buscan, consultan y contactan desde la plataforma.
+ */
+
+import mongoose, { Document, Types, Schema } from 'mongoose';
+
+/**
+ * Contadores acumulados de clicks por tipo.
+ * Se actualizan con $inc cada vez que se registra un click no duplicado.
+ */
+export interface ContadoresClicks {
+  llamada: number;
+  whatsapp: number;
+  vista: number;
+  total: number;
+}
+
+/**
+ * Punto geográfico en formato GeoJSON.
+ * Ojo: MongoDB espera las coordenadas en orden [longitud, latitud].
+ */
+export interface PuntoGeoJSON {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+/**
+ * Estados de moderación de un servicio.
+ * - pendiente: recién publicado o editado, todavía no es visible públicamente.
+ * - aprobado: revisado por un admin, aparece en las búsquedas.
+ * - rechazado: no cumple las normas; el dueño puede corregirlo y reenviarlo.
+ */
+export const ESTADOS_MODERACION = ['pendiente', 'aprobado', 'rechazado'] as const;
+export type EstadoModeracion = (typeof ESTADOS_MODERACION)[number];
+
+/**
+ * Entrada del historial de moderación.
+ * revisadoPor queda vacío cuando el cambio fue automático (ej: reenvío a revisión por edición).
+ */
+export interface EntradaModeracion {
+  estado: EstadoModeracion;
+  fecha: Date;
+  revisadoPor?: Types.ObjectId;
+  motivo?: string;
+}
+
+/**
+ * Interface de TypeScript para tipar un servicio.
+ * Extiende de Document para heredar métodos de Mongoose.
+ */
+export interface IServicio extends Document {
+  _id: Types.ObjectId;
+  usuarioId: Types.ObjectId;
+  titulo: string;
+  descripcion: string;
+  categoria: string;
+  zona: string;
+  precioMinimo?: number;
+  precioMaximo?: number;
+  telefonoContacto: string;
+  whatsapp?: string;
+  ubicacion?: PuntoGeoJSON;
+  radioCoberturaKm: number;
+  activo: boolean;
+  estadoModeracion: EstadoModeracion;
+  motivoRechazo?: string;
+  historialModeracion: EntradaModeracion[];
+  contadores: ContadoresClicks;
+  creadoEn: Date;
+  actualizadoEn: Date;
+}
+
+/**
+ * Subesquema GeoJSON Point.
+ * coordinates no tiene default: un array vacío rompería el índice 2dsphere
+ * en los servicios que no cargaron ubicación.
+ */
+const puntoSchema = new Schema<PuntoGeoJSON>(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      default: undefined,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * Subesquema de cada entrada del historial de moderación.
+ */
+const entradaModeracionSchema = new Schema<EntradaModeracion>(
+  {
+    estado: {
+      type: String,
+      enum: ESTADOS_MODERACION,
+      required: true,
+    },
+    fecha: {
+      type: Date,
+      default: Date.now,
+    },
+    revisadoPor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+    motivo: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * Esquema de Mongoose para la colección de servicios.
+ */
+const servicioSchema: Schema<IServicio> = new Schema(
+  {
+    /**
+     * Usuario dueño del servicio (el prestador que lo publicó).
+     * Solo él (o un admin) puede modificarlo o eliminarlo.
+     */
+    usuarioId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+      required: [true, 'El servicio debe pertenecer a un usuario'],
+      index: true,
+    },
+
+    /**
+     * Título corto que se muestra en los listados.
+     */
+    titulo: {
+      type: String,
+      required: [true, 'El título es obligatorio'],
+      trim: true,
+      maxlength: 100,
+    },
+
+    /**
+     * Descripción detallada del servicio ofrecido.
+     */
+    descripcion: {
+      type: String,
+      required: [true, 'La descripción es obligatoria'],
+      trim: true,
+      maxlength: 2000,
+    },
+
+    /**
+     * Categoría del servicio (ej: plomeria, electricidad).
+     * Se guarda en minúsculas para que los filtros no dependan de mayúsculas.
+     */
+    categoria: {
+      type: String,
+      required: [true, 'La categoría es obligatoria'],
+      trim: true,
+      lowercase: true,
+    },
+
+    /**
+     * Zona o barrio donde el prestador ofrece el servicio.
+     */
+    zona: {
+      type: String,
+      required: [true, 'La zona es obligatoria'],
+      trim: true,
+      lowercase: true,
+    },
+
+    /**
+     * Rango de precio orientativo.
+     * Ambos son opcionales: hay servicios que se presupuestan a medida.
+     */
+    precioMinimo: {
+      type: Number,
+      min: 0,
+    },
+    precioMaximo: {
+      type: Number,
+      min: 0,
+    },
+
+    /**
+     * Teléfono de contacto en formato E.164 (ej: +34600111222).
+     */
+    telefonoContacto: {
+      type: String,
+      required: [true, 'El teléfono de contacto es obligatorio'],
+      trim: true,
+    },
+
+    /**
+     * Número de WhatsApp (opcional). Puede diferir del teléfono de contacto.
+     */
+    whatsapp: {
+      type: String,
+      trim: true,
+    },
+
+    /**
+     * Ubicación base del prestador (GeoJSON Point).
+     * Es opcional: los servicios sin ubicación no aparecen en la búsqueda "cerca mío".
+     */
+    ubicacion: {
+      type: puntoSchema,
+    },
+
+    /**
+     * Radio (en km) hasta donde el prestador se traslada desde su ubicación.
+     * Un servicio solo aparece en "cerca mío" si el usuario está dentro de este radio.
+     */
+    radioCoberturaKm: {
+      type: Number,
+      min: 0,
+      max: 500,
+      default: 10,
+    },
+
+    /**
+     * Permite al prestador pausar la publicación sin eliminarla.
+     */
+    activo: {
+      type: Boolean,
+      default: true,
+    },
+
+    /**
+     * Estado de moderación. Todo servicio nuevo arranca pendiente de revisión
+     * y no aparece en las búsquedas públicas hasta que un admin lo aprueba.
+     */
+    estadoModeracion: {
+      type: String,
+      enum: ESTADOS_MODERACION,
+      default: 'pendiente',
+      index: true,
+    },
+
+    /**
+     * Motivo del último rechazo (se muestra al dueño para que corrija la publicación).
+     */
+    motivoRechazo: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+
+    /**
+     * Historial de cambios de estado: quién revisó, cuándo y por qué.
+     */
+    historialModeracion: {
+      type: [entradaModeracionSchema],
+      default: [],
+    },
+
+    /**
+     * Contadores de clicks desnormalizados.
+     * Evitan recorrer la colección de clicks para mostrar totales u ordenar por popularidad.
+     * No se pueden editar desde la API: solo los modifica el registro de clicks.
+     */
+    contadores: {
+      llamada: { type: Number, default: 0 },
+      whatsapp: { type: Number, default: 0 },
+      vista: { type: Number, default: 0 },
+      total: { type: Number, default: 0 },
+    },
+  },
+  {
+    timestamps: { createdAt: 'creadoEn', updatedAt: 'actualizadoEn' },
+  },
+);
+
+/**
+ * Validación de consistencia del rango de precios.
+ * Se ejecuta además de la validación de Zod, por si el documento se crea desde otro lado.
+ */
+servicioSchema.pre('validate', function (next) {
+  if (this.precioMinimo != null && this.precioMaximo != null && this.precioMinimo > this.precioMaximo) {
+    this.invalidate('precioMaximo', 'El precio máximo no puede ser menor al precio mínimo');
+  }
+  next();
+});
+
+/**
+ * Índice compuesto para los listados más frecuentes (por categoría y zona).
+ */
+servicioSchema.index({ categoria: 1, zona: 1, activo: 1 });
+
+/**
+ * Índice geoespacial para las búsquedas por cercanía ($geoNear).
+ */
+servicioSchema.index({ ubicacion: '2dsphere' });
+
+/**
+ * Índice de texto para la búsqueda libre (parámetro q).
+ * El título pesa más que la descripción y se usan las reglas de stemming del español.
+ */
+servicioSchema.index(
+  { titulo: 'text', descripcion: 'text' },
+  { weights: { titulo: 5, descripcion: 1 }, default_language: 'spanish', name: 'busqueda_texto' },
+);
+
+/**
+ * Exportamos el modelo compilado.
+ */
+export const Servicio = mongoose.model<IServicio>('Servicio', servicioSchema);
+
+// Justificación de cada decisión técnica:
+//
+// Elemento	                           =======> Justificación
+//
+// usuarioId indexado                  =======>	Consultas frecuentes de "mis servicios" y control de dueño
+// categoria/zona en minúsculas        =======>	Filtros consistentes sin depender de cómo escribió el prestador
+// precioMinimo/precioMaximo opcionales=======>	Hay servicios que solo se presupuestan a medida
+// activo                              =======>	Pausar una publicación sin perder su historial
+// estadoModeracion + historial        =======>	Nada se publica sin revisión y queda registro de cada decisión
+// contadores desnormalizados          =======>	Totales y orden por popularidad sin agregar la colección de clicks
+// ubicacion GeoJSON + 2dsphere       =======>	Búsqueda "cerca mío" con $geoNear y distancia real sobre la esfera
+// radioCoberturaKm                    =======>	Cada prestador define hasta dónde se traslada
+// índice de texto en español         =======>	Búsqueda libre con stemming ("plomero" encuentra "plomería")
+// timestamps renombrados              =======>	Consistente con el resto de modelos (creadoEn/actualizadoEn)
@@ -7,6 +7,14 @@
 
 import mongoose, { Document, Types, Schema } from 'mongoose';
 
+/**
+ * Roles disponibles.
+ * Se exporta para reutilizarlo en validaciones (ej: cambio de rol desde el panel de admin).
+ * Los permisos de cada rol se definen en config/roles.ts.
+ */
+export const ROLES_USUARIO = ['usuario', 'prestador', 'moderador', 'soporte', 'admin'] as const;
+export type RolUsuario = (typeof ROLES_USUARIO)[number];
+
 /**
  * Interface de TypeScript para tipar un usuario.
  * Extiende de Document para heredar métodos de Mongoose.
@@ -15,7 +23,17 @@ export interface IUsuario extends Document {
   _id: Types.ObjectId;
   telefono: string;
   estaVerificado: boolean;
-  rol: 'usuario' | 'admin'; // extensible si se agregan más roles
+  rol: RolUsuario; // sus permisos están en config/roles.ts
+  nombre?: string;
+  avatarUrl?: string;
+  email?: string;
+  zonaPreferida?: string;
+  esPrestador: boolean;
+  suspendido: boolean;
+  motivoSuspension?: string;
+  suspendidoEn?: Date;
+  suspendidoPor?: Types.ObjectId;
+  versionToken: number;
   creadoEn: Date;
   actualizadoEn: Date;
 }
@@ -54,13 +72,92 @@ const usuarioSchema: Schema<IUsuario> = new Schema(
 
     /**
      * Rol del usuario en la aplicación.
-     * Por defecto es 'usuario', pero se puede asignar 'admin' desde el backend.
+     * Por defecto es 'usuario'; los demás se asignan desde el panel de admin.
      */
     rol: {
       type: String,
-      enum: ['usuario', 'admin'],
+      enum: ROLES_USUARIO,
       default: 'usuario',
     },
+
+    /**
+     * Nombre visible del usuario (opcional).
+     */
+    nombre: {
+      type: String,
+      trim: true,
+      maxlength: 60,
+    },
+
+    /**
+     * URL de la foto de perfil (la imagen se aloja fuera del backend).
+     */
+    avatarUrl: {
+      type: String,
+      trim: true,
+    },
+
+    /**
+     * Email opcional, solo para comunicaciones (la autenticación sigue siendo por teléfono).
+     * sparse: el índice único ignora a los usuarios que no cargaron email.
+     */
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      unique: true,
+      sparse: true,
+    },
+
+    /**
+     * Zona donde el usuario suele buscar servicios (se usa como filtro por defecto).
+     */
+    zonaPreferida: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+
+    /**
+     * true si el usuario ofrece servicios (prestador), false si solo los busca (cliente).
+     */
+    esPrestador: {
+      type: Boolean,
+      default: false,
+    },
+
+    /**
+     * Suspensión de la cuenta por parte de un moderador.
+     * Un usuario suspendido no puede usar sus tokens ni obtener nuevos.
+     */
+    suspendido: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+    motivoSuspension: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    suspendidoEn: {
+      type: Date,
+    },
+    suspendidoPor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Usuario',
+    },
+
+    /**
+     * Versión de los tokens de acceso del usuario.
+     * Cada JWT lleva la versión vigente al emitirse; incrementarla
+     * invalida de una vez todos los tokens ya emitidos (ver autenticarJWT).
+     */
+    versionToken: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
   },
   {
     /**
@@ -87,6 +184,10 @@ export const Usuario = mongoose.model<IUsuario>('Usuario', usuarioSchema);
 //
 // telefono: unique + lowercase + trim =======>	Evita duplicados como +34600111222 vs +34600111222
 // estaVerificado                      =======>	Controla si puede loguearse correctamente
-// rol con enum                        =======>	Abre la puerta a más roles futuros con seguridad
+// rol con enum                        =======>	Solo roles conocidos; los permisos se resuelven por rol, no por usuario
+// email unique + sparse               =======>	Opcional, pero si se carga no puede repetirse entre usuarios
+// esPrestador                         =======>	Distingue prestadores de clientes sin mezclarlo con los roles de permisos
+// suspendido + motivo/fecha/autor     =======>	Bloqueo reversible de cuentas con trazabilidad mínima
+// versionToken                        =======>	Invalida todos los access tokens del usuario sin esperar a que expiren
 // timestamps renombrados              =======>	Profesionalismo: creadoEn y actualizadoEn en español
 // Interface IUsuario                  =======>	Evita any, permite tipado estricto en controladores
\ No newline at end of file
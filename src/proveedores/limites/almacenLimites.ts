@@ -0,0 +1,34 @@
+/**
+ * src/proveedores/limites/almacenLimites.ts
+ *
+ * Contrato común de los almacenes de contadores del rate limiting.
+ *
+ * rateLimit.middleware.ts solo conoce esta interfaz:
+ * - En una sola instancia alcanza con AlmacenLimitesCache (NodeCache, en memoria).
+ * - Con varias instancias detrás de un balanceador, los contadores deben
+ *   compartirse: se implementa esta interfaz sobre un almacén común (ej: Redis)
+ *   y se registra al arrancar con configurarAlmacenLimites().
+ */
+
+/**
+ * Estado de un contador después de incrementarlo.
+ *
+ * - total: solicitudes contadas en la ventana actual (incluida la actual)
+ * - reiniciaEn: momento en que la ventana termina y el contador vuelve a cero
+ */
+export interface ResultadoConteo {
+  total: number;
+  reiniciaEn: Date;
+}
+
+/**
+ * AlmacenLimites
+ *
+ * - incrementar: suma una solicitud a la clave; si la ventana venció, abre una nueva.
+ *   Debe ser atómico en almacenes compartidos.
+ * - reiniciar: vuelve el contador de la clave a cero.
+ */
+export interface AlmacenLimites {
+  incrementar(clave: string, ventanaSegundos: number): Promise<ResultadoConteo>;
+  reiniciar(clave: string): Promise<void>;
+}
@@ -0,0 +1,49 @@
+/**
+ * src/proveedores/limites/cache.almacen.ts
+ *
+ * Almacén de contadores de rate limiting sobre la NodeCache de config/cache.ts.
+ *
+ * Ventana fija: el primer request abre la ventana y los siguientes suman
+ * hasta que vence. Los contadores viven en la RAM del proceso, por lo que
+ * solo sirven para despliegues de una sola instancia.
+ */
+
+import NodeCache from 'node-cache';
+import { cache } from '../../config/cache';
+import { AlmacenLimites, ResultadoConteo } from './almacenLimites';
+
+/**
+ * Prefijo de las claves, para no mezclarlas con otros usos de la cache.
+ */
+const PREFIJO = 'limite:';
+
+/**
+ * Entrada guardada por clave (reiniciaEn en milisegundos).
+ */
+interface EntradaConteo {
+  total: number;
+  reiniciaEn: number;
+}
+
+export class AlmacenLimitesCache implements AlmacenLimites {
+  constructor(private readonly almacen: NodeCache = cache) {}
+
+  async incrementar(clave: string, ventanaSegundos: number): Promise<ResultadoConteo> {
+    const ahora = Date.now();
+    const existente = this.almacen.get<EntradaConteo>(PREFIJO + clave);
+
+    const entrada: EntradaConteo =
+      existente && existente.reiniciaEn > ahora
+        ? { total: existente.total + 1, reiniciaEn: existente.reiniciaEn }
+        : { total: 1, reiniciaEn: ahora + ventanaSegundos * 1000 };
+
+    // NodeCache guarda copias: se vuelve a guardar con el TTL que le queda a la ventana
+    this.almacen.set(PREFIJO + clave, entrada, Math.ceil((entrada.reiniciaEn - ahora) / 1000));
+
+    return { total: entrada.total, reiniciaEn: new Date(entrada.reiniciaEn) };
+  }
+
+  async reiniciar(clave: string): Promise<void> {
+    this.almacen.del(PREFIJO + clave);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * src/proveedores/revocacion/cache.lista.ts
+ *
+ * Lista de tokens revocados sobre la NodeCache de config/cache.ts.
+ *
+ * Cada jti se guarda con un TTL igual a lo que le queda de vida al token,
+ * así la lista nunca crece más allá de los tokens todavía vigentes.
+ * Vive en la RAM del proceso: solo sirve para despliegues de una sola instancia.
+ */
+
+import NodeCache from 'node-cache';
+import { cache } from '../../config/cache';
+import { ListaRevocacion } from './listaRevocacion';
+
+/**
+ * Prefijo de las claves, para no mezclarlas con otros usos de la cache.
+ */
+const PREFIJO = 'revocado:';
+
+export class ListaRevocacionCache implements ListaRevocacion {
+  constructor(private readonly almacen: NodeCache = cache) {}
+
+  async revocar(jti: string, expiraEn: Date): Promise<void> {
+    const segundosRestantes = Math.ceil((expiraEn.getTime() - Date.now()) / 1000);
+
+    // Un token ya vencido no necesita entrar en la lista
+    if (segundosRestantes <= 0) return;
+
+    this.almacen.set(PREFIJO + jti, true, segundosRestantes);
+  }
+
+  async estaRevocado(jti: string): Promise<boolean> {
+    return this.almacen.has(PREFIJO + jti);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * src/proveedores/revocacion/listaRevocacion.ts
+ *
+ * Contrato común de las listas de tokens de acceso revocados (denylist).
+ *
+ * auth.middleware.ts y el logout solo conocen esta interfaz:
+ * - En una sola instancia alcanza con ListaRevocacionCache (NodeCache, en memoria).
+ * - Con varias instancias, un logout debe verse en todas: se implementa esta
+ *   interfaz sobre un almacén compartido (ej: Redis) y se registra al arrancar
+ *   con configurarListaRevocacion() (ver config/revocacion.ts).
+ */
+
+/**
+ * ListaRevocacion
+ *
+ * - revocar: agrega el jti de un token hasta su vencimiento.
+ *   Pasado ese momento el token ya es inválido por sí mismo y la entrada puede borrarse.
+ * - estaRevocado: indica si el jti fue revocado.
+ */
+export interface ListaRevocacion {
+  revocar(jti: string, expiraEn: Date): Promise<void>;
+  estaRevocado(jti: string): Promise<boolean>;
+}
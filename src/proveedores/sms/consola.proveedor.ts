@@ -0,0 +1,32 @@
+/**
+ * src/proveedores/sms/consola.proveedor.ts
+ *
+ * Proveedor de SMS para desarrollo local sin Twilio.
+ *
+ * No envía nada: escribe cada mensaje en el logger y lo agrega a un archivo
+ * (por defecto logs/sms.log) para poder leer los códigos de verificación.
+ * En el logger el código sale enmascarado (ver utilidades/redaccionLogs.ts): se lee del archivo.
+ * config/variables.ts impide usarlo en producción.
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from '../../config/logger';
+import { ProveedorSMS } from './proveedorSMS';
+
+export class ProveedorSMSConsola implements ProveedorSMS {
+  readonly nombre = 'consola';
+
+  constructor(private readonly archivo: string) {}
+
+  async enviar(destinatario: string, mensaje: string): Promise<void> {
+    logger.info(`[SMS ${this.nombre}] ${destinatario}: ${mensaje}`);
+
+    await mkdir(dirname(this.archivo), { recursive: true });
+    await appendFile(this.archivo, `${new Date().toISOString()} ${destinatario} ${mensaje}\n`, 'utf8');
+  }
+
+  estaConfigurado(): boolean {
+    return true;
+  }
+}
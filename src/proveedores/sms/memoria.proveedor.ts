@@ -0,0 +1,55 @@
+/**
+ * src/proveedores/sms/memoria.proveedor.ts
+ *
+ * Proveedor de SMS en memoria, pensado para los tests.
+ *
+ * Guarda los mensajes "enviados" para que las pruebas puedan leerlos:
+ *
+ *   import { smsEnMemoria } from "../proveedores/sms/memoria.proveedor";
+ *   const sms = smsEnMemoria.ultimoMensajePara("+5491112345678");
+ */
+
+import { ProveedorSMS } from './proveedorSMS';
+
+/**
+ * Mensaje registrado por el proveedor en memoria.
+ */
+export interface MensajeSMS {
+  destinatario: string;
+  mensaje: string;
+  enviadoEn: Date;
+}
+
+export class ProveedorSMSMemoria implements ProveedorSMS {
+  readonly nombre = 'memoria';
+
+  readonly mensajes: MensajeSMS[] = [];
+
+  async enviar(destinatario: string, mensaje: string): Promise<void> {
+    this.mensajes.push({ destinatario, mensaje, enviadoEn: new Date() });
+  }
+
+  estaConfigurado(): boolean {
+    return true;
+  }
+
+  /**
+   * Último mensaje enviado a un teléfono (o undefined si no recibió ninguno).
+   */
+  ultimoMensajePara(destinatario: string): MensajeSMS | undefined {
+    return this.mensajes.filter((sms) => sms.destinatario === destinatario).pop();
+  }
+
+  /**
+   * Vacía la bandeja (ej: en un afterEach).
+   */
+  limpiar(): void {
+    this.mensajes.length = 0;
+  }
+}
+
+/**
+ * Instancia única: es la que usa config/sms.ts cuando SMS_PROVEEDOR=memoria,
+ * así los tests inspeccionan exactamente los mensajes que envió la API.
+ */
+export const smsEnMemoria = new ProveedorSMSMemoria();
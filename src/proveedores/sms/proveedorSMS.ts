@@ -0,0 +1,21 @@
+/**
+ * src/proveedores/sms/proveedorSMS.ts
+ *
+ * Contrato común de los proveedores de SMS.
+ *
+ * enviarSMS() solo conoce esta interfaz: el proveedor concreto
+ * (Twilio, consola o memoria) se elige en src/config/sms.ts según SMS_PROVEEDOR.
+ */
+
+/**
+ * ProveedorSMS
+ *
+ * - nombre: identificador del proveedor (para logs y diagnóstico)
+ * - enviar: entrega el mensaje o lanza un error si no pudo hacerlo
+ * - estaConfigurado: indica si tiene lo necesario para enviar (lo consulta GET /health/ready)
+ */
+export interface ProveedorSMS {
+  readonly nombre: string;
+  enviar(destinatario: string, mensaje: string): Promise<void>;
+  estaConfigurado(): boolean;
+}
@@ -0,0 +1,29 @@
+/**
+ * src/proveedores/sms/twilio.proveedor.ts
+ *
+ * Proveedor de SMS real, a través de la API de mensajes de Twilio.
+ */
+
+import { getTwilioClient } from '../../config/twilio';
+import { env } from '../../config/variables';
+import { ProveedorSMS } from './proveedorSMS';
+
+export class ProveedorSMSTwilio implements ProveedorSMS {
+  readonly nombre = 'twilio';
+
+  async enviar(destinatario: string, mensaje: string): Promise<void> {
+    // El cliente se crea recién en el primer envío (ver config/twilio.ts)
+    const client = getTwilioClient();
+
+    await client.messages.create({
+      body: mensaje, // Texto del SMS
+      from: env.TWILIO_PHONE_NUMBER, // Número configurado en Twilio
+      to: destinatario, // Destinatario en formato E.164
+    });
+  }
+
+  // Sin credenciales ni número de origen no se puede enviar
+  estaConfigurado(): boolean {
+    return Boolean(env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_PHONE_NUMBER);
+  }
+}
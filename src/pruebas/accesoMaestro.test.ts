@@ -0,0 +1,138 @@
+/**
+ * src/pruebas/accesoMaestro.test.ts
+ *
+ * Pruebas del acceso maestro (/api/autenticacion/acceso-maestro):
+ * TOTP, lista de IPs permitidas, bloqueo por intentos fallidos y auditoría.
+ * Las de integración usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { env } from '../config/variables';
+import { IntentoAccesoMaestro } from '../modelos/intentoAccesoMaestro.modelo';
+import { Usuario } from '../modelos/usuario.modelo';
+import { generarCodigoTOTP, pasoTOTP, verificarCodigoTOTP } from '../utilidades/totp';
+import { ipPermitidaAccesoMaestro } from '../utilidades/accesoMaestro';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba } from './utilidadesPrueba';
+
+// Secreto de los vectores de prueba del RFC 6238 ("12345678901234567890" en base32)
+const SECRETO_RFC = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const credenciales = (cambios: Partial<{ codigo: string; codigoTOTP: string }> = {}) => ({
+  codigo: env.CODIGO_MAESTRO,
+  codigoTOTP: generarCodigoTOTP(env.ACCESO_MAESTRO_TOTP_SECRETO!),
+  ...cambios,
+});
+
+const accederConMaestro = (cuerpo: object) =>
+  request(app).post('/api/autenticacion/acceso-maestro').set('User-Agent', 'Pruebas/Admin').send(cuerpo);
+
+describe('TOTP', () => {
+  it('genera los códigos de los vectores del RFC 6238', () => {
+    expect(generarCodigoTOTP(SECRETO_RFC, pasoTOTP(new Date(59 * 1000)))).toBe('287082');
+    expect(generarCodigoTOTP(SECRETO_RFC, pasoTOTP(new Date(1111111109 * 1000)))).toBe('081804');
+  });
+
+  it('acepta el código del paso actual y de los vecinos, pero no otros', () => {
+    const actual = pasoTOTP();
+
+    expect(verificarCodigoTOTP(SECRETO_RFC, generarCodigoTOTP(SECRETO_RFC, actual))).toBe(actual);
+    expect(verificarCodigoTOTP(SECRETO_RFC, generarCodigoTOTP(SECRETO_RFC, actual - 1))).toBe(actual - 1);
+    expect(verificarCodigoTOTP(SECRETO_RFC, generarCodigoTOTP(SECRETO_RFC, actual - 5))).toBeNull();
+  });
+});
+
+describe('ipPermitidaAccesoMaestro', () => {
+  it('admite IPs sueltas y rangos CIDR, incluidas IPv4 mapeadas en IPv6', () => {
+    const permitidas = ['203.0.113.10', '10.0.0.0/8', '2001:db8::/32'];
+
+    expect(ipPermitidaAccesoMaestro('203.0.113.10', permitidas)).toBe(true);
+    expect(ipPermitidaAccesoMaestro('::ffff:10.20.30.40', permitidas)).toBe(true);
+    expect(ipPermitidaAccesoMaestro('2001:db8::1', permitidas)).toBe(true);
+    expect(ipPermitidaAccesoMaestro('203.0.113.11', permitidas)).toBe(false);
+    expect(ipPermitidaAccesoMaestro(undefined, permitidas)).toBe(false);
+  });
+
+  it('sin lista configurada admite cualquier IP', () => {
+    expect(ipPermitidaAccesoMaestro('198.51.100.7', [])).toBe(true);
+  });
+});
+
+describe('POST /api/autenticacion/acceso-maestro', () => {
+  beforeAll(conectarBDPrueba);
+  afterEach(limpiarBDPrueba);
+  afterAll(desconectarBDPrueba);
+
+  it('crea el admin con código maestro y TOTP válidos y audita el acceso', async () => {
+    const res = await accederConMaestro(credenciales());
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.usuario.rol).toBe('admin');
+    expect(await Usuario.countDocuments({ telefono: env.TELEFONO_ADMIN })).toBe(1);
+
+    const intento = await IntentoAccesoMaestro.findOne().lean();
+    expect(intento).toMatchObject({ resultado: 'exitoso', adminCreado: true, userAgent: 'Pruebas/Admin' });
+    expect(intento!.ip).toBeDefined();
+  });
+
+  it('exige el segundo factor aunque el código maestro sea correcto', async () => {
+    const sinTOTP = await accederConMaestro({ codigo: env.CODIGO_MAESTRO });
+    expect(sinTOTP.status).toBe(400);
+
+    const res = await accederConMaestro(credenciales({ codigoTOTP: '000000' }));
+
+    expect(res.status).toBe(401);
+    expect(res.body.codigo).toBe('CODIGO_MAESTRO_INVALIDO');
+    expect(await IntentoAccesoMaestro.findOne().lean()).toMatchObject({
+      resultado: 'fallido',
+      motivo: 'TOTP_INVALIDO',
+    });
+  });
+
+  it('no guarda los códigos recibidos en la auditoría', async () => {
+    await accederConMaestro(credenciales({ codigo: 'codigo-equivocado' }));
+
+    const intento = await IntentoAccesoMaestro.findOne().lean();
+    expect(intento!.motivo).toBe('CODIGO_INVALIDO');
+    expect(JSON.stringify(intento)).not.toContain('codigo-equivocado');
+  });
+
+  it('rechaza reutilizar un código TOTP ya aceptado', async () => {
+    const cuerpo = credenciales();
+
+    await accederConMaestro(cuerpo);
+    const res = await accederConMaestro(cuerpo);
+
+    expect(res.status).toBe(401);
+    expect(await IntentoAccesoMaestro.findOne({ resultado: 'fallido' }).lean()).toMatchObject({
+      motivo: 'TOTP_REUTILIZADO',
+    });
+  });
+
+  it('bloquea el acceso tras agotar los intentos, incluso con credenciales válidas', async () => {
+    for (let intento = 0; intento < env.ACCESO_MAESTRO_MAX_INTENTOS; intento++) {
+      await accederConMaestro(credenciales({ codigo: 'codigo-equivocado' }));
+    }
+
+    const res = await accederConMaestro(credenciales());
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('ACCESO_MAESTRO_BLOQUEADO');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(await IntentoAccesoMaestro.countDocuments({ motivo: 'BLOQUEADO' })).toBe(1);
+    expect(await Usuario.countDocuments()).toBe(0);
+  });
+
+  it('no compara más intentos que el máximo aunque lleguen en paralelo', async () => {
+    // Dos de más, sin pasar el rate limit por IP de la ruta
+    const cantidad = env.ACCESO_MAESTRO_MAX_INTENTOS + 2;
+
+    const respuestas = await Promise.all(
+      Array.from({ length: cantidad }, () => accederConMaestro(credenciales({ codigo: 'codigo-equivocado' }))),
+    );
+
+    expect(respuestas.filter((res) => res.status === 401)).toHaveLength(env.ACCESO_MAESTRO_MAX_INTENTOS);
+    expect(respuestas.filter((res) => res.body.codigo === 'ACCESO_MAESTRO_BLOQUEADO')).toHaveLength(2);
+    expect(await IntentoAccesoMaestro.countDocuments({ resultado: 'fallido' })).toBe(env.ACCESO_MAESTRO_MAX_INTENTOS);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * src/pruebas/auditoria.test.ts
+ *
+ * Pruebas del registro de auditoría: cálculo de cambios, exportación CSV,
+ * escritura desde las acciones del panel y consulta (GET /api/admin/auditoria).
+ * Las de integración usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import { Types } from 'mongoose';
+import app from '../app';
+import { RegistroAuditoria } from '../modelos/registroAuditoria.modelo';
+import { calcularCambios } from '../utilidades/auditoria';
+import { generarCSV } from '../utilidades/csv';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba, crearUsuarioConToken } from './utilidadesPrueba';
+
+describe('calcularCambios', () => {
+  it('devuelve solo los campos que cambiaron', () => {
+    const cambios = calcularCambios({ rol: 'usuario', nombre: 'Ana' }, { rol: 'moderador', nombre: 'Ana' }, [
+      'rol',
+      'nombre',
+    ]);
+
+    expect(cambios).toEqual({ antes: { rol: 'usuario' }, despues: { rol: 'moderador' } });
+  });
+
+  it('devuelve undefined si no hubo cambios', () => {
+    expect(calcularCambios({ rol: 'admin' }, { rol: 'admin' }, ['rol'])).toBeUndefined();
+  });
+});
+
+describe('generarCSV', () => {
+  it('escapa comillas, comas y saltos de línea y neutraliza fórmulas', () => {
+    const csv = generarCSV(
+      [
+        { encabezado: 'texto', valor: (fila: { texto: string }) => fila.texto },
+        { encabezado: 'largo', valor: (fila: { texto: string }) => fila.texto.length },
+      ],
+      [{ texto: 'dijo "hola", chau' }, { texto: '=HYPERLINK("http://malicioso")' }],
+    );
+
+    expect(csv).toBe('\uFEFFtexto,largo\r\n"dijo ""hola"", chau",17\r\n"\'=HYPERLINK(""http://malicioso"")",30\r\n');
+  });
+});
+
+describe('generarCSV con ObjectId y fechas', () => {
+  it('exporta el texto del ObjectId y la fecha ISO, sin comillas de JSON', () => {
+    const id = new Types.ObjectId();
+    const fecha = new Date('2025-03-10T12:00:00.000Z');
+
+    const csv = generarCSV(
+      [
+        { encabezado: 'id', valor: (fila: { id: Types.ObjectId; fecha: Date }) => fila.id },
+        { encabezado: 'fecha', valor: (fila: { id: Types.ObjectId; fecha: Date }) => fila.fecha },
+        { encabezado: 'metadatos', valor: (fila: { id: Types.ObjectId; fecha: Date }) => ({ id: fila.id }) },
+      ],
+      [{ id, fecha }],
+    );
+
+    expect(csv.split('\r\n')[1]).toBe(`${id},2025-03-10T12:00:00.000Z,"{""id"":""${id}""}"`);
+  });
+});
+
+describe('/api/admin/auditoria', () => {
+  beforeAll(conectarBDPrueba);
+  afterEach(limpiarBDPrueba);
+  afterAll(desconectarBDPrueba);
+
+  it('registra la suspensión con actor, cambios y metadatos', async () => {
+    const { usuario: admin, token } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario } = await crearUsuarioConToken();
+
+    await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/suspender`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('User-Agent', 'panel-admin')
+      .send({ motivo: 'Publicaciones fraudulentas' });
+
+    const registro = await RegistroAuditoria.findOne({ accion: 'usuario.suspendido' }).lean();
+
+    expect(registro!.actorId!.equals(admin._id)).toBe(true);
+    expect(registro!.actorRol).toBe('admin');
+    expect(registro!.objetivoId).toBe(usuario._id.toString());
+    expect(registro!.cambios!.antes.suspendido).toBe(false);
+    expect(registro!.cambios!.despues.motivoSuspension).toBe('Publicaciones fraudulentas');
+    expect(registro!.userAgent).toBe('panel-admin');
+  });
+
+  it('filtra por acción y objetivo', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario } = await crearUsuarioConToken();
+    const { usuario: otro } = await crearUsuarioConToken();
+
+    await request(app)
+      .patch(`/api/admin/usuarios/${usuario._id}/rol`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ rol: 'soporte' });
+    await request(app).post(`/api/admin/usuarios/${otro._id}/cerrar-sesiones`).set('Authorization', `Bearer ${token}`);
+
+    const res = await request(app)
+      .get('/api/admin/auditoria')
+      .query({ accion: 'usuario.rol_cambiado', objetivoId: usuario._id.toString() })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.registros).toHaveLength(1);
+    expect(res.body.datos.registros[0].cambios).toEqual({ antes: { rol: 'usuario' }, despues: { rol: 'soporte' } });
+  });
+
+  it('exporta a CSV', async () => {
+    const { usuario: admin, token } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario } = await crearUsuarioConToken();
+    await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/cerrar-sesiones`)
+      .set('Authorization', `Bearer ${token}`);
+
+    const res = await request(app)
+      .get('/api/admin/auditoria')
+      .query({ formato: 'csv' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.headers['x-total-registros']).toBe('1');
+    expect(res.text.split('\r\n')[0]).toBe(
+      '\uFEFFfecha,actorId,actorRol,accion,objetivoTipo,objetivoId,antes,despues,metadatos,ip,userAgent,requestId',
+    );
+    const fila = res.text.split('\r\n')[1].split(',');
+    expect(fila.slice(1, 6)).toEqual([
+      admin._id.toString(),
+      'admin',
+      'usuario.sesiones_cerradas',
+      'usuario',
+      usuario._id.toString(),
+    ]);
+  });
+
+  it('no está disponible sin el permiso auditoria:ver', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'soporte' });
+
+    const res = await request(app).get('/api/admin/auditoria').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('rechaza modificar o borrar entradas', async () => {
+    const registro = await RegistroAuditoria.create({ accion: 'sesion.cerrada', objetivoTipo: 'sesion' });
+
+    await expect(RegistroAuditoria.updateOne({ _id: registro._id }, { accion: 'sesion.logout' })).rejects.toThrow(
+      'solo agregado',
+    );
+    await expect(RegistroAuditoria.deleteMany({})).rejects.toThrow('solo agregado');
+
+    registro.objetivoId = 'otro';
+    await expect(registro.save()).rejects.toThrow('solo agregado');
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * src/pruebas/autenticacion.test.ts
+ *
+ * Pruebas de integración del flujo de autenticación (/api/autenticacion).
+ * Usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { Usuario } from '../modelos/usuario.modelo';
+import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { BloqueoVerificacion } from '../modelos/bloqueoVerificacion.modelo';
+import { smsEnMemoria } from '../proveedores/sms/memoria.proveedor';
+import { hashearCodigo, hashearRefreshToken } from '../utilidades/generarToken';
+import { comprobarCodigo } from '../utilidades/verificacionCodigo';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba } from './utilidadesPrueba';
+
+const telefono = '+5491112345678';
+
+beforeAll(conectarBDPrueba);
+afterEach(async () => {
+  smsEnMemoria.limpiar();
+  await limpiarBDPrueba();
+});
+afterAll(desconectarBDPrueba);
+
+describe('POST /api/autenticacion/registro', () => {
+  it('envía por SMS el código de verificación', async () => {
+    const res = await request(app).post('/api/autenticacion/registro').send({ telefono });
+
+    expect(res.status).toBe(200);
+
+    const sms = smsEnMemoria.ultimoMensajePara(telefono);
+    expect(sms).toBeDefined();
+    expect(sms!.mensaje).toMatch(/\d{6}/);
+  });
+
+  it('guarda el código hasheado, nunca en texto plano', async () => {
+    await request(app).post('/api/autenticacion/registro').send({ telefono });
+
+    const codigo = smsEnMemoria.ultimoMensajePara(telefono)!.mensaje.match(/\d{6}/)![0];
+    const guardado = await CodigoVerificacion.findOne({ telefono }).lean();
+
+    expect(guardado!.codigoHash).toBe(hashearCodigo(codigo));
+    expect(JSON.stringify(guardado)).not.toContain(codigo);
+  });
+
+  it('no envía códigos a un teléfono bloqueado', async () => {
+    const bloqueadoHasta = new Date(Date.now() + 15 * 60 * 1000);
+    await BloqueoVerificacion.create({ telefono, bloqueos: 1, bloqueadoHasta, expiraEn: bloqueadoHasta });
+
+    const res = await request(app).post('/api/autenticacion/registro').send({ telefono });
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('CODIGO_BLOQUEADO');
+    expect(smsEnMemoria.mensajes).toHaveLength(0);
+  });
+});
+
+describe('POST /api/autenticacion/verificar', () => {
+  it('informa los intentos restantes ante un código incorrecto', async () => {
+    await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+    const res = await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo: '000000' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('CODIGO_INVALIDO_O_EXPIRADO');
+    expect(res.body.datos.intentosRestantes).toBe(4);
+  });
+
+  it('invalida el código y bloquea el teléfono al agotar los intentos', async () => {
+    await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+    for (let i = 0; i < 4; i++) {
+      await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo: '000000' });
+    }
+    const res = await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo: '000000' });
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('CODIGO_BLOQUEADO');
+    expect(res.body.datos.reintentarEnSegundos).toBeGreaterThan(0);
+    expect(await CodigoVerificacion.countDocuments({ telefono })).toBe(0);
+
+    // Ni siquiera el código correcto sirve mientras dure el bloqueo
+    const conCodigoCorrecto = await request(app)
+      .post('/api/autenticacion/verificar')
+      .send({ telefono, codigo: '123456' });
+    expect(conCodigoCorrecto.body.codigo).toBe('CODIGO_BLOQUEADO');
+  });
+
+  it('no compara más intentos que el máximo aunque lleguen en paralelo', async () => {
+    await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+    // Se llama directo a comprobarCodigo: por HTTP el rate limit cortaría antes
+    const resultados = await Promise.all(Array.from({ length: 20 }, () => comprobarCodigo(telefono, '000000')));
+    const estados = resultados.map(({ estado }) => estado);
+
+    expect(estados.filter((estado) => estado === 'incorrecto')).toHaveLength(4);
+    expect(estados.filter((estado) => estado === 'valido')).toHaveLength(0);
+    expect(await BloqueoVerificacion.findOne({ telefono })).toMatchObject({ bloqueos: 1 });
+
+    // El código correcto ya no sirve: el teléfono quedó bloqueado
+    expect((await comprobarCodigo(telefono, '123456')).estado).toBe('bloqueado');
+  });
+
+  it('duplica la duración de bloqueos repetidos', async () => {
+    const agotarIntentos = async () => {
+      await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+      for (let i = 0; i < 5; i++) {
+        await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo: '000000' });
+      }
+    };
+
+    await agotarIntentos();
+    const primero = await BloqueoVerificacion.findOne({ telefono });
+
+    // Simulamos que el primer bloqueo ya terminó
+    await BloqueoVerificacion.updateOne({ telefono }, { bloqueadoHasta: new Date() });
+    await agotarIntentos();
+    const segundo = await BloqueoVerificacion.findOne({ telefono });
+
+    const duracion = (bloqueo: typeof primero) => bloqueo!.bloqueadoHasta.getTime() - Date.now();
+    expect(segundo!.bloqueos).toBe(2);
+    expect(duracion(segundo)).toBeGreaterThan(duracion(primero) * 1.5);
+  });
+});
+
+describe('POST /api/autenticacion/login', () => {
+  it('crea el usuario si no existe y devuelve JWT + refresh token', async () => {
+    await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+    const res = await request(app).post('/api/autenticacion/login').send({ telefono, codigo: '123456' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.token).toEqual(expect.any(String));
+    expect(res.body.datos.refreshToken).toEqual(expect.any(String));
+    expect(await Usuario.countDocuments({ telefono })).toBe(1);
+    expect(await RefreshToken.countDocuments()).toBe(1);
+  });
+
+  it('rechaza a un usuario suspendido aunque el código sea correcto', async () => {
+    await Usuario.create({ telefono, suspendido: true, motivoSuspension: 'Spam' });
+    await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+    const res = await request(app).post('/api/autenticacion/login').send({ telefono, codigo: '123456' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.codigo).toBe('USUARIO_SUSPENDIDO');
+    expect(await RefreshToken.countDocuments()).toBe(0);
+  });
+});
+
+/**
+ * Completa el login con un código válido y devuelve tokens de la nueva sesión.
+ */
+const iniciarSesion = async (dispositivo: string) => {
+  await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+  const res = await request(app)
+    .post('/api/autenticacion/login')
+    .set('User-Agent', `Pruebas/${dispositivo}`)
+    .send({ telefono, codigo: '123456', dispositivo });
+
+  return res.body.datos as { token: string; refreshToken: string };
+};
+
+describe('POST /api/autenticacion/refresh', () => {
+  it('rota el token dentro de la misma sesión conservando el dispositivo', async () => {
+    const { refreshToken } = await iniciarSesion('iPhone');
+    const sesionInicial = await RefreshToken.findOne().lean();
+
+    const res = await request(app).post('/api/autenticacion/refresh').send({ refreshToken });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.refreshToken).not.toBe(refreshToken);
+
+    const sesion = await RefreshToken.findOne().lean();
+    expect(sesion!._id.toString()).toBe(sesionInicial!._id.toString());
+    expect(sesion!.dispositivo).toBe('iPhone');
+    expect(sesion!.userAgent).toBe('Pruebas/iPhone');
+    expect(sesion!.ultimoUso.getTime()).toBeGreaterThanOrEqual(sesionInicial!.ultimoUso.getTime());
+    expect(await RefreshToken.countDocuments()).toBe(1);
+  });
+
+  it('guarda el refresh token hasheado, nunca en texto plano', async () => {
+    const { refreshToken } = await iniciarSesion('iPhone');
+
+    const sesion = await RefreshToken.findOne().lean();
+    expect(sesion!.tokenHash).toBe(hashearRefreshToken(refreshToken));
+    expect(JSON.stringify(sesion)).not.toContain(refreshToken);
+  });
+
+  it('revoca la familia completa si se reutiliza un token ya rotado', async () => {
+    const { refreshToken: tokenOriginal } = await iniciarSesion('iPhone');
+
+    const rotacion = await request(app).post('/api/autenticacion/refresh').send({ refreshToken: tokenOriginal });
+    const tokenNuevo = rotacion.body.datos.refreshToken;
+
+    // Un atacante presenta el token original (ya rotado)
+    const reutilizacion = await request(app).post('/api/autenticacion/refresh').send({ refreshToken: tokenOriginal });
+
+    expect(reutilizacion.status).toBe(401);
+    expect(reutilizacion.body.codigo).toBe('REFRESH_TOKEN_REUTILIZADO');
+    expect(await RefreshToken.countDocuments()).toBe(0);
+
+    // El token vigente de la familia tampoco sirve más
+    const conTokenNuevo = await request(app).post('/api/autenticacion/refresh').send({ refreshToken: tokenNuevo });
+    expect(conTokenNuevo.body.codigo).toBe('REFRESH_TOKEN_INVALIDO');
+  });
+
+  it('no afecta a otras sesiones del usuario al revocar una familia', async () => {
+    const { refreshToken: tokenIphone } = await iniciarSesion('iPhone');
+    await iniciarSesion('Notebook');
+
+    await request(app).post('/api/autenticacion/refresh').send({ refreshToken: tokenIphone });
+    await request(app).post('/api/autenticacion/refresh').send({ refreshToken: tokenIphone });
+
+    const restantes = await RefreshToken.find().lean();
+    expect(restantes.map((sesion) => sesion.dispositivo)).toEqual(['Notebook']);
+  });
+});
+
+describe('POST /api/autenticacion/logout', () => {
+  it('elimina la sesión y revoca el token de acceso', async () => {
+    const { token, refreshToken } = await iniciarSesion('iPhone');
+
+    const res = await request(app).post('/api/autenticacion/logout').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(await RefreshToken.countDocuments()).toBe(0);
+
+    const conTokenRevocado = await request(app)
+      .get('/api/autenticacion/sesiones')
+      .set('Authorization', `Bearer ${token}`);
+    expect(conTokenRevocado.status).toBe(401);
+    expect(conTokenRevocado.body.codigo).toBe('TOKEN_REVOCADO');
+
+    const refresh = await request(app).post('/api/autenticacion/refresh').send({ refreshToken });
+    expect(refresh.body.codigo).toBe('REFRESH_TOKEN_INVALIDO');
+  });
+
+  it('no cierra las demás sesiones del usuario', async () => {
+    const { token: tokenIphone } = await iniciarSesion('iPhone');
+    const { token: tokenNotebook } = await iniciarSesion('Notebook');
+
+    await request(app).post('/api/autenticacion/logout').set('Authorization', `Bearer ${tokenIphone}`);
+
+    const restantes = await RefreshToken.find().lean();
+    expect(restantes.map((sesion) => sesion.dispositivo)).toEqual(['Notebook']);
+
+    const res = await request(app).get('/api/autenticacion/sesiones').set('Authorization', `Bearer ${tokenNotebook}`);
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('/api/autenticacion/sesiones', () => {
+  it('lista las sesiones del usuario marcando la actual', async () => {
+    await iniciarSesion('iPhone');
+    const { token } = await iniciarSesion('Notebook');
+
+    const res = await request(app).get('/api/autenticacion/sesiones').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos).toHaveLength(2);
+    expect(res.body.datos.find((sesion: { actual: boolean }) => sesion.actual).dispositivo).toBe('Notebook');
+    expect(JSON.stringify(res.body.datos)).not.toContain('"token"');
+  });
+
+  it('cierra una sesión y su refresh token deja de servir', async () => {
+    const { refreshToken } = await iniciarSesion('iPhone');
+    const { token } = await iniciarSesion('Notebook');
+    const sesionIphone = await RefreshToken.findOne({ dispositivo: 'iPhone' });
+
+    const res = await request(app)
+      .delete(`/api/autenticacion/sesiones/${sesionIphone!._id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+
+    const refresh = await request(app).post('/api/autenticacion/refresh').send({ refreshToken });
+    expect(refresh.body.codigo).toBe('REFRESH_TOKEN_INVALIDO');
+  });
+
+  it('el token de acceso de una sesión cerrada deja de servir al instante', async () => {
+    const { token: tokenIphone } = await iniciarSesion('iPhone');
+    const { token } = await iniciarSesion('Notebook');
+    const sesionIphone = await RefreshToken.findOne({ dispositivo: 'iPhone' });
+
+    await request(app)
+      .delete(`/api/autenticacion/sesiones/${sesionIphone!._id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    const res = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${tokenIphone}`);
+    expect(res.status).toBe(401);
+    expect(res.body.codigo).toBe('SESION_CERRADA');
+  });
+
+  it('no permite cerrar sesiones de otro usuario', async () => {
+    const { token } = await iniciarSesion('iPhone');
+    const ajena = await RefreshToken.create({
+      tokenHash: hashearRefreshToken('refresh-token-ajeno'),
+      usuarioId: new Usuario()._id,
+    });
+
+    const res = await request(app)
+      .delete(`/api/autenticacion/sesiones/${ajena._id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body.codigo).toBe('SESION_NO_ENCONTRADA');
+    expect(await RefreshToken.countDocuments({ _id: ajena._id })).toBe(1);
+  });
+
+  it('cierra todas las sesiones excepto la actual', async () => {
+    const { token: tokenIphone } = await iniciarSesion('iPhone');
+    await iniciarSesion('Tablet');
+    const { token } = await iniciarSesion('Notebook');
+
+    const res = await request(app)
+      .post('/api/autenticacion/sesiones/cerrar-otras')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.sesionesCerradas).toBe(2);
+
+    const restantes = await RefreshToken.find().lean();
+    expect(restantes.map((sesion) => sesion.dispositivo)).toEqual(['Notebook']);
+
+    const conSesionCerrada = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${tokenIphone}`);
+    expect(conSesionCerrada.status).toBe(401);
+
+    const conSesionActual = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+    expect(conSesionActual.status).toBe(200);
+  });
+});
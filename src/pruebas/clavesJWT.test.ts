@@ -0,0 +1,118 @@
+/**
+ * src/pruebas/clavesJWT.test.ts
+ *
+ * Pruebas de la firma asimétrica de tokens (config/clavesJWT.ts y utilidades/generarToken.ts):
+ * selección de clave por kid, rotación y publicación del JWKS.
+ * No necesitan base de datos.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../app';
+import { ClaveJWT, ConjuntoClavesJWT, configurarClavesJWT, crearClaveJWT } from '../config/clavesJWT';
+import { generarJWT, verificarJWT } from '../utilidades/generarToken';
+
+const datosToken = { usuarioId: '64b000000000000000000001', telefono: '+34600111222', rol: 'usuario', version: 0 };
+
+const exportarPrivada = (clave: ReturnType<typeof generateKeyPairSync>['privateKey']) =>
+  clave.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+const claveRSA = (kid: string) =>
+  crearClaveJWT(kid, exportarPrivada(generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey));
+const claveEC = (kid: string) =>
+  crearClaveJWT(kid, exportarPrivada(generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey));
+
+/**
+ * Conjunto con una clave activa y, opcionalmente, claves retiradas (solo verifican).
+ */
+const conjunto = (activa?: ClaveJWT, ...retiradas: ClaveJWT[]): ConjuntoClavesJWT => ({
+  activa,
+  verificacion: new Map([...retiradas, ...(activa ? [activa] : [])].map((clave) => [clave.kid, clave])),
+});
+
+afterEach(() => {
+  configurarClavesJWT(conjunto());
+});
+
+describe('firma asimétrica de tokens', () => {
+  it('firma con RS256 e informa el kid de la clave activa', () => {
+    configurarClavesJWT(conjunto(claveRSA('2025-01')));
+
+    const token = generarJWT(datosToken);
+    const { header } = jwt.decode(token, { complete: true })!;
+
+    expect(header).toMatchObject({ alg: 'RS256', kid: '2025-01' });
+    expect(verificarJWT(token).usuarioId).toBe(datosToken.usuarioId);
+  });
+
+  it('firma con ES256 cuando la clave activa es EC P-256', () => {
+    configurarClavesJWT(conjunto(claveEC('ec-1')));
+
+    const token = generarJWT(datosToken);
+
+    expect(jwt.decode(token, { complete: true })!.header.alg).toBe('ES256');
+    expect(verificarJWT(token).telefono).toBe(datosToken.telefono);
+  });
+
+  it('sigue aceptando tokens de la clave anterior tras una rotación', () => {
+    const anterior = claveRSA('2025-01');
+    configurarClavesJWT(conjunto(anterior));
+    const tokenAnterior = generarJWT(datosToken);
+
+    configurarClavesJWT(conjunto(claveEC('2025-02'), anterior));
+
+    expect(jwt.decode(generarJWT(datosToken), { complete: true })!.header.kid).toBe('2025-02');
+    expect(verificarJWT(tokenAnterior).usuarioId).toBe(datosToken.usuarioId);
+  });
+
+  it('rechaza tokens firmados con una clave que ya no está configurada', () => {
+    configurarClavesJWT(conjunto(claveRSA('2025-01')));
+    const tokenAnterior = generarJWT(datosToken);
+
+    configurarClavesJWT(conjunto(claveRSA('2025-02')));
+
+    expect(() => verificarJWT(tokenAnterior)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('rechaza tokens HS256 cuando hay una clave activa', () => {
+    const tokenHS256 = generarJWT(datosToken);
+
+    configurarClavesJWT(conjunto(claveRSA('2025-01')));
+
+    expect(() => verificarJWT(tokenHS256)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('rechaza un token que declara un kid conocido pero otro algoritmo', () => {
+    const clave = claveRSA('2025-01');
+    configurarClavesJWT(conjunto(clave));
+
+    // Confusión de algoritmo: HS256 usando la clave pública como secreto
+    const publicaPEM = clave.publica.export({ type: 'spki', format: 'pem' }).toString();
+    const falsificado = jwt.sign({ ...datosToken, jti: 'falso' }, publicaPEM, { algorithm: 'HS256', keyid: '2025-01' });
+
+    expect(() => verificarJWT(falsificado)).toThrow();
+  });
+});
+
+describe('GET /.well-known/jwks.json', () => {
+  it('publica las claves públicas activa y retiradas, sin partes privadas', async () => {
+    configurarClavesJWT(conjunto(claveEC('2025-02'), claveRSA('2025-01')));
+
+    const res = await request(app).get('/.well-known/jwks.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.keys).toEqual([
+      expect.objectContaining({ kid: '2025-01', kty: 'RSA', alg: 'RS256', use: 'sig' }),
+      expect.objectContaining({ kid: '2025-02', kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' }),
+    ]);
+    expect(res.body.keys.some((clave: { d?: string }) => clave.d !== undefined)).toBe(false);
+  });
+
+  it('devuelve una lista vacía sin claves asimétricas', async () => {
+    const res = await request(app).get('/.well-known/jwks.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ keys: [] });
+  });
+});
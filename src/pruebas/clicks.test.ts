@@ -0,0 +1,190 @@
+/**
+ * src/pruebas/clicks.test.ts
+ *
+ * Pruebas de integración del tracking de clicks (/api/clicks).
+ * Usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import { Types } from 'mongoose';
+import app from '../app';
+import { Click } from '../modelos/click.modelo';
+import { Servicio } from '../modelos/servicio.modelo';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba, crearUsuarioConToken } from './utilidadesPrueba';
+
+const crearServicio = (usuarioId: Types.ObjectId) =>
+  Servicio.create({
+    usuarioId,
+    titulo: 'Electricista matriculado',
+    descripcion: 'Instalaciones eléctricas, tableros y reparaciones urgentes.',
+    categoria: 'electricidad',
+    zona: 'caballito',
+    telefonoContacto: '+5491112345678',
+    estadoModeracion: 'aprobado',
+  });
+
+beforeAll(conectarBDPrueba);
+afterEach(limpiarBDPrueba);
+afterAll(desconectarBDPrueba);
+
+describe('POST /api/clicks', () => {
+  it('registra un click anónimo e incrementa los contadores del servicio', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app)
+      .post('/api/clicks')
+      .send({ servicioId: servicio._id.toString(), tipo: 'whatsapp', visitanteId: 'visitante-123' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.datos.registrado).toBe(true);
+
+    const actualizado = await Servicio.findById(servicio._id);
+    expect(actualizado!.contadores.whatsapp).toBe(1);
+    expect(actualizado!.contadores.total).toBe(1);
+  });
+
+  it('no duplica clicks del mismo visitante dentro de la ventana', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+    const click = { servicioId: servicio._id.toString(), tipo: 'llamada', visitanteId: 'visitante-123' };
+
+    await request(app).post('/api/clicks').send(click);
+    const res = await request(app).post('/api/clicks').send(click);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.registrado).toBe(false);
+    expect(await Click.countDocuments()).toBe(1);
+  });
+
+  it('cuenta una sola vez los clicks simultáneos del mismo visitante', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+    const click = { servicioId: servicio._id.toString(), tipo: 'vista', visitanteId: 'visitante-123' };
+
+    const respuestas = await Promise.all(Array.from({ length: 5 }, () => request(app).post('/api/clicks').send(click)));
+
+    expect(respuestas.filter((res) => res.body.datos.registrado)).toHaveLength(1);
+    expect(await Click.countDocuments()).toBe(1);
+
+    const actualizado = await Servicio.findById(servicio._id);
+    expect(actualizado!.contadores.vista).toBe(1);
+    expect(actualizado!.contadores.total).toBe(1);
+  });
+
+  it('asocia el usuario cuando viene un JWT válido', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { usuario: visitante, token } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    await request(app)
+      .post('/api/clicks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ servicioId: servicio._id.toString(), tipo: 'vista', visitanteId: 'visitante-456' });
+
+    const click = await Click.findOne();
+    expect(click!.usuarioId!.toString()).toBe(visitante._id.toString());
+  });
+
+  it('rechaza un tipo de click desconocido', async () => {
+    const res = await request(app)
+      .post('/api/clicks')
+      .send({ servicioId: new Types.ObjectId().toString(), tipo: 'email', visitanteId: 'visitante-123' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+});
+
+describe('GET /api/clicks/servicios/:servicioId', () => {
+  it('devuelve los contadores al dueño del servicio', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app).get(`/api/clicks/servicios/${servicio._id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.contadores).toEqual({ llamada: 0, whatsapp: 0, vista: 0, total: 0 });
+  });
+
+  it('impide que otro usuario vea los contadores', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAjeno } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app)
+      .get(`/api/clicks/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${tokenAjeno}`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('GET /api/servicios/:id/estadisticas', () => {
+  it('agrupa los clicks por día y tipo y los compara con el período anterior', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+    const base = { servicioId: servicio._id, visitanteId: 'visitante-123' };
+
+    await Click.insertMany([
+      { ...base, tipo: 'llamada', creadoEn: new Date('2025-03-10T10:00:00Z') },
+      { ...base, tipo: 'whatsapp', creadoEn: new Date('2025-03-10T18:00:00Z') },
+      { ...base, tipo: 'llamada', creadoEn: new Date('2025-03-12T09:00:00Z') },
+      // Período anterior (01/03 al 08/03)
+      { ...base, tipo: 'llamada', creadoEn: new Date('2025-03-05T09:00:00Z') },
+    ]);
+
+    const res = await request(app)
+      .get(`/api/servicios/${servicio._id}/estadisticas`)
+      .query({ agrupacion: 'dia', desde: '2025-03-08T00:00:00Z', hasta: '2025-03-15T00:00:00Z' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.serie).toEqual([
+      { fecha: '2025-03-10T00:00:00.000Z', llamada: 1, whatsapp: 1, vista: 0, total: 2 },
+      { fecha: '2025-03-12T00:00:00.000Z', llamada: 1, whatsapp: 0, vista: 0, total: 1 },
+    ]);
+    expect(res.body.datos.totales).toEqual({ llamada: 2, whatsapp: 1, vista: 0, total: 3 });
+    expect(res.body.datos.totalesPeriodoAnterior.total).toBe(1);
+    expect(res.body.datos.variacionPorcentual.llamada).toBe(100);
+    expect(res.body.datos.variacionPorcentual.whatsapp).toBeNull();
+  });
+
+  it('rechaza una agrupación desconocida', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app)
+      .get(`/api/servicios/${servicio._id}/estadisticas`)
+      .query({ agrupacion: 'anio' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+
+  it('aplica el rango máximo cuando solo viene "desde" (hasta es ahora)', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app)
+      .get(`/api/servicios/${servicio._id}/estadisticas`)
+      .query({ desde: '2000-01-01T00:00:00Z' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+
+  it('impide que otro usuario vea las estadísticas', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAjeno } = await crearUsuarioConToken();
+    const servicio = await crearServicio(usuario._id);
+
+    const res = await request(app)
+      .get(`/api/servicios/${servicio._id}/estadisticas`)
+      .set('Authorization', `Bearer ${tokenAjeno}`);
+
+    expect(res.status).toBe(403);
+  });
+});
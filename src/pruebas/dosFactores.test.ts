@@ -0,0 +1,224 @@
+/**
+ * src/pruebas/dosFactores.test.ts
+ *
+ * Pruebas del segundo factor (/api/autenticacion/2fa) y de su exigencia en el panel de admin.
+ * Las de integración usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { Usuario } from '../modelos/usuario.modelo';
+import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { SegundoFactor } from '../modelos/segundoFactor.modelo';
+import { hashearCodigo } from '../utilidades/generarToken';
+import { codificarBase32, decodificarBase32, generarCodigoTOTP, generarUriOtpauth, pasoTOTP } from '../utilidades/totp';
+import { env } from '../config/variables';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba } from './utilidadesPrueba';
+
+const telefono = '+5491187654321';
+
+/**
+ * Login por SMS (primer factor). Devuelve el cuerpo de la respuesta.
+ */
+const loginPorSMS = async () => {
+  await CodigoVerificacion.create({ telefono, codigoHash: hashearCodigo('123456') });
+
+  const res = await request(app)
+    .post('/api/autenticacion/login')
+    .send({ telefono, codigo: '123456', dispositivo: 'Notebook' });
+
+  return res.body.datos;
+};
+
+/**
+ * Inscribe y confirma el segundo factor. Cada código TOTP se usa una sola vez,
+ * por eso la confirmación consume el paso actual y las pruebas usan el siguiente.
+ */
+const habilitarDosFactores = async (token: string) => {
+  const inscripcion = await request(app)
+    .post('/api/autenticacion/2fa/inscripcion')
+    .set('Authorization', `Bearer ${token}`);
+  const { secreto } = inscripcion.body.datos;
+
+  const confirmacion = await request(app)
+    .post('/api/autenticacion/2fa/confirmar')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ codigo: generarCodigoTOTP(secreto) });
+
+  return { secreto, ...confirmacion.body.datos } as { secreto: string; token: string; codigosRecuperacion: string[] };
+};
+
+describe('utilidades TOTP', () => {
+  it('codifica y decodifica base32 sin pérdida', () => {
+    const datos = Buffer.from('12345678901234567890');
+
+    expect(codificarBase32(datos)).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodificarBase32(codificarBase32(datos)).equals(datos)).toBe(true);
+  });
+
+  it('arma la URI otpauth con emisor y cuenta', () => {
+    const uri = generarUriOtpauth('JBSWY3DPEHPK3PXP', '+34600111222');
+
+    expect(uri).toBe(
+      'otpauth://totp/ServiPro:%2B34600111222?secret=JBSWY3DPEHPK3PXP&issuer=ServiPro&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
+
+describe('/api/autenticacion/2fa', () => {
+  beforeAll(conectarBDPrueba);
+  afterEach(limpiarBDPrueba);
+  afterAll(desconectarBDPrueba);
+
+  it('exige segundo factor a un admin logueado solo con SMS', async () => {
+    await Usuario.create({ telefono, rol: 'admin', estaVerificado: true });
+    const { token } = await loginPorSMS();
+
+    const res = await request(app).get('/api/admin/usuarios').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body.codigo).toBe('DOS_FACTORES_REQUERIDO');
+  });
+
+  it('al confirmar la inscripción entrega códigos de recuperación y un token válido para el panel', async () => {
+    await Usuario.create({ telefono, rol: 'admin', estaVerificado: true });
+    const { token } = await loginPorSMS();
+
+    const { token: tokenConDosFactores, codigosRecuperacion } = await habilitarDosFactores(token);
+
+    expect(codigosRecuperacion).toHaveLength(10);
+    expect(JSON.stringify(await SegundoFactor.findOne().lean())).not.toContain(codigosRecuperacion[0]);
+
+    const res = await request(app).get('/api/admin/usuarios').set('Authorization', `Bearer ${tokenConDosFactores}`);
+    expect(res.status).toBe(200);
+  });
+
+  it('rechaza la confirmación con un código incorrecto', async () => {
+    const { token } = await loginPorSMS();
+    await request(app).post('/api/autenticacion/2fa/inscripcion').set('Authorization', `Bearer ${token}`);
+
+    const res = await request(app)
+      .post('/api/autenticacion/2fa/confirmar')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ codigo: '000000' });
+
+    expect(res.status).toBe(401);
+    expect(res.body.codigo).toBe('CODIGO_SEGUNDO_FACTOR_INVALIDO');
+    expect((await SegundoFactor.findOne().lean())!.confirmado).toBe(false);
+  });
+
+  it('con segundo factor habilitado, el login devuelve un token pendiente y no abre sesión', async () => {
+    const { token } = await loginPorSMS();
+    await habilitarDosFactores(token);
+    await RefreshToken.deleteMany({});
+
+    const datos = await loginPorSMS();
+
+    expect(datos.dosFactoresPendiente).toBe(true);
+    expect(datos.token).toBeUndefined();
+    expect(await RefreshToken.countDocuments()).toBe(0);
+
+    // El token pendiente no sirve como token de acceso
+    const conPendiente = await request(app)
+      .get('/api/usuarios/yo')
+      .set('Authorization', `Bearer ${datos.tokenPendiente}`);
+    expect(conPendiente.status).toBe(401);
+  });
+
+  it('completa el login con el código TOTP y el token pendiente no se puede reutilizar', async () => {
+    await Usuario.create({ telefono, rol: 'admin', estaVerificado: true });
+    const { token } = await loginPorSMS();
+    const { secreto } = await habilitarDosFactores(token);
+    const { tokenPendiente } = await loginPorSMS();
+
+    const res = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente, codigo: generarCodigoTOTP(secreto, pasoTOTP() + 1) });
+
+    expect(res.status).toBe(200);
+    expect(await RefreshToken.findOne({ dispositivo: 'Notebook', dosFactores: true }).lean()).not.toBeNull();
+
+    const panel = await request(app).get('/api/admin/usuarios').set('Authorization', `Bearer ${res.body.datos.token}`);
+    expect(panel.status).toBe(200);
+
+    const reutilizado = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente, codigo: generarCodigoTOTP(secreto, pasoTOTP() + 1) });
+    expect(reutilizado.body.codigo).toBe('TOKEN_PENDIENTE_INVALIDO');
+  });
+
+  it('los tokens renovados conservan el segundo factor de la sesión', async () => {
+    await Usuario.create({ telefono, rol: 'admin', estaVerificado: true });
+    const { token } = await loginPorSMS();
+    const { secreto } = await habilitarDosFactores(token);
+    const { tokenPendiente } = await loginPorSMS();
+    const login = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente, codigo: generarCodigoTOTP(secreto, pasoTOTP() + 1) });
+
+    const refresh = await request(app)
+      .post('/api/autenticacion/refresh')
+      .send({ refreshToken: login.body.datos.refreshToken });
+
+    const panel = await request(app)
+      .get('/api/admin/usuarios')
+      .set('Authorization', `Bearer ${refresh.body.datos.token}`);
+    expect(panel.status).toBe(200);
+  });
+
+  it('al agotar los intentos bloquea el segundo factor aunque el siguiente código sea correcto', async () => {
+    await Usuario.create({ telefono, rol: 'admin', estaVerificado: true });
+    const { token } = await loginPorSMS();
+    const { secreto } = await habilitarDosFactores(token);
+    const { tokenPendiente } = await loginPorSMS();
+    // Código de un paso muy lejano: no entra en la ventana de tolerancia
+    const codigoIncorrecto = generarCodigoTOTP(secreto, pasoTOTP() - 100);
+
+    for (let intento = 1; intento < env.DOS_FACTORES_MAX_INTENTOS; intento++) {
+      const res = await request(app)
+        .post('/api/autenticacion/2fa/verificar')
+        .send({ tokenPendiente, codigo: codigoIncorrecto });
+      expect(res.body.codigo).toBe('CODIGO_SEGUNDO_FACTOR_INVALIDO');
+    }
+
+    const ultimo = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente, codigo: codigoIncorrecto });
+    expect(ultimo.status).toBe(429);
+    expect(ultimo.body.codigo).toBe('DOS_FACTORES_BLOQUEADO');
+
+    // El token pendiente quedó revocado
+    const conCodigoCorrecto = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente, codigo: generarCodigoTOTP(secreto, pasoTOTP() + 1) });
+    expect(conCodigoCorrecto.status).toBe(401);
+    expect(conCodigoCorrecto.body.codigo).toBe('TOKEN_PENDIENTE_INVALIDO');
+
+    // Y un login nuevo (otro token pendiente) sigue bloqueado
+    const nuevoLogin = await loginPorSMS();
+    const conOtroToken = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente: nuevoLogin.tokenPendiente, codigo: generarCodigoTOTP(secreto, pasoTOTP() + 1) });
+    expect(conOtroToken.status).toBe(429);
+    expect(conOtroToken.body.codigo).toBe('DOS_FACTORES_BLOQUEADO');
+  });
+
+  it('acepta cada código de recuperación una sola vez', async () => {
+    const { token } = await loginPorSMS();
+    const { codigosRecuperacion } = await habilitarDosFactores(token);
+
+    const primero = await loginPorSMS();
+    const res = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente: primero.tokenPendiente, codigoRecuperacion: codigosRecuperacion[0] });
+    expect(res.status).toBe(200);
+
+    const segundo = await loginPorSMS();
+    const repetido = await request(app)
+      .post('/api/autenticacion/2fa/verificar')
+      .send({ tokenPendiente: segundo.tokenPendiente, codigoRecuperacion: codigosRecuperacion[0] });
+    expect(repetido.status).toBe(401);
+    expect(repetido.body.codigo).toBe('CODIGO_SEGUNDO_FACTOR_INVALIDO');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * src/pruebas/errores.test.ts
+ *
+ * Pruebas del manejo centralizado de errores (middlewares/error.middleware.ts):
+ * - ErrorAplicacion y subclases → su status y su código.
+ * - Errores de Mongoose, MongoDB y jsonwebtoken → la respuesta estándar equivalente.
+ * - Errores inesperados → 500 sin exponer el mensaje interno.
+ *
+ * Se prueban sobre una app Express mínima; no requieren base de datos.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { TokenExpiredError, JsonWebTokenError } from 'jsonwebtoken';
+import app from '../app';
+import { manejadorErrores } from '../middlewares/error.middleware';
+import { manejarAsync } from '../utilidades/manejarAsync';
+import { ErrorConflicto, ErrorLimiteExcedido, ErrorNoEncontrado, ErrorServicioExterno } from '../utilidades/errores';
+
+/**
+ * App mínima cuya única ruta lanza el error indicado (desde un controlador async).
+ */
+const crearAppQueLanza = (error: unknown) => {
+  const appPrueba = express();
+  appPrueba.get(
+    '/',
+    manejarAsync(async () => {
+      throw error;
+    }),
+  );
+  appPrueba.use(manejadorErrores);
+  return appPrueba;
+};
+
+describe('manejadorErrores', () => {
+  it('responde un ErrorAplicacion con su status, código y datos', async () => {
+    const error = new ErrorConflicto('El servicio ya está aprobado', 'SERVICIO_YA_APROBADO', {
+      datos: { estado: 'aprobado' },
+    });
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({
+      exito: false,
+      mensaje: 'El servicio ya está aprobado',
+      codigo: 'SERVICIO_YA_APROBADO',
+      datos: { estado: 'aprobado' },
+    });
+  });
+
+  it('agrega Retry-After a los errores de límite excedido', async () => {
+    const error = new ErrorLimiteExcedido('Demasiadas solicitudes', 'LIMITE_EXCEDIDO', { reintentarEnSegundos: 30 });
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBe('30');
+  });
+
+  it('responde 502 a la falla de un servicio externo sin exponer el error original', async () => {
+    const error = new ErrorServicioExterno('No se pudo enviar el SMS. Intenta nuevamente.', undefined, {
+      cause: new Error('Twilio: credenciales inválidas'),
+    });
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(502);
+    expect(res.body.codigo).toBe('SERVICIO_EXTERNO_NO_DISPONIBLE');
+    expect(JSON.stringify(res.body)).not.toContain('Twilio');
+  });
+
+  it('traduce un ValidationError de Mongoose a 400 con los errores por campo', async () => {
+    const Modelo = mongoose.model('PruebaErrores', new mongoose.Schema({ nombre: { type: String, required: true } }));
+    const error = new Modelo({}).validateSync();
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+    expect(res.body.errores).toEqual([expect.objectContaining({ campo: 'nombre' })]);
+  });
+
+  it('traduce un CastError de un ObjectId a 400 ID_INVALIDO', async () => {
+    const error = new mongoose.Error.CastError('ObjectId', 'no-es-un-id', '_id');
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('ID_INVALIDO');
+  });
+
+  it('traduce una clave duplicada (11000) a 409 sin exponer el valor', async () => {
+    const error = new mongoose.mongo.MongoServerError({
+      message: 'E11000 duplicate key error',
+      code: 11000,
+      keyValue: { email: 'ana@ejemplo.com' },
+    });
+
+    const res = await request(crearAppQueLanza(error)).get('/');
+
+    expect(res.status).toBe(409);
+    expect(res.body.codigo).toBe('REGISTRO_DUPLICADO');
+    expect(res.body.errores).toEqual([{ campo: 'email', mensaje: 'Ya está en uso' }]);
+    expect(JSON.stringify(res.body)).not.toContain('ana@ejemplo.com');
+  });
+
+  it('traduce los errores de jsonwebtoken a 401', async () => {
+    const expirado = await request(crearAppQueLanza(new TokenExpiredError('jwt expired', new Date()))).get('/');
+    const invalido = await request(crearAppQueLanza(new JsonWebTokenError('invalid signature'))).get('/');
+
+    expect(expirado.status).toBe(401);
+    expect(expirado.body.codigo).toBe('TOKEN_EXPIRADO');
+    expect(invalido.status).toBe(401);
+    expect(invalido.body.codigo).toBe('TOKEN_INVALIDO');
+  });
+
+  it('responde 500 sin exponer el mensaje de un error inesperado', async () => {
+    const res = await request(crearAppQueLanza(new Error('detalle interno de la base'))).get('/');
+
+    expect(res.status).toBe(500);
+    expect(res.body.codigo).toBe('ERROR_INTERNO');
+    expect(JSON.stringify(res.body)).not.toContain('detalle interno');
+  });
+
+  it('captura también los errores síncronos del controlador', async () => {
+    const appPrueba = express();
+    appPrueba.get(
+      '/',
+      manejarAsync(() => {
+        throw new ErrorNoEncontrado('Servicio no encontrado', 'SERVICIO_NO_ENCONTRADO');
+      }),
+    );
+    appPrueba.use(manejadorErrores);
+
+    const res = await request(appPrueba).get('/');
+
+    expect(res.status).toBe(404);
+    expect(res.body.codigo).toBe('SERVICIO_NO_ENCONTRADO');
+  });
+});
+
+describe('Errores de la app', () => {
+  it('responde 404 RUTA_NO_ENCONTRADA con el formato estándar', async () => {
+    const res = await request(app).get('/api/no-existe');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toMatchObject({ exito: false, codigo: 'RUTA_NO_ENCONTRADA' });
+  });
+
+  it('responde 400 JSON_INVALIDO si el cuerpo no es JSON válido', async () => {
+    const res = await request(app)
+      .post('/api/autenticacion/registro')
+      .set('Content-Type', 'application/json')
+      .send('{"telefono": ');
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('JSON_INVALIDO');
+  });
+});
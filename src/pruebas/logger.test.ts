@@ -0,0 +1,35 @@
+/**
+ * src/pruebas/logger.test.ts
+ *
+ * Pruebas de la configuración del logger (config/logger.ts):
+ * - En test, por defecto, solo se loguea por consola (sin archivos).
+ * - Los loggers de auditoría y seguridad etiquetan sus logs con la categoría.
+ *
+ * No requieren base de datos.
+ */
+
+import { transports } from 'winston';
+import { logger, loggerAuditoria, loggerSeguridad } from '../config/logger';
+import { env } from '../config/variables';
+import { capturarLogs } from './utilidadesPrueba';
+
+describe('Logger', () => {
+  it('en test solo escribe en consola', () => {
+    expect(env.LOG_TRANSPORTES).toEqual(['consola']);
+    expect(logger.transports).toHaveLength(1);
+    expect(logger.transports[0]).toBeInstanceOf(transports.Console);
+  });
+
+  it('etiqueta los logs de auditoría y de seguridad con su categoría', () => {
+    const { lineas, detener } = capturarLogs();
+
+    logger.info('Log general');
+    loggerAuditoria.info('Cambio de rol');
+    loggerSeguridad.warn('Acceso maestro rechazado');
+    detener();
+
+    expect(lineas[0]).not.toMatch(/\[(auditoria|seguridad)\]/);
+    expect(lineas[1]).toContain('[auditoria]: Cambio de rol');
+    expect(lineas[2]).toContain('[seguridad]: Acceso maestro rechazado');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * src/pruebas/migraciones.test.ts
+ *
+ * Pruebas de las migraciones de arranque (config/migraciones.ts) sobre una base
+ * con datos e índices de la versión anterior. Usan un MongoDB en memoria.
+ */
+
+import mongoose from 'mongoose';
+import { ejecutarMigraciones } from '../config/migraciones';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba } from './utilidadesPrueba';
+
+beforeAll(conectarBDPrueba);
+afterEach(limpiarBDPrueba);
+afterAll(desconectarBDPrueba);
+
+/**
+ * Deja la colección como la dejaba la versión anterior: token en texto plano,
+ * índice único token_1 y TTL sobre creadoEn.
+ */
+const crearColeccionAnterior = async () => {
+  const coleccion = RefreshToken.collection;
+  await coleccion.dropIndexes();
+  await coleccion.createIndex({ token: 1 }, { unique: true, name: 'token_1' });
+  await coleccion.createIndex({ creadoEn: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30, name: 'creadoEn_1' });
+  await coleccion.insertOne({ token: 'a'.repeat(80), usuarioId: new mongoose.Types.ObjectId(), creadoEn: new Date() });
+};
+
+describe('Migración de refresh tokens', () => {
+  it('elimina los índices y las sesiones de la versión anterior', async () => {
+    await crearColeccionAnterior();
+
+    await ejecutarMigraciones();
+
+    const indices = (await RefreshToken.collection.indexes()).map(({ name }) => name);
+    expect(indices).not.toContain('token_1');
+    expect(indices).not.toContain('creadoEn_1');
+    expect(indices).toContain('tokenHash_1');
+    expect(await RefreshToken.collection.countDocuments({ token: { $exists: true } })).toBe(0);
+  });
+
+  it('permite abrir varias sesiones después de migrar', async () => {
+    await crearColeccionAnterior();
+    await ejecutarMigraciones();
+
+    const usuarioId = new mongoose.Types.ObjectId();
+    await RefreshToken.create({ tokenHash: 'hash-1', usuarioId });
+
+    await expect(RefreshToken.create({ tokenHash: 'hash-2', usuarioId })).resolves.toBeDefined();
+  });
+
+  it('no hace nada en una base ya migrada', async () => {
+    await ejecutarMigraciones();
+    const antes = await RefreshToken.collection.indexes();
+
+    await ejecutarMigraciones();
+
+    expect(await RefreshToken.collection.indexes()).toEqual(antes);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * src/pruebas/rateLimit.test.ts
+ *
+ * Pruebas del rate limiting (middlewares/rateLimit.middleware.ts).
+ * Las políticas ad hoc se prueban sobre una app Express mínima;
+ * la integración con /api/autenticacion usa un MongoDB en memoria.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import NodeCache from 'node-cache';
+import app from '../app';
+import { cache } from '../config/cache';
+import { crearLimitador, configurarAlmacenLimites, PoliticaLimite } from '../middlewares/rateLimit.middleware';
+import { manejadorErrores } from '../middlewares/error.middleware';
+import { AlmacenLimites } from '../proveedores/limites/almacenLimites';
+import { AlmacenLimitesCache } from '../proveedores/limites/cache.almacen';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba } from './utilidadesPrueba';
+
+const politicaDePrueba: PoliticaLimite = {
+  nombre: 'prueba',
+  clave: 'ip',
+  maximo: 2,
+  ventanaSegundos: 60,
+  mensaje: 'Demasiadas solicitudes de prueba',
+};
+
+/**
+ * App mínima con una sola ruta protegida por la política indicada
+ * y el manejador global de errores (es quien responde el 429).
+ */
+const crearAppDePrueba = (politica: PoliticaLimite) => {
+  const appPrueba = express();
+  appPrueba.use(express.json());
+  appPrueba.post('/', crearLimitador(politica), (_req, res) => {
+    res.json({ exito: true });
+  });
+  appPrueba.use(manejadorErrores);
+  return appPrueba;
+};
+
+afterEach(() => {
+  cache.flushAll();
+  configurarAlmacenLimites(new AlmacenLimitesCache());
+});
+
+describe('crearLimitador', () => {
+  it('responde 429 con Retry-After al superar el máximo', async () => {
+    const appPrueba = crearAppDePrueba(politicaDePrueba);
+
+    await request(appPrueba).post('/');
+    const segunda = await request(appPrueba).post('/');
+    const tercera = await request(appPrueba).post('/');
+
+    expect(segunda.status).toBe(200);
+    expect(segunda.headers['ratelimit-remaining']).toBe('0');
+    expect(tercera.status).toBe(429);
+    expect(tercera.body.codigo).toBe('LIMITE_SOLICITUDES_EXCEDIDO');
+    expect(Number(tercera.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(tercera.headers['retry-after'])).toBeLessThanOrEqual(60);
+  });
+
+  it('cuenta por teléfono de forma independiente', async () => {
+    const appPrueba = crearAppDePrueba({ ...politicaDePrueba, clave: 'telefono', maximo: 1 });
+
+    await request(appPrueba).post('/').send({ telefono: '+5491111111111' });
+    const otroTelefono = await request(appPrueba).post('/').send({ telefono: '+5491122222222' });
+    const mismoTelefono = await request(appPrueba).post('/').send({ telefono: '+5491111111111' });
+
+    expect(otroTelefono.status).toBe(200);
+    expect(mismoTelefono.status).toBe(429);
+  });
+
+  it('no limita por usuario las solicitudes anónimas', async () => {
+    const appPrueba = crearAppDePrueba({ ...politicaDePrueba, clave: 'usuario', maximo: 1 });
+
+    await request(appPrueba).post('/');
+    const res = await request(appPrueba).post('/');
+
+    expect(res.status).toBe(200);
+  });
+
+  it('deja pasar la solicitud si el almacén falla', async () => {
+    const almacenRoto: AlmacenLimites = {
+      incrementar: () => Promise.reject(new Error('almacén caído')),
+      reiniciar: () => Promise.resolve(),
+    };
+    configurarAlmacenLimites(almacenRoto);
+
+    const res = await request(crearAppDePrueba({ ...politicaDePrueba, maximo: 0 })).post('/');
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('AlmacenLimitesCache', () => {
+  it('abre una ventana nueva cuando la anterior venció', async () => {
+    const almacen = new AlmacenLimitesCache(new NodeCache());
+
+    await almacen.incrementar('clave', 1);
+    const segundo = await almacen.incrementar('clave', 1);
+    expect(segundo.total).toBe(2);
+
+    await new Promise((resolver) => setTimeout(resolver, 1100));
+    const tercero = await almacen.incrementar('clave', 1);
+    expect(tercero.total).toBe(1);
+  });
+});
+
+describe('Límites de /api/autenticacion', () => {
+  beforeAll(conectarBDPrueba);
+  afterEach(limpiarBDPrueba);
+  afterAll(desconectarBDPrueba);
+
+  it('limita los pedidos de código por teléfono en /registro', async () => {
+    const telefono = '+5491112345678';
+
+    for (let i = 0; i < 3; i++) {
+      await request(app).post('/api/autenticacion/registro').send({ telefono });
+    }
+    const res = await request(app).post('/api/autenticacion/registro').send({ telefono });
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('LIMITE_SOLICITUDES_EXCEDIDO');
+    expect(res.headers['retry-after']).toBeDefined();
+  });
+
+  it('cuenta /verificar junto con /login por teléfono', async () => {
+    const telefono = '+5491112345678';
+
+    for (let i = 0; i < 10; i++) {
+      await request(app).post('/api/autenticacion/login').send({ telefono, codigo: '000000' });
+    }
+    const res = await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo: '000000' });
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('LIMITE_SOLICITUDES_EXCEDIDO');
+    expect(res.body.datos.politica).toBe('loginPorTelefono');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * src/pruebas/requestId.test.ts
+ *
+ * Pruebas del request id (middlewares/requestId.middleware.ts) y de la correlación de logs:
+ * - Se genera (o se respeta el recibido) y se devuelve en el header X-Request-Id.
+ * - Aparece en las respuestas de error y en los logs emitidos durante la request.
+ *
+ * No requieren base de datos.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import app from '../app';
+import { logger } from '../config/logger';
+import { asignarRequestId } from '../middlewares/requestId.middleware';
+import { registrarSolicitudHTTP } from '../middlewares/registroHttp.middleware';
+import { obtenerRequestId } from '../utilidades/requestId';
+import { capturarLogs } from './utilidadesPrueba';
+
+describe('Request id', () => {
+  it('genera un request id y lo devuelve en el header y en los errores', async () => {
+    const res = await request(app).get('/api/no-existe');
+
+    expect(res.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.body.requestId).toBe(res.headers['x-request-id']);
+  });
+
+  it('respeta el X-Request-Id recibido si es válido', async () => {
+    const res = await request(app).get('/api/no-existe').set('X-Request-Id', 'proxy-123.abc');
+
+    expect(res.headers['x-request-id']).toBe('proxy-123.abc');
+    expect(res.body.requestId).toBe('proxy-123.abc');
+  });
+
+  it('reemplaza un X-Request-Id con caracteres no permitidos', async () => {
+    const res = await request(app).get('/api/no-existe').set('X-Request-Id', 'id falso" inyectado');
+
+    expect(res.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('está disponible durante toda la request, también después de un await', async () => {
+    const appPrueba = express();
+    appPrueba.use(asignarRequestId);
+    appPrueba.get('/', async (_req, res) => {
+      await new Promise((resolver) => setTimeout(resolver, 5));
+      res.json({ requestId: obtenerRequestId() });
+    });
+
+    const res = await request(appPrueba).get('/');
+
+    expect(res.body.requestId).toBe(res.headers['x-request-id']);
+  });
+
+  it('no hay request id fuera de una request', () => {
+    expect(obtenerRequestId()).toBeUndefined();
+  });
+});
+
+describe('Correlación de logs', () => {
+  it('incluye el request id en los logs de la request y en el log de acceso HTTP', async () => {
+    const appPrueba = express();
+    appPrueba.use(asignarRequestId);
+    appPrueba.use(registrarSolicitudHTTP);
+    appPrueba.get('/ruta-de-prueba', (_req, res) => {
+      logger.info('Procesando la ruta de prueba');
+      res.json({ exito: true });
+    });
+
+    const { lineas, detener } = capturarLogs();
+    const res = await request(appPrueba).get('/ruta-de-prueba?telefono=secreto').set('X-Request-Id', 'correlacion-1');
+    detener();
+
+    const propias = lineas.filter((linea) => linea.includes('[correlacion-1]'));
+
+    expect(res.status).toBe(200);
+    expect(propias.some((linea) => linea.includes('Procesando la ruta de prueba'))).toBe(true);
+    expect(propias.some((linea) => /GET \/ruta-de-prueba 200 [\d.]+ ms/.test(linea))).toBe(true);
+    expect(lineas.join('')).not.toContain('secreto');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * src/pruebas/salud.test.ts
+ *
+ * Pruebas de las rutas de salud y del estado del sistema:
+ * - GET /health/live responde siempre que el proceso esté vivo.
+ * - GET /health/ready responde 503 sin MongoDB y 200 con todas las dependencias.
+ * - GET /api/admin/estado exige el permiso sistema:ver-estado.
+ * Las de integración usan un MongoDB en memoria.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
+import {
+  capturarLogs,
+  conectarBDPrueba,
+  crearUsuarioConToken,
+  desconectarBDPrueba,
+  limpiarBDPrueba,
+} from './utilidadesPrueba';
+
+describe('/health sin base de datos', () => {
+  it('live responde 200 aunque MongoDB no esté conectado', async () => {
+    const res = await request(app).get('/health/live');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ estado: 'ok' });
+    expect(res.headers['cache-control']).toBe('no-store');
+  });
+
+  it('ready responde 503 e indica la dependencia que falló, sin el motivo', async () => {
+    const res = await request(app).get('/health/ready');
+
+    expect(res.status).toBe(503);
+    expect(res.body).toEqual({ estado: 'error', verificaciones: { mongo: 'error', sms: 'ok', cache: 'ok' } });
+  });
+
+  it('no registra en el log de acceso las sondas exitosas, sí las fallidas', async () => {
+    const { lineas, detener } = capturarLogs();
+    await request(app).get('/health/live');
+    await request(app).get('/health/ready');
+    detener();
+
+    expect(lineas.some((linea) => linea.includes('GET /health/live'))).toBe(false);
+    expect(lineas.some((linea) => linea.includes('GET /health/ready 503'))).toBe(true);
+  });
+});
+
+describe('/health y /api/admin/estado', () => {
+  beforeAll(conectarBDPrueba);
+  afterEach(limpiarBDPrueba);
+  afterAll(desconectarBDPrueba);
+
+  it('ready responde 200 con todas las dependencias disponibles', async () => {
+    const res = await request(app).get('/health/ready');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ estado: 'ok', verificaciones: { mongo: 'ok', sms: 'ok', cache: 'ok' } });
+  });
+
+  it('devuelve el estado detallado al admin', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'admin' });
+    await CodigoVerificacion.create({ telefono: '+34600111222', codigoHash: 'hash' });
+
+    const res = await request(app).get('/api/admin/estado').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos).toMatchObject({
+      version: expect.any(String),
+      entorno: 'test',
+      mongo: { estado: 'connected', pool: expect.objectContaining({ maximo: expect.any(Number) }) },
+      dependencias: { listo: true },
+      verificacion: { proveedorSMS: 'memoria', codigosPendientes: 1, telefonosBloqueados: 0 },
+    });
+    expect(res.body.datos.memoriaMB.rss).toBeGreaterThan(0);
+  });
+
+  it('no está disponible sin el permiso sistema:ver-estado', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'moderador' });
+
+    const res = await request(app).get('/api/admin/estado').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * src/pruebas/servicios.test.ts
+ *
+ * Pruebas de integración de servicios (/api/servicios): CRUD, búsqueda y cercanía.
+ * Usan un MongoDB en memoria y tokens JWT reales.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { Servicio } from '../modelos/servicio.modelo';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba, crearUsuarioConToken } from './utilidadesPrueba';
+
+const servicioValido = {
+  titulo: 'Plomería a domicilio',
+  descripcion: 'Reparación de pérdidas, destapaciones y cambio de griferías.',
+  categoria: 'Plomeria',
+  zona: 'Palermo',
+  precioMinimo: 1000,
+  precioMaximo: 5000,
+  telefonoContacto: '+5491112345678',
+};
+
+// Las búsquedas solo muestran servicios aprobados por moderación
+const servicioAprobado = { ...servicioValido, estadoModeracion: 'aprobado' };
+
+beforeAll(conectarBDPrueba);
+afterEach(limpiarBDPrueba);
+afterAll(desconectarBDPrueba);
+
+describe('POST /api/servicios', () => {
+  it('crea un servicio cuyo dueño es el usuario autenticado', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .post('/api/servicios')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...servicioValido, usuarioId: '000000000000000000000000' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.exito).toBe(true);
+    expect(res.body.datos.usuarioId).toBe(usuario._id.toString());
+    expect(res.body.datos.categoria).toBe('plomeria');
+  });
+
+  it('rechaza un rango de precios invertido', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .post('/api/servicios')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...servicioValido, precioMinimo: 9000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+
+  it('exige autenticación', async () => {
+    const res = await request(app).post('/api/servicios').send(servicioValido);
+
+    expect(res.status).toBe(401);
+    expect(res.body.codigo).toBe('TOKEN_FALTANTE');
+  });
+});
+
+describe('PATCH /api/servicios/:id', () => {
+  it('permite al dueño editar su servicio', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .patch(`/api/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ titulo: 'Plomería urgente 24hs' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.titulo).toBe('Plomería urgente 24hs');
+  });
+
+  it('impide que otro usuario edite el servicio', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAjeno } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .patch(`/api/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${tokenAjeno}`)
+      .send({ titulo: 'Intento de edición ajena' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.codigo).toBe('ACCESO_NO_AUTORIZADO');
+  });
+
+  it('permite a un admin editar cualquier servicio', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .patch(`/api/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({ activo: false });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.activo).toBe(false);
+  });
+});
+
+describe('DELETE /api/servicios/:id', () => {
+  it('elimina el servicio del dueño', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app).delete(`/api/servicios/${servicio._id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(await Servicio.findById(servicio._id)).toBeNull();
+  });
+
+  it('responde 404 si el servicio no existe', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .delete('/api/servicios/000000000000000000000000')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body.codigo).toBe('SERVICIO_NO_ENCONTRADO');
+  });
+});
+
+describe('GET /api/servicios (búsqueda)', () => {
+  it('filtra por texto y devuelve facetas por categoría y zona', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    await Servicio.create([
+      { ...servicioAprobado, usuarioId: usuario._id },
+      { ...servicioAprobado, usuarioId: usuario._id, zona: 'Belgrano', titulo: 'Plomero matriculado' },
+      {
+        ...servicioAprobado,
+        usuarioId: usuario._id,
+        categoria: 'electricidad',
+        titulo: 'Electricista',
+        descripcion: 'Instalaciones eléctricas y tableros.',
+      },
+    ]);
+
+    const res = await request(app)
+      .get('/api/servicios')
+      .query({ q: 'plomería', zona: 'palermo' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.resultados).toHaveLength(1);
+    expect(res.body.datos.paginacion.orden).toBe('relevancia');
+    // La faceta de zonas ignora el filtro de zona: muestra Palermo y Belgrano
+    expect(res.body.datos.facetas.zonas).toEqual([
+      { valor: 'belgrano', cantidad: 1 },
+      { valor: 'palermo', cantidad: 1 },
+    ]);
+    expect(res.body.datos.facetas.categorias).toEqual([{ valor: 'plomeria', cantidad: 1 }]);
+  });
+
+  it('no muestra servicios pendientes de moderación', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    await Servicio.create([
+      { ...servicioAprobado, usuarioId: usuario._id, titulo: 'Plomero aprobado' },
+      { ...servicioValido, usuarioId: usuario._id, titulo: 'Plomero pendiente' },
+    ]);
+
+    const res = await request(app).get('/api/servicios').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.resultados).toHaveLength(1);
+    expect(res.body.datos.resultados[0].titulo).toBe('Plomero aprobado');
+  });
+
+  it('pagina por cursor sin repetir resultados', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    for (let i = 0; i < 3; i++) {
+      await Servicio.create({ ...servicioAprobado, usuarioId: usuario._id, titulo: `Servicio número ${i}` });
+    }
+
+    const primera = await request(app)
+      .get('/api/servicios')
+      .query({ limite: 2 })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(primera.body.datos.resultados).toHaveLength(2);
+    expect(primera.body.datos.paginacion.hayMas).toBe(true);
+
+    const segunda = await request(app)
+      .get('/api/servicios')
+      .query({ limite: 2, cursor: primera.body.datos.paginacion.siguienteCursor })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(segunda.body.datos.resultados).toHaveLength(1);
+    expect(segunda.body.datos.paginacion.hayMas).toBe(false);
+    expect(segunda.body.datos.paginacion.siguienteCursor).toBeNull();
+
+    const titulos = [...primera.body.datos.resultados, ...segunda.body.datos.resultados].map(
+      (servicio: { titulo: string }) => servicio.titulo,
+    );
+    expect(new Set(titulos).size).toBe(3);
+  });
+
+  it('filtra por precio los servicios cuyo rango se superpone con el buscado', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    await Servicio.create([
+      { ...servicioAprobado, usuarioId: usuario._id, titulo: 'Plomero económico' },
+      {
+        ...servicioAprobado,
+        usuarioId: usuario._id,
+        titulo: 'Plomero premium',
+        precioMinimo: 6000,
+        precioMaximo: 9000,
+      },
+    ]);
+
+    const res = await request(app)
+      .get('/api/servicios')
+      .query({ precioMin: 5500, precioMax: 8000 })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.resultados).toHaveLength(1);
+    expect(res.body.datos.resultados[0].titulo).toBe('Plomero premium');
+  });
+
+  it('el filtro de precio incluye servicios sin precio y toma un extremo faltante como abierto', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const sinPrecio = { ...servicioAprobado, usuarioId: usuario._id, precioMinimo: undefined, precioMaximo: undefined };
+    await Servicio.create([
+      { ...sinPrecio, titulo: 'Plomero a presupuestar' },
+      { ...sinPrecio, titulo: 'Plomero desde 2000', precioMinimo: 2000 },
+      // Su máximo (500) queda por debajo del mínimo buscado: no aparece
+      { ...sinPrecio, titulo: 'Plomero hasta 500', precioMaximo: 500 },
+    ]);
+
+    const res = await request(app)
+      .get('/api/servicios')
+      .query({ precioMin: 1000, precioMax: 3000 })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    const titulos = res.body.datos.resultados.map((servicio: { titulo: string }) => servicio.titulo).sort();
+    expect(titulos).toEqual(['Plomero a presupuestar', 'Plomero desde 2000']);
+  });
+
+  it('rechaza un cursor manipulado', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .get('/api/servicios')
+      .query({ cursor: 'no-es-un-cursor' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('CURSOR_INVALIDO');
+  });
+});
+
+describe('GET /api/servicios/cercanos', () => {
+  // Posición del usuario: Palermo, Buenos Aires
+  const usuarioLat = -34.5875;
+  const usuarioLng = -58.42;
+
+  it('devuelve solo los servicios cuya cobertura alcanza al usuario, con su distancia', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    await Servicio.create([
+      // ~2 km al norte, cubre 5 km → aparece
+      {
+        ...servicioAprobado,
+        usuarioId: usuario._id,
+        titulo: 'Plomero cercano',
+        ubicacion: { type: 'Point', coordinates: [usuarioLng, usuarioLat + 0.018] },
+        radioCoberturaKm: 5,
+      },
+      // ~8 km al norte, cubre solo 5 km → no aparece aunque esté dentro de radioKm
+      {
+        ...servicioAprobado,
+        usuarioId: usuario._id,
+        titulo: 'Plomero lejano',
+        ubicacion: { type: 'Point', coordinates: [usuarioLng, usuarioLat + 0.072] },
+        radioCoberturaKm: 5,
+      },
+      // Sin ubicación → no participa de la búsqueda por cercanía
+      { ...servicioAprobado, usuarioId: usuario._id, titulo: 'Plomero sin ubicación' },
+    ]);
+
+    const res = await request(app)
+      .get('/api/servicios/cercanos')
+      .query({ lat: usuarioLat, lng: usuarioLng, radioKm: 10 })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos).toHaveLength(1);
+    expect(res.body.datos[0].titulo).toBe('Plomero cercano');
+    expect(res.body.datos[0].distanciaKm).toBeCloseTo(2, 0);
+  });
+
+  it('guarda la ubicación recibida como { lat, lng } en formato GeoJSON', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .post('/api/servicios')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...servicioValido, ubicacion: { lat: usuarioLat, lng: usuarioLng } });
+
+    expect(res.status).toBe(201);
+    expect(res.body.datos.ubicacion).toEqual({ type: 'Point', coordinates: [usuarioLng, usuarioLat] });
+  });
+
+  it('exige latitud y longitud válidas', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .get('/api/servicios/cercanos')
+      .query({ lat: 200, lng: usuarioLng })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+});
+
+describe('Moderación de servicios (/api/admin/servicios)', () => {
+  it('un servicio nuevo queda pendiente y aparece en la cola de moderación', async () => {
+    const { token } = await crearUsuarioConToken();
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+
+    const creado = await request(app)
+      .post('/api/servicios')
+      .set('Authorization', `Bearer ${token}`)
+      .send(servicioValido);
+
+    expect(creado.body.datos.estadoModeracion).toBe('pendiente');
+
+    const res = await request(app).get('/api/admin/servicios/pendientes').set('Authorization', `Bearer ${tokenAdmin}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.servicios).toHaveLength(1);
+    expect(res.body.datos.paginacion.total).toBe(1);
+  });
+
+  it('el admin aprueba un servicio y queda registrado en el historial', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { usuario: admin, token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .post(`/api/admin/servicios/${servicio._id}/aprobar`)
+      .set('Authorization', `Bearer ${tokenAdmin}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.estadoModeracion).toBe('aprobado');
+    expect(res.body.datos.historialModeracion[0].revisadoPor).toBe(admin._id.toString());
+  });
+
+  it('el admin rechaza un servicio indicando el motivo', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .post(`/api/admin/servicios/${servicio._id}/rechazar`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({ motivo: 'El teléfono de contacto no corresponde al prestador' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.estadoModeracion).toBe('rechazado');
+    expect(res.body.datos.motivoRechazo).toBe('El teléfono de contacto no corresponde al prestador');
+  });
+
+  it('exige motivo para rechazar', async () => {
+    const { usuario } = await crearUsuarioConToken();
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .post(`/api/admin/servicios/${servicio._id}/rechazar`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({});
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+
+  it('impide que un usuario común modere servicios', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioValido, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .post(`/api/admin/servicios/${servicio._id}/aprobar`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('una edición sensible del dueño devuelve el servicio aprobado a revisión', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioAprobado, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .patch(`/api/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ descripcion: 'Ahora también hacemos instalaciones de gas.' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.estadoModeracion).toBe('pendiente');
+  });
+
+  it('un cambio no sensible del dueño mantiene la aprobación', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const servicio = await Servicio.create({ ...servicioAprobado, usuarioId: usuario._id });
+
+    const res = await request(app)
+      .patch(`/api/servicios/${servicio._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ precioMaximo: 8000 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.estadoModeracion).toBe('aprobado');
+  });
+});
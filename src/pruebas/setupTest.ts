@@ -0,0 +1,30 @@
+/**
+ * src/pruebas/setupTest.ts
+ *
+ * Se ejecuta antes de cada archivo de pruebas (jest.setupFiles).
+ *
+ * Define variables de entorno de prueba para que config/variables.ts
+ * no aborte el proceso por falta de configuración. Solo se asignan
+ * si no vienen definidas desde afuera (ej: una MONGODB_URI local en CI).
+ */
+
+const variablesDePrueba: Record<string, string> = {
+  NODE_ENV: 'test',
+  PORT: '3001',
+  MONGODB_URI: 'mongodb://127.0.0.1:27017/servipro-test',
+  JWT_SECRET: 'secreto-de-pruebas-servipro',
+  JWT_EXPIRATION: '15m',
+  // Los SMS quedan en memoria (proveedores/sms/memoria.proveedor.ts): no se necesita Twilio
+  SMS_PROVEEDOR: 'memoria',
+  ACCESO_MAESTRO_HABILITADO: 'true',
+  CODIGO_MAESTRO: 'codigo-maestro-de-pruebas',
+  TELEFONO_ADMIN: '+34600000000',
+  // Secreto TOTP de pruebas (base32): las pruebas generan el código con utilidades/totp.ts
+  ACCESO_MAESTRO_TOTP_SECRETO: 'JBSWY3DPEHPK3PXP',
+};
+
+for (const [clave, valor] of Object.entries(variablesDePrueba)) {
+  if (process.env[clave] === undefined) {
+    process.env[clave] = valor;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * src/pruebas/sms.test.ts
+ *
+ * Pruebas del guard de costos de SMS (utilidades/limitesSMS.ts)
+ * y de su administración (/api/admin/sms/limites).
+ * Usan un MongoDB en memoria y el proveedor de SMS en memoria.
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { ConfiguracionSMS } from '../modelos/configuracionSMS.modelo';
+import { ContadorSMSPrefijo, ContadorSMSTelefono } from '../modelos/contadorSMS.modelo';
+import { smsEnMemoria } from '../proveedores/sms/memoria.proveedor';
+import { resolverPresupuesto, reservarEnvioSMS, PREFIJO_POR_DEFECTO } from '../utilidades/limitesSMS';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba, crearUsuarioConToken } from './utilidadesPrueba';
+
+const telefono = '+5491112345678';
+
+const pedirCodigo = (destino: string) => request(app).post('/api/autenticacion/registro').send({ telefono: destino });
+
+beforeAll(conectarBDPrueba);
+afterEach(async () => {
+  smsEnMemoria.limpiar();
+  await limpiarBDPrueba();
+});
+afterAll(desconectarBDPrueba);
+
+describe('resolverPresupuesto', () => {
+  const configuracion = {
+    presupuestoDiarioPorDefecto: 10,
+    presupuestosPorPrefijo: [
+      { prefijo: '+1', maximoDiario: 100 },
+      { prefijo: '+1809', maximoDiario: 5 },
+    ],
+  };
+
+  it('elige el prefijo configurado más largo', () => {
+    expect(resolverPresupuesto('+18095551234', configuracion)).toEqual({ prefijo: '+1809', maximoDiario: 5 });
+    expect(resolverPresupuesto('+12025551234', configuracion)).toEqual({ prefijo: '+1', maximoDiario: 100 });
+  });
+
+  it('usa el cupo compartido para prefijos sin presupuesto propio', () => {
+    expect(resolverPresupuesto('+88212345678', configuracion)).toEqual({
+      prefijo: PREFIJO_POR_DEFECTO,
+      maximoDiario: 10,
+    });
+  });
+});
+
+describe('Guard de SMS en /api/autenticacion/registro', () => {
+  it('respeta el cooldown entre envíos al mismo teléfono', async () => {
+    await pedirCodigo(telefono);
+    const res = await pedirCodigo(telefono);
+
+    expect(res.status).toBe(429);
+    expect(res.body.codigo).toBe('SMS_LIMITE_EXCEDIDO');
+    expect(res.body.datos.motivo).toBe('cooldown');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(smsEnMemoria.mensajes).toHaveLength(1);
+  });
+
+  it('aplica el tope diario por teléfono', async () => {
+    await ConfiguracionSMS.create({ cooldownSegundos: 0, maximoDiarioPorTelefono: 1 });
+
+    await pedirCodigo(telefono);
+    const res = await pedirCodigo(telefono);
+
+    expect(res.status).toBe(429);
+    expect(res.body.datos.motivo).toBe('limiteTelefono');
+  });
+
+  it('corta los envíos al agotar el presupuesto del prefijo', async () => {
+    await ConfiguracionSMS.create({ presupuestosPorPrefijo: [{ prefijo: '+54', maximoDiario: 1 }] });
+
+    await pedirCodigo('+5491111111111');
+    const res = await pedirCodigo('+5491122222222');
+    const otroPais = await pedirCodigo('+34600111222');
+
+    expect(res.status).toBe(429);
+    expect(res.body.datos.motivo).toBe('presupuestoPrefijo');
+    expect(otroPais.status).toBe(200);
+  });
+
+  it('responde 502 si el proveedor no pudo enviar el SMS', async () => {
+    const envio = jest.spyOn(smsEnMemoria, 'enviar').mockRejectedValueOnce(new Error('Proveedor caído'));
+
+    const res = await pedirCodigo(telefono);
+    envio.mockRestore();
+
+    expect(res.status).toBe(502);
+    expect(res.body.codigo).toBe('SERVICIO_EXTERNO_NO_DISPONIBLE');
+    expect(res.body.mensaje).toBe('No se pudo enviar el SMS. Intenta nuevamente.');
+  });
+
+  it('no reemplaza el código vigente cuando el envío se bloquea', async () => {
+    await pedirCodigo(telefono);
+    const codigo = smsEnMemoria.ultimoMensajePara(telefono)!.mensaje.match(/\d{6}/)![0];
+
+    await pedirCodigo(telefono);
+    const res = await request(app).post('/api/autenticacion/verificar').send({ telefono, codigo });
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('Guard de SMS con envíos simultáneos', () => {
+  const enParalelo = (telefonos: string[]) => Promise.allSettled(telefonos.map((destino) => reservarEnvioSMS(destino)));
+  const exitosos = (resultados: PromiseSettledResult<void>[]) =>
+    resultados.filter(({ status }) => status === 'fulfilled').length;
+
+  it('deja pasar un solo envío al mismo teléfono durante el cooldown', async () => {
+    const resultados = await enParalelo(Array(5).fill(telefono));
+
+    expect(exitosos(resultados)).toBe(1);
+    expect(await ContadorSMSTelefono.findOne({ telefono })).toMatchObject({ enviadosHoy: 1 });
+  });
+
+  it('no supera el tope diario por teléfono', async () => {
+    await ConfiguracionSMS.create({ cooldownSegundos: 0, maximoDiarioPorTelefono: 2 });
+
+    const resultados = await enParalelo(Array(6).fill(telefono));
+
+    expect(exitosos(resultados)).toBe(2);
+    expect(await ContadorSMSTelefono.findOne({ telefono })).toMatchObject({ enviadosHoy: 2 });
+  });
+
+  it('no supera el presupuesto del prefijo', async () => {
+    await ConfiguracionSMS.create({ presupuestosPorPrefijo: [{ prefijo: '+54', maximoDiario: 3 }] });
+
+    const resultados = await enParalelo(Array.from({ length: 8 }, (_valor, i) => `+549111111111${i}`));
+
+    expect(exitosos(resultados)).toBe(3);
+    expect(await ContadorSMSPrefijo.findOne({ prefijo: '+54' })).toMatchObject({ enviados: 3 });
+  });
+
+  it('devuelve el cupo del prefijo cuando el teléfono está en cooldown', async () => {
+    await ConfiguracionSMS.create({ presupuestosPorPrefijo: [{ prefijo: '+54', maximoDiario: 2 }] });
+
+    await enParalelo([telefono, telefono, telefono]);
+    const otro = await enParalelo(['+5491199999999']);
+
+    expect(exitosos(otro)).toBe(1);
+    expect(await ContadorSMSPrefijo.findOne({ prefijo: '+54' })).toMatchObject({ enviados: 2 });
+  });
+});
+
+describe('/api/admin/sms/limites', () => {
+  it('muestra la configuración y los envíos bloqueados del día', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'admin' });
+
+    await pedirCodigo(telefono);
+    await pedirCodigo(telefono);
+
+    const res = await request(app).get('/api/admin/sms/limites').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.configuracion.cooldownSegundos).toBe(60);
+    expect(res.body.datos.contadores).toEqual([
+      {
+        prefijo: PREFIJO_POR_DEFECTO,
+        enviados: 1,
+        bloqueados: { cooldown: 1, limiteTelefono: 0, presupuestoPrefijo: 0 },
+      },
+    ]);
+  });
+
+  it('permite a un admin ajustar los límites', async () => {
+    const { usuario, token } = await crearUsuarioConToken({ rol: 'admin' });
+
+    const res = await request(app)
+      .patch('/api/admin/sms/limites')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ cooldownSegundos: 120, presupuestosPorPrefijo: [{ prefijo: '+54', maximoDiario: 500 }] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.cooldownSegundos).toBe(120);
+    expect(res.body.datos.presupuestosPorPrefijo).toEqual([{ prefijo: '+54', maximoDiario: 500 }]);
+    expect(res.body.datos.actualizadoPor).toBe(usuario._id.toString());
+  });
+
+  it('rechaza prefijos mal formados', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'admin' });
+
+    const res = await request(app)
+      .patch('/api/admin/sms/limites')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ presupuestosPorPrefijo: [{ prefijo: '54', maximoDiario: 500 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('VALIDACION_DATOS_INVALIDOS');
+  });
+
+  it('impide el acceso a usuarios comunes', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app).get('/api/admin/sms/limites').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * src/pruebas/usuarios.test.ts
+ *
+ * Pruebas de integración de usuarios: perfil propio (/api/usuarios/yo),
+ * administración de usuarios (/api/admin/usuarios) y permisos por rol.
+ * Usan un MongoDB en memoria y tokens JWT reales.
+ */
+
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../app';
+import { permisosDeRol } from '../config/roles';
+import { Usuario, ROLES_USUARIO } from '../modelos/usuario.modelo';
+import { RefreshToken } from '../modelos/refreshToken.modelo';
+import { Servicio } from '../modelos/servicio.modelo';
+import { Click } from '../modelos/click.modelo';
+import { hashearRefreshToken, PayloadJWT } from '../utilidades/generarToken';
+import { conectarBDPrueba, limpiarBDPrueba, desconectarBDPrueba, crearUsuarioConToken } from './utilidadesPrueba';
+
+beforeAll(conectarBDPrueba);
+afterEach(limpiarBDPrueba);
+afterAll(desconectarBDPrueba);
+
+describe('GET /api/usuarios/yo', () => {
+  it('devuelve el perfil del usuario autenticado', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+
+    const res = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.telefono).toBe(usuario.telefono);
+    expect(res.body.datos.esPrestador).toBe(false);
+  });
+});
+
+describe('PATCH /api/usuarios/yo', () => {
+  it('actualiza el perfil y permite borrar campos con null', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    await request(app)
+      .patch('/api/usuarios/yo')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ nombre: 'Ana', email: 'Ana@Ejemplo.com', esPrestador: true });
+
+    const res = await request(app)
+      .patch('/api/usuarios/yo')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ nombre: null });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.nombre).toBeNull();
+    expect(res.body.datos.email).toBe('ana@ejemplo.com');
+    expect(res.body.datos.esPrestador).toBe(true);
+  });
+
+  it('ignora intentos de cambiar el rol', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+
+    await request(app)
+      .patch('/api/usuarios/yo')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ nombre: 'Ana', rol: 'admin' });
+
+    const actualizado = await Usuario.findById(usuario._id);
+    expect(actualizado!.rol).toBe('usuario');
+  });
+
+  it('responde 409 si el email ya lo usa otra cuenta', async () => {
+    await crearUsuarioConToken().then(({ usuario }) => Usuario.updateOne({ _id: usuario._id }, { email: 'a@b.com' }));
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .patch('/api/usuarios/yo')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email: 'a@b.com' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.codigo).toBe('EMAIL_EN_USO');
+  });
+});
+
+describe('DELETE /api/usuarios/yo', () => {
+  it('elimina la cuenta en cascada: sesiones, servicios y clicks', async () => {
+    const { usuario, token } = await crearUsuarioConToken();
+    const { usuario: otroPrestador } = await crearUsuarioConToken();
+
+    await RefreshToken.create({ tokenHash: hashearRefreshToken('refresh-token-de-prueba'), usuarioId: usuario._id });
+    const propio = await Servicio.create({
+      usuarioId: usuario._id,
+      titulo: 'Pintor de interiores',
+      descripcion: 'Pintura de departamentos y casas.',
+      categoria: 'pintura',
+      zona: 'palermo',
+      telefonoContacto: '+5491112345678',
+    });
+    const ajeno = await Servicio.create({
+      usuarioId: otroPrestador._id,
+      titulo: 'Gasista matriculado',
+      descripcion: 'Instalaciones de gas y service de calefones.',
+      categoria: 'gas',
+      zona: 'palermo',
+      telefonoContacto: '+5491187654321',
+    });
+    await Click.create([
+      { servicioId: propio._id, tipo: 'vista', visitanteId: 'visitante-1' },
+      { servicioId: ajeno._id, tipo: 'llamada', visitanteId: 'visitante-2', usuarioId: usuario._id },
+    ]);
+
+    const res = await request(app).delete('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(await Usuario.findById(usuario._id)).toBeNull();
+    expect(await RefreshToken.countDocuments({ usuarioId: usuario._id })).toBe(0);
+    expect(await Servicio.findById(propio._id)).toBeNull();
+    expect(await Click.countDocuments({ servicioId: propio._id })).toBe(0);
+
+    // El click que hizo sobre un servicio ajeno se conserva, pero anónimo
+    const clickAjeno = await Click.findOne({ servicioId: ajeno._id });
+    expect(clickAjeno!.usuarioId).toBeUndefined();
+  });
+});
+
+describe('Administración de usuarios (/api/admin/usuarios)', () => {
+  it('lista usuarios filtrando por prefijo telefónico', async () => {
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin', telefono: '+34600000001' });
+    await crearUsuarioConToken({ telefono: '+5491100000001' });
+    await crearUsuarioConToken({ telefono: '+5491100000002' });
+
+    const res = await request(app)
+      .get('/api/admin/usuarios')
+      .query({ prefijoTelefono: '+54' })
+      .set('Authorization', `Bearer ${tokenAdmin}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.usuarios).toHaveLength(2);
+    expect(res.body.datos.paginacion.total).toBe(2);
+  });
+
+  it('rechaza a usuarios que no son admin', async () => {
+    const { token } = await crearUsuarioConToken();
+
+    const res = await request(app).get('/api/admin/usuarios').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('suspende una cuenta: revoca sus sesiones y bloquea sus tokens vigentes', async () => {
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario, token } = await crearUsuarioConToken();
+    await RefreshToken.create({ tokenHash: hashearRefreshToken('refresh-token-de-prueba'), usuarioId: usuario._id });
+
+    const res = await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/suspender`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({ motivo: 'Publicaciones fraudulentas' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.suspendido).toBe(true);
+    expect(await RefreshToken.countDocuments({ usuarioId: usuario._id })).toBe(0);
+
+    const perfil = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+    expect(perfil.status).toBe(403);
+    expect(perfil.body.codigo).toBe('USUARIO_SUSPENDIDO');
+  });
+
+  it('impide que un admin se cambie su propio rol', async () => {
+    const { usuario, token } = await crearUsuarioConToken({ rol: 'admin' });
+
+    const res = await request(app)
+      .patch(`/api/admin/usuarios/${usuario._id}/rol`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ rol: 'usuario' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.codigo).toBe('OPERACION_SOBRE_SI_MISMO');
+  });
+
+  it('fuerza el cierre de todas las sesiones de un usuario e invalida sus tokens de acceso', async () => {
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario, token } = await crearUsuarioConToken();
+    await RefreshToken.create([
+      { tokenHash: hashearRefreshToken('refresh-token-uno'), usuarioId: usuario._id },
+      { tokenHash: hashearRefreshToken('refresh-token-dos'), usuarioId: usuario._id },
+    ]);
+
+    const res = await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/cerrar-sesiones`)
+      .set('Authorization', `Bearer ${tokenAdmin}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.sesionesCerradas).toBe(2);
+
+    const perfil = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+    expect(perfil.status).toBe(401);
+    expect(perfil.body.codigo).toBe('TOKEN_REVOCADO');
+  });
+});
+
+describe('Roles y permisos', () => {
+  it('incluye en el token los permisos del rol', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'soporte' });
+
+    const payload = jwt.decode(token) as PayloadJWT;
+
+    expect(payload.rol).toBe('soporte');
+    expect(payload.permisos).toEqual(permisosDeRol('soporte'));
+  });
+
+  it('soporte puede listar usuarios pero no suspenderlos', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'soporte' });
+    const { usuario } = await crearUsuarioConToken();
+
+    const listado = await request(app).get('/api/admin/usuarios').set('Authorization', `Bearer ${token}`);
+    expect(listado.status).toBe(200);
+
+    const res = await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/suspender`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ motivo: 'Publicaciones fraudulentas' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.codigo).toBe('ACCESO_NO_AUTORIZADO');
+    expect(res.body.datos.permisoRequerido).toBe('usuarios:suspender');
+  });
+
+  it('un moderador no puede suspender a un admin ni revocar sus sesiones', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'moderador' });
+    const { usuario: admin } = await crearUsuarioConToken({ rol: 'admin' });
+    await RefreshToken.create({ tokenHash: hashearRefreshToken('refresh-token-admin'), usuarioId: admin._id });
+
+    const res = await request(app)
+      .post(`/api/admin/usuarios/${admin._id}/suspender`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ motivo: 'Intento de escalada' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.codigo).toBe('USUARIO_CON_MAS_PRIVILEGIOS');
+
+    const actualizado = await Usuario.findById(admin._id).lean();
+    expect(actualizado).toMatchObject({ suspendido: false, versionToken: admin.versionToken });
+    expect(await RefreshToken.countDocuments({ usuarioId: admin._id })).toBe(1);
+  });
+
+  it('soporte no puede cerrar las sesiones de un admin, pero sí las de un usuario común', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'soporte' });
+    const { usuario: admin } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario } = await crearUsuarioConToken();
+
+    const contraAdmin = await request(app)
+      .post(`/api/admin/usuarios/${admin._id}/cerrar-sesiones`)
+      .set('Authorization', `Bearer ${token}`);
+    const contraUsuario = await request(app)
+      .post(`/api/admin/usuarios/${usuario._id}/cerrar-sesiones`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(contraAdmin.status).toBe(403);
+    expect(contraAdmin.body.codigo).toBe('USUARIO_CON_MAS_PRIVILEGIOS');
+    expect((await Usuario.findById(admin._id).lean())!.versionToken).toBe(admin.versionToken);
+    expect(contraUsuario.status).toBe(200);
+  });
+
+  it('un moderador accede a la cola de moderación', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'moderador' });
+
+    const res = await request(app).get('/api/admin/servicios/pendientes').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('lista los roles con sus permisos', async () => {
+    const { token } = await crearUsuarioConToken({ rol: 'admin' });
+
+    const res = await request(app).get('/api/admin/roles').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.map((r: { rol: string }) => r.rol)).toEqual([...ROLES_USUARIO]);
+  });
+
+  it('al asignar un rol invalida los tokens con los permisos anteriores', async () => {
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario, token } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .patch(`/api/admin/usuarios/${usuario._id}/rol`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({ rol: 'moderador' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.datos.rol).toBe('moderador');
+
+    const perfil = await request(app).get('/api/usuarios/yo').set('Authorization', `Bearer ${token}`);
+    expect(perfil.body.codigo).toBe('TOKEN_REVOCADO');
+  });
+
+  it('rechaza un rol inexistente', async () => {
+    const { token: tokenAdmin } = await crearUsuarioConToken({ rol: 'admin' });
+    const { usuario } = await crearUsuarioConToken();
+
+    const res = await request(app)
+      .patch(`/api/admin/usuarios/${usuario._id}/rol`)
+      .set('Authorization', `Bearer ${tokenAdmin}`)
+      .send({ rol: 'superadmin' });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * src/pruebas/utilidadesPrueba.ts
+ *
+ * Helpers compartidos por las pruebas de integración:
+ * - Base de datos MongoDB en memoria (mongodb-memory-server).
+ * - Creación rápida de usuarios con su token de acceso.
+ * - Captura de las líneas que escribe el logger.
+ *
+ * Uso típico en un archivo de pruebas:
+ *
+ *   beforeAll(conectarBDPrueba);
+ *   afterEach(limpiarBDPrueba);
+ *   afterAll(desconectarBDPrueba);
+ */
+
+import mongoose from 'mongoose';
+import { PassThrough } from 'stream';
+import { transports } from 'winston';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { cache } from '../config/cache';
+import { logger } from '../config/logger';
+import { Usuario, IUsuario } from '../modelos/usuario.modelo';
+import { generarJWT } from '../utilidades/generarToken';
+
+let servidorMongo: MongoMemoryServer | null = null;
+
+/**
+ * Levanta un MongoDB en memoria y conecta Mongoose.
+ * Se crean los índices de todos los modelos (necesario para 2dsphere, text, unique, etc.).
+ */
+export const conectarBDPrueba = async (): Promise<void> => {
+  servidorMongo = await MongoMemoryServer.create();
+  await mongoose.connect(servidorMongo.getUri());
+  await Promise.all(Object.values(mongoose.models).map((modelo) => modelo.syncIndexes()));
+};
+
+/**
+ * Vacía todas las colecciones para que cada prueba arranque limpia.
+ * También vacía la cache en memoria (ej: contadores de rate limiting).
+ */
+export const limpiarBDPrueba = async (): Promise<void> => {
+  cache.flushAll();
+  const colecciones = Object.values(mongoose.connection.collections);
+  await Promise.all(colecciones.map((coleccion) => coleccion.deleteMany({})));
+};
+
+/**
+ * Cierra la conexión y apaga el MongoDB en memoria.
+ */
+export const desconectarBDPrueba = async (): Promise<void> => {
+  await mongoose.disconnect();
+  if (servidorMongo) {
+    await servidorMongo.stop();
+    servidorMongo = null;
+  }
+};
+
+/**
+ * Crea un usuario verificado y devuelve también un JWT válido para él.
+ *
+ * @param datos - Campos a sobreescribir (ej: { rol: 'admin' }).
+ */
+export const crearUsuarioConToken = async (
+  datos: Partial<Pick<IUsuario, 'telefono' | 'rol'>> = {},
+): Promise<{ usuario: IUsuario; token: string }> => {
+  const usuario = await Usuario.create({
+    telefono: `+3460${Math.floor(1000000 + Math.random() * 8999999)}`,
+    estaVerificado: true,
+    ...datos,
+  });
+
+  const token = generarJWT({
+    usuarioId: usuario._id.toString(),
+    telefono: usuario.telefono,
+    rol: usuario.rol,
+    version: usuario.versionToken,
+    // El personal de prueba se considera logueado con segundo factor (sus permisos lo exigen)
+    dosFactores: usuario.rol !== 'usuario' && usuario.rol !== 'prestador',
+  });
+
+  return { usuario, token };
+};
+
+/**
+ * Captura las líneas que escribe el logger (ya formateadas) hasta llamar a detener().
+ */
+export const capturarLogs = (): { lineas: string[]; detener: () => void } => {
+  const lineas: string[] = [];
+  const flujo = new PassThrough();
+  flujo.on('data', (linea: Buffer) => lineas.push(linea.toString()));
+
+  const transporte = new transports.Stream({ stream: flujo });
+  logger.add(transporte);
+
+  return { lineas, detener: () => logger.remove(transporte) };
+};
@@ -1,14 +1,42 @@
 /**
  * admin.ruta.ts
  *
- * Define rutas accesibles solo por usuarios con rol "admin".
+ * Define las rutas del panel de administración.
  * Todas están protegidas por el middleware de autenticación (JWT)
- * y el middleware de autorización (esAdmin).
+ * y por requierePermiso con el permiso que necesita cada una (ver config/roles.ts).
  */
 
 import { Router, Request, Response } from 'express';
 import { autenticarJWT } from '../middlewares/auth.middleware';
-import { esAdmin } from '../middlewares/esAdmin.middleware';
+import { requierePermiso } from '../middlewares/requierePermiso.middleware';
+import { validarRequest } from '../middlewares/validateRequest.middleware';
+
+import {
+  listarUsuarios,
+  obtenerUsuarioAdmin,
+  listarRoles,
+  cambiarRolUsuario,
+  suspenderUsuario,
+  reactivarUsuario,
+  cerrarSesionesUsuario,
+} from '../controladores/admin.controlador';
+
+import { listarServiciosPendientes, aprobarServicio, rechazarServicio } from '../controladores/moderacion.controlador';
+import { obtenerLimitesSMS, actualizarLimitesSMS } from '../controladores/sms.controlador';
+import { listarAuditoria } from '../controladores/auditoria.controlador';
+import { obtenerEstadoSistema } from '../controladores/salud.controlador';
+
+import {
+  idParamSchema,
+  listarUsuariosQuerySchema,
+  cambiarRolSchema,
+  suspenderUsuarioSchema,
+  paginacionQuerySchema,
+  rechazarServicioSchema,
+  actualizarLimitesSMSSchema,
+  estadisticasSMSQuerySchema,
+  listarAuditoriaQuerySchema,
+} from '../validaciones/admin.validacion';
 
 const router = Router();
 
@@ -17,11 +45,11 @@ const router = Router();
  *
  * Ruta de prueba protegida:
  * - Requiere token válido (middleware autenticarJWT).
- * - Requiere rol "admin" (middleware esAdmin).
+ * - Requiere un permiso exclusivo de admin (usuarios:asignar-rol).
  *
  * Si pasa ambos filtros, responde con éxito y un mensaje personalizado.
  */
-router.get('/test', autenticarJWT, esAdmin, (req: Request, res: Response) => {
+router.get('/test', autenticarJWT, requierePermiso('usuarios:asignar-rol'), (req: Request, res: Response) => {
   return res.status(200).json({
     exito: true,
     mensaje: 'Acceso autorizado. ¡Sos un administrador!',
@@ -29,4 +57,185 @@ router.get('/test', autenticarJWT, esAdmin, (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/admin/usuarios
+ *
+ * Listado paginado de usuarios con filtros.
+ * Ej: /api/admin/usuarios?rol=usuario&suspendido=false&prefijoTelefono=+54&pagina=2
+ */
+router.get(
+  '/usuarios',
+  autenticarJWT,
+  requierePermiso('usuarios:ver'),
+  validarRequest(listarUsuariosQuerySchema, 'query'),
+  listarUsuarios,
+);
+
+/**
+ * GET /api/admin/usuarios/:id
+ *
+ * Detalle de un usuario con sus servicios y sesiones activas.
+ */
+router.get(
+  '/usuarios/:id',
+  autenticarJWT,
+  requierePermiso('usuarios:ver'),
+  validarRequest(idParamSchema, 'params'),
+  obtenerUsuarioAdmin,
+);
+
+/**
+ * GET /api/admin/roles
+ *
+ * Roles disponibles y los permisos que otorga cada uno (para el selector del panel).
+ */
+router.get('/roles', autenticarJWT, requierePermiso('usuarios:asignar-rol'), listarRoles);
+
+/**
+ * PATCH /api/admin/usuarios/:id/rol
+ *
+ * Asigna un rol a un usuario. Sus tokens vigentes se invalidan para que
+ * los nuevos permisos se apliquen de inmediato.
+ */
+router.patch(
+  '/usuarios/:id/rol',
+  autenticarJWT,
+  requierePermiso('usuarios:asignar-rol'),
+  validarRequest(idParamSchema, 'params'),
+  validarRequest(cambiarRolSchema),
+  cambiarRolUsuario,
+);
+
+/**
+ * POST /api/admin/usuarios/:id/suspender
+ *
+ * Suspende la cuenta y revoca todas sus sesiones.
+ */
+router.post(
+  '/usuarios/:id/suspender',
+  autenticarJWT,
+  requierePermiso('usuarios:suspender'),
+  validarRequest(idParamSchema, 'params'),
+  validarRequest(suspenderUsuarioSchema),
+  suspenderUsuario,
+);
+
+/**
+ * POST /api/admin/usuarios/:id/reactivar
+ *
+ * Levanta la suspensión de la cuenta.
+ */
+router.post(
+  '/usuarios/:id/reactivar',
+  autenticarJWT,
+  requierePermiso('usuarios:suspender'),
+  validarRequest(idParamSchema, 'params'),
+  reactivarUsuario,
+);
+
+/**
+ * POST /api/admin/usuarios/:id/cerrar-sesiones
+ *
+ * Logout forzado: elimina todos los refresh tokens del usuario.
+ */
+router.post(
+  '/usuarios/:id/cerrar-sesiones',
+  autenticarJWT,
+  requierePermiso('usuarios:cerrar-sesiones'),
+  validarRequest(idParamSchema, 'params'),
+  cerrarSesionesUsuario,
+);
+
+/**
+ * GET /api/admin/servicios/pendientes
+ *
+ * Cola de moderación: servicios nuevos o editados que esperan revisión.
+ */
+router.get(
+  '/servicios/pendientes',
+  autenticarJWT,
+  requierePermiso('servicios:moderar'),
+  validarRequest(paginacionQuerySchema, 'query'),
+  listarServiciosPendientes,
+);
+
+/**
+ * POST /api/admin/servicios/:id/aprobar
+ *
+ * Aprueba un servicio: pasa a ser visible en las búsquedas públicas.
+ */
+router.post(
+  '/servicios/:id/aprobar',
+  autenticarJWT,
+  requierePermiso('servicios:moderar'),
+  validarRequest(idParamSchema, 'params'),
+  aprobarServicio,
+);
+
+/**
+ * POST /api/admin/servicios/:id/rechazar
+ *
+ * Rechaza un servicio indicando el motivo.
+ */
+router.post(
+  '/servicios/:id/rechazar',
+  autenticarJWT,
+  requierePermiso('servicios:moderar'),
+  validarRequest(idParamSchema, 'params'),
+  validarRequest(rechazarServicioSchema),
+  rechazarServicio,
+);
+
+/**
+ * GET /api/admin/sms/limites
+ *
+ * Límites de envío de SMS y contadores del día por prefijo (enviados y bloqueados).
+ * Ej: /api/admin/sms/limites?fecha=2025-03-10
+ */
+router.get(
+  '/sms/limites',
+  autenticarJWT,
+  requierePermiso('sms:configurar'),
+  validarRequest(estadisticasSMSQuerySchema, 'query'),
+  obtenerLimitesSMS,
+);
+
+/**
+ * PATCH /api/admin/sms/limites
+ *
+ * Ajusta cooldown, tope diario por teléfono y presupuestos por prefijo.
+ */
+router.patch(
+  '/sms/limites',
+  autenticarJWT,
+  requierePermiso('sms:configurar'),
+  validarRequest(actualizarLimitesSMSSchema),
+  actualizarLimitesSMS,
+);
+
+/**
+ * GET /api/admin/auditoria
+ *
+ * Registro de auditoría con filtros por actor, acción, objetivo y fechas.
+ * Con formato=csv se descarga como archivo.
+ * Ej: /api/admin/auditoria?accion=usuario.suspendido&desde=2025-03-01&formato=csv
+ *
+ * No hay rutas de escritura: las entradas solo las agrega el backend.
+ */
+router.get(
+  '/auditoria',
+  autenticarJWT,
+  requierePermiso('auditoria:ver'),
+  validarRequest(listarAuditoriaQuerySchema, 'query'),
+  listarAuditoria,
+);
+
+/**
+ * GET /api/admin/estado
+ *
+ * Estado del sistema: versión, uptime, memoria, conexión y pool de MongoDB,
+ * verificación de dependencias y códigos de verificación pendientes.
+ */
+router.get('/estado', autenticarJWT, requierePermiso('sistema:ver-estado'), obtenerEstadoSistema);
+
 export default router;
@@ -7,6 +7,9 @@
  * - Login
  * - Refresh
  * - Acceso maestro
+ * - Logout
+ * - Segundo factor (TOTP)
+ * - Sesiones del usuario autenticado
  */
 
 import { Router } from 'express';
@@ -19,42 +22,82 @@ import {
 } from '../controladores/autenticacion.controlador';
 
 import { accesoMaestro } from '../controladores/accesoMaestro.controlador';
+import { listarSesiones, cerrarSesion, cerrarOtrasSesiones, logout } from '../controladores/sesiones.controlador';
+import {
+  iniciarInscripcionDosFactores,
+  confirmarDosFactores,
+  verificarDosFactores,
+  regenerarCodigosRecuperacion,
+} from '../controladores/dosFactores.controlador';
+
+import { autenticarJWT } from '../middlewares/auth.middleware';
+import { accesoMaestroHabilitado } from '../middlewares/accesoMaestro.middleware';
 
 import { validarRequest } from '../middlewares/validateRequest.middleware';
+import { limitarTasa } from '../middlewares/rateLimit.middleware';
 
 import {
   registroSchema,
   verificacionSchema,
   loginSchema,
   refreshSchema,
+  logoutSchema,
   accesoMaestroSchema,
+  sesionIdParamSchema,
+  codigoTOTPSchema,
+  verificarDosFactoresSchema,
 } from '../validaciones/autenticacion.validacion';
 
 const router = Router();
 
+// Los límites por IP se aplican antes de validar (cortan el abuso lo antes posible);
+// los límites por teléfono, después, para contar el teléfono ya normalizado.
+
 /**
  * Paso 1: POST /api/autenticacion/registro
  *
  * El usuario envía su número de teléfono para iniciar el proceso de registro.
  * Se genera un código aleatorio que se envía vía SMS usando Twilio.
+ * Limitado por IP y por teléfono: cada envío cuesta un SMS.
  */
-router.post('/registro', validarRequest(registroSchema), registrarUsuario);
+router.post(
+  '/registro',
+  limitarTasa('registroPorIp'),
+  validarRequest(registroSchema),
+  limitarTasa('registroPorTelefono'),
+  registrarUsuario,
+);
 
 /**
  * Paso 2: POST /api/autenticacion/verificar
  *
  * El usuario ingresa el código recibido por SMS.
  * Si el código es válido y no ha expirado, se registra el usuario en la base de datos.
+ * Limitado por IP y por teléfono con las políticas de /login: los dos comparan un código SMS
+ * y comparten la cuenta, así alternar entre ambos no duplica los intentos.
  */
-router.post('/verificar', validarRequest(verificacionSchema), verificarUsuario);
+router.post(
+  '/verificar',
+  limitarTasa('loginPorIp'),
+  validarRequest(verificacionSchema),
+  limitarTasa('loginPorTelefono'),
+  verificarUsuario,
+);
 
 /**
  * Paso 3: POST /api/autenticacion/login
  *
  * El usuario ya registrado envía su número de teléfono.
  * Si el teléfono existe, se genera un nuevo código de acceso y se envía por SMS.
+ * Limitado por IP y por teléfono.
  */
-router.post('/login', validarRequest(loginSchema), loginUsuario);
+router.post(
+  '/login',
+  limitarTasa('loginPorIp'),
+  validarRequest(loginSchema),
+  limitarTasa('loginPorTelefono'),
+  loginUsuario,
+);
 
 /**
  * Paso 4: POST /api/autenticacion/refresh
@@ -62,17 +105,106 @@ router.post('/login', validarRequest(loginSchema), loginUsuario);
  * El cliente envía su refresh token para obtener un nuevo token de acceso.
  * Validamos el token, su existencia en la base de datos y su expiración.
  * Si todo es válido, generamos un nuevo token de acceso.
+ * Limitado por IP.
  */
-router.post('/refresh', validarRequest(refreshSchema), refrescarToken);
+router.post('/refresh', limitarTasa('refreshPorIp'), validarRequest(refreshSchema), refrescarToken);
 
 /**
  * Paso oculto: POST /api/autenticacion/acceso-maestro
  *
- * Endpoint exclusivo del administrador.
- * No requiere SMS ni verificación.
- * Si el código secreto es válido, se genera un usuario admin (si no existe)
- * y se devuelven los tokens de acceso.
+ * Endpoint exclusivo del administrador. No requiere SMS, pero sí el código maestro
+ * y un código TOTP, desde una IP permitida. Si es válido, se genera un usuario admin
+ * (si no existe) y se devuelven los tokens de acceso.
+ * Deshabilitado (404) salvo que ACCESO_MAESTRO_HABILITADO=true.
+ * Limitado por IP con un máximo bajo: no hay usos legítimos de muchos intentos.
+ */
+router.post(
+  '/acceso-maestro',
+  accesoMaestroHabilitado,
+  limitarTasa('accesoMaestroPorIp'),
+  validarRequest(accesoMaestroSchema),
+  accesoMaestro,
+);
+
+/**
+ * POST /api/autenticacion/logout
+ *
+ * Cierra la sesión actual: elimina su refresh token y revoca el token de acceso
+ * con el que se hace la llamada (deja de servir aunque todavía no haya expirado).
+ */
+router.post('/logout', autenticarJWT, validarRequest(logoutSchema), logout);
+
+/**
+ * POST /api/autenticacion/2fa/inscripcion
+ *
+ * Genera el secreto TOTP y la URI otpauth:// (código QR) para la app autenticadora.
+ * El segundo factor no se exige hasta confirmarlo.
+ */
+router.post('/2fa/inscripcion', autenticarJWT, iniciarInscripcionDosFactores);
+
+/**
+ * POST /api/autenticacion/2fa/confirmar
+ *
+ * Confirma la inscripción con un código de la app y devuelve los códigos de recuperación.
+ * Limitado por usuario: cada intento es un código adivinable.
+ */
+router.post(
+  '/2fa/confirmar',
+  autenticarJWT,
+  limitarTasa('dosFactoresPorUsuario'),
+  validarRequest(codigoTOTPSchema),
+  confirmarDosFactores,
+);
+
+/**
+ * POST /api/autenticacion/2fa/verificar
+ *
+ * Segundo paso del login de un usuario con segundo factor: token pendiente
+ * (devuelto por /login) + código TOTP o código de recuperación.
+ * Limitado por IP; además, los intentos fallidos se cuentan por usuario y al agotarlos
+ * el segundo factor queda bloqueado (ver utilidades/dosFactores.ts).
+ */
+router.post(
+  '/2fa/verificar',
+  limitarTasa('dosFactoresPorIp'),
+  validarRequest(verificarDosFactoresSchema),
+  verificarDosFactores,
+);
+
+/**
+ * POST /api/autenticacion/2fa/codigos-recuperacion
+ *
+ * Reemplaza los códigos de recuperación. Requiere un código TOTP vigente.
+ */
+router.post(
+  '/2fa/codigos-recuperacion',
+  autenticarJWT,
+  limitarTasa('dosFactoresPorUsuario'),
+  validarRequest(codigoTOTPSchema),
+  regenerarCodigosRecuperacion,
+);
+
+/**
+ * GET /api/autenticacion/sesiones
+ *
+ * Lista las sesiones activas del usuario: dispositivo, user agent, IP,
+ * inicio y último uso. Marca cuál es la sesión actual.
+ */
+router.get('/sesiones', autenticarJWT, listarSesiones);
+
+/**
+ * POST /api/autenticacion/sesiones/cerrar-otras
+ *
+ * Cierra la sesión en todos los dispositivos excepto el actual.
+ * Debe declararse antes de /sesiones/:id.
+ */
+router.post('/sesiones/cerrar-otras', autenticarJWT, cerrarOtrasSesiones);
+
+/**
+ * DELETE /api/autenticacion/sesiones/:id
+ *
+ * Cierra una sesión del usuario (ej: un dispositivo perdido).
  */
-router.post('/acceso-maestro', validarRequest(accesoMaestroSchema), accesoMaestro);
+router.delete('/sesiones/:id', autenticarJWT, validarRequest(sesionIdParamSchema, 'params'), cerrarSesion);
 
 export default router;
@@ -0,0 +1,44 @@
+/**
+ * src/rutas/clicks.ruta.ts
+ *
+ * Define las rutas de tracking de clicks:
+ * - Registro de clicks (público)
+ * - Contadores por servicio (dueño o admin)
+ */
+
+import { Router } from 'express';
+
+import { registrarClick, obtenerContadoresServicio } from '../controladores/clicks.controlador';
+
+import { autenticarJWT, autenticarJWTOpcional } from '../middlewares/auth.middleware';
+import { validarRequest } from '../middlewares/validateRequest.middleware';
+import { limitarTasa } from '../middlewares/rateLimit.middleware';
+
+import { registrarClickSchema } from '../validaciones/clicks.validacion';
+
+const router = Router();
+
+/**
+ * POST /api/clicks
+ *
+ * El frontend informa que un usuario final tocó "llamar", "WhatsApp" o abrió el detalle.
+ * Es público: si viene un JWT válido se asocia el usuario, si no, queda anónimo.
+ * Limitado por IP y, si hay sesión, también por usuario (para no inflar contadores).
+ */
+router.post(
+  '/',
+  limitarTasa('clicksPorIp'),
+  autenticarJWTOpcional,
+  limitarTasa('clicksPorUsuario'),
+  validarRequest(registrarClickSchema),
+  registrarClick,
+);
+
+/**
+ * GET /api/clicks/servicios/:servicioId
+ *
+ * El prestador consulta los contadores acumulados de su servicio.
+ */
+router.get('/servicios/:servicioId', autenticarJWT, obtenerContadoresServicio);
+
+export default router;
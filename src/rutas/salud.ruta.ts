@@ -0,0 +1,33 @@
+/**
+ * src/rutas/salud.ruta.ts
+ *
+ * Rutas de salud para el orquestador (Kubernetes, balanceador, etc.):
+ * - Liveness: el proceso está vivo
+ * - Readiness: el proceso puede atender solicitudes (sus dependencias responden)
+ *
+ * Son públicas y no devuelven detalles internos.
+ * El estado detallado está en GET /api/admin/estado.
+ */
+
+import { Router } from 'express';
+
+import { vivo, listo } from '../controladores/salud.controlador';
+
+const router = Router();
+
+/**
+ * GET /health/live
+ *
+ * 200 mientras el proceso responda. Si falla, el orquestador reinicia el contenedor.
+ */
+router.get('/live', vivo);
+
+/**
+ * GET /health/ready
+ *
+ * 200 si MongoDB, el proveedor de SMS y el cache responden; 503 si alguno falla.
+ * Mientras falle, el orquestador no le envía tráfico.
+ */
+router.get('/ready', listo);
+
+export default router;
@@ -0,0 +1,116 @@
+/**
+ * src/rutas/servicios.ruta.ts
+ *
+ * Define las rutas del CRUD de servicios:
+ * - Crear
+ * - Buscar (texto y cercanía)
+ * - Obtener
+ * - Actualizar
+ * - Eliminar
+ * - Estadísticas de clicks
+ *
+ * Todas requieren un usuario autenticado (JWT).
+ */
+
+import { Router } from 'express';
+
+import {
+  crearServicio,
+  buscarServicios,
+  buscarServiciosCercanos,
+  listarMisServicios,
+  obtenerServicio,
+  actualizarServicio,
+  eliminarServicio,
+} from '../controladores/servicios.controlador';
+import { obtenerEstadisticasServicio } from '../controladores/clicks.controlador';
+
+import { autenticarJWT } from '../middlewares/auth.middleware';
+import { requierePermiso } from '../middlewares/requierePermiso.middleware';
+import { validarRequest } from '../middlewares/validateRequest.middleware';
+
+import {
+  crearServicioSchema,
+  actualizarServicioSchema,
+  busquedaServiciosSchema,
+  cercanosQuerySchema,
+} from '../validaciones/servicios.validacion';
+import { estadisticasQuerySchema } from '../validaciones/clicks.validacion';
+
+const router = Router();
+
+/**
+ * POST /api/servicios
+ *
+ * El prestador publica un nuevo servicio.
+ * El dueño se toma del usuario autenticado, nunca del body.
+ */
+router.post(
+  '/',
+  autenticarJWT,
+  requierePermiso('servicios:publicar'),
+  validarRequest(crearServicioSchema),
+  crearServicio,
+);
+
+/**
+ * GET /api/servicios
+ *
+ * Búsqueda avanzada: texto libre, filtros, orden, paginación por cursor y facetas.
+ * El filtro de precio no excluye a los servicios sin precio cargado (se presupuestan a medida).
+ * Ej: /api/servicios?q=plomero&zona=palermo&orden=mas-clicks&limite=10
+ */
+router.get('/', autenticarJWT, validarRequest(busquedaServiciosSchema, 'query'), buscarServicios);
+
+/**
+ * GET /api/servicios/cercanos
+ *
+ * Servicios cuyo radio de cobertura alcanza la posición del usuario, ordenados por distancia.
+ * Ej: /api/servicios/cercanos?lat=-34.58&lng=-58.42&radioKm=5
+ * Debe declararse antes de /:id para que "cercanos" no se tome como un ID.
+ */
+router.get('/cercanos', autenticarJWT, validarRequest(cercanosQuerySchema, 'query'), buscarServiciosCercanos);
+
+/**
+ * GET /api/servicios/mios
+ *
+ * Lista los servicios del usuario autenticado.
+ * Debe declararse antes de /:id para que "mios" no se tome como un ID.
+ */
+router.get('/mios', autenticarJWT, listarMisServicios);
+
+/**
+ * GET /api/servicios/:id
+ *
+ * Devuelve el detalle de un servicio.
+ */
+router.get('/:id', autenticarJWT, obtenerServicio);
+
+/**
+ * GET /api/servicios/:id/estadisticas
+ *
+ * Panel del prestador: clicks por día/semana/mes y por tipo,
+ * comparados con el período anterior. Solo su dueño o quien tenga estadisticas:ver-todas.
+ */
+router.get(
+  '/:id/estadisticas',
+  autenticarJWT,
+  validarRequest(estadisticasQuerySchema, 'query'),
+  obtenerEstadisticasServicio,
+);
+
+/**
+ * PATCH /api/servicios/:id
+ *
+ * Actualiza un servicio. Solo su dueño o quien tenga servicios:gestionar-todos.
+ */
+router.patch('/:id', autenticarJWT, validarRequest(actualizarServicioSchema), actualizarServicio);
+
+/**
+ * DELETE /api/servicios/:id
+ *
+ * Elimina un servicio. Solo su dueño o quien tenga servicios:gestionar-todos.
+ */
+router.delete('/:id', autenticarJWT, eliminarServicio);
+
+export default router;
@@ -0,0 +1,44 @@
+/**
+ * src/rutas/usuarios.ruta.ts
+ *
+ * Define las rutas del perfil del usuario autenticado:
+ * - Ver mi perfil
+ * - Editar mi perfil
+ * - Eliminar mi cuenta
+ *
+ * Todas requieren un usuario autenticado (JWT).
+ */
+
+import { Router } from 'express';
+
+import { obtenerMiPerfil, actualizarMiPerfil, eliminarMiCuenta } from '../controladores/usuarios.controlador';
+
+import { autenticarJWT } from '../middlewares/auth.middleware';
+import { validarRequest } from '../middlewares/validateRequest.middleware';
+
+import { actualizarPerfilSchema } from '../validaciones/usuarios.validacion';
+
+const router = Router();
+
+/**
+ * GET /api/usuarios/yo
+ *
+ * Devuelve el perfil del usuario autenticado.
+ */
+router.get('/yo', autenticarJWT, obtenerMiPerfil);
+
+/**
+ * PATCH /api/usuarios/yo
+ *
+ * Edita nombre, avatar, email, zona preferida o el indicador de prestador.
+ */
+router.patch('/yo', autenticarJWT, validarRequest(actualizarPerfilSchema), actualizarMiPerfil);
+
+/**
+ * DELETE /api/usuarios/yo
+ *
+ * Elimina la cuenta y todo lo asociado (sesiones, servicios, clicks).
+ */
+router.delete('/yo', autenticarJWT, eliminarMiCuenta);
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * src/rutas/wellKnown.ruta.ts
+ *
+ * Rutas públicas estándar bajo /.well-known:
+ * - Claves públicas de verificación de tokens (JWKS)
+ */
+
+import { Router } from 'express';
+
+import { obtenerClavesPublicas } from '../controladores/jwks.controlador';
+
+const router = Router();
+
+/**
+ * GET /.well-known/jwks.json
+ *
+ * Claves públicas (activa y retiradas) para que otros servicios
+ * verifiquen nuestros tokens sin conocer ningún secreto.
+ */
+router.get('/jwks.json', obtenerClavesPublicas);
+
+export default router;
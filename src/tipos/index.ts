@@ -18,6 +18,9 @@
  */
 
 export type { IUsuario } from '../modelos/usuario.modelo';
+export type { IServicio, ContadoresClicks } from '../modelos/servicio.modelo';
+export type { IClick, TipoClick } from '../modelos/click.modelo';
+export type { RequestConUsuario } from '../middlewares/auth.middleware';
 // En el futuro podemos agregar acá más tipos:
 // export type { OtroTipo } from '../modelos/otro.modelo';
 // export type { OtroInterface } from '../validaciones/archivo.validacion';
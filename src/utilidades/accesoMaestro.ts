@@ -0,0 +1,181 @@
+/**
+ * src/utilidades/accesoMaestro.ts
+ *
+ * Controles de seguridad del acceso maestro:
+ * - Lista de IPs permitidas (ACCESO_MAESTRO_IPS_PERMITIDAS).
+ * - Comparación del código maestro en tiempo constante.
+ * - Bloqueo estricto: ACCESO_MAESTRO_MAX_INTENTOS intentos sin éxito dentro de la ventana
+ *   bloquean el acceso durante ACCESO_MAESTRO_BLOQUEO_MINUTOS desde el último intento.
+ *   Cada intento se reserva de forma atómica antes de comparar las credenciales.
+ * - Códigos TOTP de un solo uso.
+ * - Registro de cada intento en la colección de auditoría.
+ *
+ * El bloqueo es global (no por IP): hay una sola cuenta detrás de este acceso,
+ * y cambiar de IP no debe servir para seguir probando códigos.
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import { env } from '../config/variables';
+import { loggerSeguridad } from '../config/logger';
+import {
+  IntentoAccesoMaestro,
+  IIntentoAccesoMaestro,
+  MotivoAccesoMaestro,
+  ResultadoAccesoMaestro,
+} from '../modelos/intentoAccesoMaestro.modelo';
+import { ContadorAccesoMaestro, CLAVE_CONTADOR_ACCESO_MAESTRO } from '../modelos/contadorAccesoMaestro.modelo';
+
+/**
+ * Datos de un intento que se guardan en la auditoría.
+ */
+export interface DatosIntentoAccesoMaestro {
+  resultado: ResultadoAccesoMaestro;
+  motivo?: MotivoAccesoMaestro;
+  ip?: string;
+  userAgent?: string;
+  usuarioId?: IIntentoAccesoMaestro['usuarioId'];
+  adminCreado?: boolean;
+  pasoTOTP?: number;
+}
+
+/**
+ * ipPermitidaAccesoMaestro
+ *
+ * Indica si la IP está dentro de la lista permitida (IPs sueltas o rangos CIDR).
+ * Con la lista vacía se admite cualquier IP (en producción la configuración lo impide).
+ *
+ * @param ip - IP de la request (las IPv4 mapeadas en IPv6, "::ffff:a.b.c.d", se comparan como IPv4)
+ * @param permitidas - Lista de IPs o rangos (por defecto, la configurada)
+ */
+export const ipPermitidaAccesoMaestro = (
+  ip: string | undefined,
+  permitidas: string[] = env.ACCESO_MAESTRO_IPS_PERMITIDAS,
+): boolean => {
+  if (permitidas.length === 0) {
+    return true;
+  }
+
+  if (!ip) {
+    return false;
+  }
+
+  const lista = new net.BlockList();
+
+  for (const entrada of permitidas) {
+    const [direccion, prefijo] = entrada.split('/');
+    const tipo = net.isIPv6(direccion) ? 'ipv6' : 'ipv4';
+
+    if (prefijo === undefined) {
+      lista.addAddress(direccion, tipo);
+    } else {
+      lista.addSubnet(direccion, Number(prefijo), tipo);
+    }
+  }
+
+  const normalizada = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+
+  return lista.check(normalizada, net.isIPv6(normalizada) ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * compararCodigoMaestro
+ *
+ * Compara el código recibido con CODIGO_MAESTRO en tiempo constante.
+ * Se comparan los SHA-256 de ambos: timingSafeEqual exige igual longitud
+ * y así tampoco se filtra la longitud del código real.
+ */
+export const compararCodigoMaestro = (codigo: string): boolean => {
+  const recibido = crypto.createHash('sha256').update(codigo).digest();
+  const esperado = crypto
+    .createHash('sha256')
+    .update(env.CODIGO_MAESTRO ?? '')
+    .digest();
+
+  return env.CODIGO_MAESTRO !== undefined && crypto.timingSafeEqual(recibido, esperado);
+};
+
+/**
+ * Resultado de reservar un intento de acceso maestro.
+ */
+export type ReservaAccesoMaestro = { permitido: true } | { permitido: false; bloqueadoHasta: Date };
+
+/**
+ * reservarIntentoAccesoMaestro
+ *
+ * Consume un intento antes de comparar el código maestro y el TOTP.
+ * La reserva es un $inc condicional sobre un único contador: aunque lleguen muchos
+ * intentos en paralelo, solo ACCESO_MAESTRO_MAX_INTENTOS pasan a comparar credenciales.
+ *
+ * - Si la ventana ya venció, la cuenta vuelve a empezar.
+ * - Cada intento reservado corre el fin de la ventana; los rechazados por el bloqueo
+ *   no la extienden: el bloqueo vence a la hora indicada aunque sigan llegando intentos.
+ */
+export const reservarIntentoAccesoMaestro = async (): Promise<ReservaAccesoMaestro> => {
+  const ahora = new Date();
+  const clave = CLAVE_CONTADOR_ACCESO_MAESTRO;
+
+  // El contador se crea aparte (filtro solo por igualdad): dos requests que lo crean
+  // a la vez no chocan con el índice único
+  await ContadorAccesoMaestro.updateOne(
+    { clave },
+    { $setOnInsert: { intentos: 0, ventanaHasta: ahora } },
+    { upsert: true },
+  );
+
+  const reservado = await ContadorAccesoMaestro.findOneAndUpdate(
+    { clave, $or: [{ intentos: { $lt: env.ACCESO_MAESTRO_MAX_INTENTOS } }, { ventanaHasta: { $lte: ahora } }] },
+    [
+      {
+        $set: {
+          intentos: { $cond: [{ $lte: ['$ventanaHasta', ahora] }, 1, { $add: ['$intentos', 1] }] },
+          ventanaHasta: new Date(ahora.getTime() + env.ACCESO_MAESTRO_BLOQUEO_MINUTOS * 60 * 1000),
+        },
+      },
+    ],
+  );
+
+  if (reservado) {
+    return { permitido: true };
+  }
+
+  const contador = await ContadorAccesoMaestro.findOne({ clave }).select('ventanaHasta').lean();
+
+  return { permitido: false, bloqueadoHasta: contador?.ventanaHasta ?? ahora };
+};
+
+/**
+ * reiniciarIntentosAccesoMaestro
+ *
+ * Vuelve a cero la cuenta: las credenciales fueron válidas.
+ */
+export const reiniciarIntentosAccesoMaestro = async (): Promise<void> => {
+  await ContadorAccesoMaestro.updateOne({ clave: CLAVE_CONTADOR_ACCESO_MAESTRO }, { intentos: 0 });
+};
+
+/**
+ * pasoTOTPYaUsado
+ *
+ * Indica si el paso TOTP (o uno posterior) ya se usó en un acceso exitoso.
+ * Evita que un código interceptado se reutilice dentro de sus 30 segundos de validez.
+ */
+export const pasoTOTPYaUsado = async (paso: number): Promise<boolean> => {
+  const usado = await IntentoAccesoMaestro.exists({ resultado: 'exitoso', pasoTOTP: { $gte: paso } });
+  return usado !== null;
+};
+
+/**
+ * registrarIntentoAccesoMaestro
+ *
+ * Guarda el intento en la auditoría y deja constancia en el log.
+ * Los intentos no exitosos se registran como eventos de seguridad.
+ */
+export const registrarIntentoAccesoMaestro = async (datos: DatosIntentoAccesoMaestro): Promise<void> => {
+  await IntentoAccesoMaestro.create(datos);
+
+  if (datos.resultado === 'exitoso') {
+    loggerSeguridad.info(`Acceso maestro exitoso desde ${datos.ip} (${datos.userAgent ?? 'sin user agent'})`);
+  } else {
+    loggerSeguridad.warn(`Acceso maestro ${datos.resultado} desde ${datos.ip}: ${datos.motivo}`);
+  }
+};
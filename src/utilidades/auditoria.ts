@@ -0,0 +1,114 @@
+/**
+ * src/utilidades/auditoria.ts
+ *
+ * Escritura del registro de auditoría (ver modelos/registroAuditoria.modelo.ts).
+ *
+ * Los controladores llaman a registrarAuditoria después de completar la acción:
+ * el actor, la IP, el user agent y el request id se toman de la request.
+ * Cada entrada también se escribe en el log de auditoría (archivo auditoria-*.log).
+ */
+
+import { Request } from 'express';
+import { Document, Types } from 'mongoose';
+import { loggerAuditoria, loggerSeguridad } from '../config/logger';
+import { obtenerRequestId } from './requestId';
+import { IUsuario } from '../modelos/usuario.modelo';
+import {
+  AccionAuditoria,
+  IRegistroAuditoria,
+  RegistroAuditoria,
+  TipoObjetivoAuditoria,
+} from '../modelos/registroAuditoria.modelo';
+
+/**
+ * Largo máximo del user agent guardado (mismo criterio que en las sesiones).
+ */
+const LARGO_MAXIMO_USER_AGENT = 500;
+
+/**
+ * Lo que describe cada controlador al auditar una acción.
+ */
+export interface DatosAuditoria {
+  accion: AccionAuditoria;
+  objetivoTipo: TipoObjetivoAuditoria;
+  objetivoId?: Types.ObjectId | string;
+  cambios?: IRegistroAuditoria['cambios'];
+  metadatos?: Record<string, unknown>;
+  // Actor explícito, para cuando req.usuario todavía no existe (ej: acceso maestro)
+  actor?: Pick<IUsuario, '_id' | 'rol'>;
+}
+
+/**
+ * calcularCambios
+ *
+ * Compara los campos indicados de dos versiones de un documento
+ * y devuelve solo los que cambiaron. Si no cambió ninguno devuelve undefined.
+ *
+ * @param antes - Documento (u objeto plano) antes de la acción.
+ * @param despues - Documento (u objeto plano) después de la acción.
+ * @param campos - Campos a comparar.
+ */
+export const calcularCambios = (
+  antes: object,
+  despues: object,
+  campos: readonly string[],
+): IRegistroAuditoria['cambios'] => {
+  // Los documentos de Mongoose se pasan a objetos planos: se guardan como datos, no como subdocumentos
+  const plano = (objeto: object): Record<string, unknown> =>
+    objeto instanceof Document ? objeto.toObject() : (objeto as Record<string, unknown>);
+  const [objetoAntes, objetoDespues] = [plano(antes), plano(despues)];
+  const resultado = { antes: {} as Record<string, unknown>, despues: {} as Record<string, unknown> };
+
+  for (const campo of campos) {
+    const anterior = objetoAntes[campo];
+    const nuevo = objetoDespues[campo];
+
+    // JSON.stringify compara por valor ObjectIds, fechas y arrays
+    if (JSON.stringify(anterior) !== JSON.stringify(nuevo)) {
+      resultado.antes[campo] = anterior ?? null;
+      resultado.despues[campo] = nuevo ?? null;
+    }
+  }
+
+  return Object.keys(resultado.antes).length > 0 ? resultado : undefined;
+};
+
+/**
+ * registrarAuditoria
+ *
+ * Agrega una entrada al registro de auditoría.
+ *
+ * Nunca lanza: la acción auditada ya ocurrió y un fallo al registrarla no debe
+ * convertir la respuesta en un error. El fallo queda en el log como evento de seguridad.
+ *
+ * @param req - Request que originó la acción (actor, IP, user agent, request id).
+ * @param datos - Acción, objetivo, cambios y metadatos.
+ */
+export const registrarAuditoria = async (
+  req: Request & { usuario?: Pick<IUsuario, '_id' | 'rol'> },
+  datos: DatosAuditoria,
+): Promise<void> => {
+  const { actor = req.usuario, objetivoId, ...resto } = datos;
+
+  try {
+    const registro = await RegistroAuditoria.create({
+      ...resto,
+      actorId: actor?._id,
+      actorRol: actor?.rol,
+      objetivoId: objetivoId?.toString(),
+      ip: req.ip,
+      userAgent: req.get('user-agent')?.slice(0, LARGO_MAXIMO_USER_AGENT),
+      requestId: obtenerRequestId(),
+    });
+
+    // Copia en el archivo de auditoría (sin cambios ni metadatos: el detalle queda en la base)
+    loggerAuditoria.info(`${registro.accion} sobre ${registro.objetivoTipo} ${registro.objetivoId ?? ''}`.trim(), {
+      registroId: registro._id.toString(),
+      actorId: registro.actorId?.toString(),
+      actorRol: registro.actorRol,
+      ip: registro.ip,
+    });
+  } catch (error) {
+    loggerSeguridad.error(`No se pudo registrar la auditoría de ${datos.accion}:`, error);
+  }
+};
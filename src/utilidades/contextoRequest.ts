@@ -0,0 +1,58 @@
+/**
+ * src/utilidades/contextoRequest.ts
+ *
+ * Contexto de la request en curso, guardado en AsyncLocalStorage.
+ *
+ * El middleware requestId.middleware.ts abre el contexto al comienzo de cada request
+ * y todo el código que se ejecuta dentro de ella (controladores, utilidades, modelos,
+ * callbacks async) puede leerlo sin recibir la request por parámetro.
+ * Así el logger agrega el request id y el usuario a cada línea de log.
+ *
+ * Fuera de una request (arranque, tareas programadas, tests unitarios) no hay contexto.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Datos de la request disponibles para todo el código que la atiende.
+ */
+export interface ContextoRequest {
+  // Identificador de la request (X-Request-Id)
+  requestId: string;
+  // Método HTTP y ruta pedida (sin query string)
+  metodo: string;
+  ruta: string;
+  // Usuario autenticado, si lo hay (lo completa auth.middleware.ts)
+  usuarioId?: string;
+}
+
+const almacenContexto = new AsyncLocalStorage<ContextoRequest>();
+
+/**
+ * ejecutarConContexto
+ *
+ * Ejecuta la función dentro del contexto indicado.
+ * Todo lo que la función dispare (incluso de forma async) ve ese contexto.
+ */
+export const ejecutarConContexto = <T>(contexto: ContextoRequest, funcion: () => T): T =>
+  almacenContexto.run(contexto, funcion);
+
+/**
+ * obtenerContextoRequest
+ *
+ * Devuelve el contexto de la request en curso, o undefined fuera de una request.
+ */
+export const obtenerContextoRequest = (): ContextoRequest | undefined => almacenContexto.getStore();
+
+/**
+ * asignarUsuarioContexto
+ *
+ * Registra el usuario autenticado en el contexto de la request en curso.
+ */
+export const asignarUsuarioContexto = (usuarioId: string): void => {
+  const contexto = almacenContexto.getStore();
+
+  if (contexto) {
+    contexto.usuarioId = usuarioId;
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * src/utilidades/csv.ts
+ *
+ * Generación de archivos CSV para las exportaciones del panel (ej: auditoría).
+ *
+ * - Separador coma y fin de línea CRLF (RFC 4180), con BOM para que Excel detecte UTF-8.
+ * - Los valores que empiezan con =, +, - o @ se prefijan con ' para que una
+ *   planilla no los ejecute como fórmulas (inyección de CSV).
+ */
+
+/**
+ * Columna de un CSV: encabezado y cómo obtener el valor de cada fila.
+ */
+export interface ColumnaCSV<T> {
+  encabezado: string;
+  valor: (fila: T) => unknown;
+}
+
+/**
+ * Texto de un valor. Los objetos van como JSON, salvo los que se serializan como
+ * un texto (Date, ObjectId): esos van como el texto, sin las comillas de JSON.
+ */
+const aTexto = (valor: unknown): string => {
+  if (typeof valor !== 'object') {
+    return String(valor);
+  }
+
+  const json = JSON.stringify(valor);
+  return json.startsWith('"') ? (JSON.parse(json) as string) : json;
+};
+
+/**
+ * Convierte un valor a texto de celda, neutralizando fórmulas y escapando comillas.
+ */
+const celdaCSV = (valor: unknown): string => {
+  if (valor === null || valor === undefined) {
+    return '';
+  }
+
+  let texto = aTexto(valor);
+
+  if (/^[=+\-@\t\r]/.test(texto)) {
+    texto = `'${texto}`;
+  }
+
+  return /[",\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+};
+
+/**
+ * generarCSV
+ *
+ * Arma el CSV completo (encabezados + filas).
+ *
+ * @param columnas - Columnas en el orden en que se exportan.
+ * @param filas - Datos a exportar.
+ */
+export const generarCSV = <T>(columnas: ColumnaCSV<T>[], filas: T[]): string => {
+  const lineas = [
+    columnas.map(({ encabezado }) => celdaCSV(encabezado)).join(','),
+    ...filas.map((fila) => columnas.map(({ valor }) => celdaCSV(valor(fila))).join(',')),
+  ];
+
+  return `\uFEFF${lineas.join('\r\n')}\r\n`;
+};
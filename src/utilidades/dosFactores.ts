@@ -0,0 +1,238 @@
+/**
+ * src/utilidades/dosFactores.ts
+ *
+ * Segundo factor de autenticación (TOTP) de los usuarios:
+ * - Cifrado del secreto en la base.
+ * - Códigos de recuperación de un solo uso.
+ * - Verificación de un código TOTP o de recuperación, sin permitir reutilizarlos.
+ * - Intentos de verificación del login por usuario, con bloqueo al agotarlos.
+ *
+ * Lo usan el login (para saber si pedir el segundo factor) y el controlador
+ * de dos factores (inscripción, confirmación y verificación).
+ */
+
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { env } from '../config/variables';
+import { SegundoFactor, ISegundoFactor, CodigoRecuperacion } from '../modelos/segundoFactor.modelo';
+import { hashearCodigo } from './generarToken';
+import { verificarCodigoTOTP } from './totp';
+
+/**
+ * Cantidad de códigos de recuperación que se emiten por vez.
+ */
+export const CANTIDAD_CODIGOS_RECUPERACION = 10;
+
+/**
+ * Clave AES-256 derivada del secreto del servidor, exclusiva para cifrar secretos TOTP.
+ */
+const claveCifrado = (): Buffer => crypto.createHash('sha256').update(`segundo-factor:${env.JWT_SECRET}`).digest();
+
+/**
+ * cifrarSecreto
+ *
+ * Cifra el secreto TOTP con AES-256-GCM. Devuelve "iv.tag.cifrado" en base64.
+ */
+export const cifrarSecreto = (secreto: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cifrador = crypto.createCipheriv('aes-256-gcm', claveCifrado(), iv);
+  const cifrado = Buffer.concat([cifrador.update(secreto, 'utf8'), cifrador.final()]);
+
+  return [iv, cifrador.getAuthTag(), cifrado].map((parte) => parte.toString('base64')).join('.');
+};
+
+/**
+ * descifrarSecreto
+ *
+ * Inverso de cifrarSecreto. Falla si el valor fue alterado (GCM autentica el contenido).
+ */
+export const descifrarSecreto = (valor: string): string => {
+  const [iv, tag, cifrado] = valor.split('.').map((parte) => Buffer.from(parte, 'base64'));
+  const descifrador = crypto.createDecipheriv('aes-256-gcm', claveCifrado(), iv);
+  descifrador.setAuthTag(tag);
+
+  return Buffer.concat([descifrador.update(cifrado), descifrador.final()]).toString('utf8');
+};
+
+/**
+ * Normaliza un código de recuperación: sin espacios ni guiones, en minúsculas.
+ */
+const normalizarCodigoRecuperacion = (codigo: string): string => codigo.replace(/[\s-]/g, '').toLowerCase();
+
+/**
+ * generarCodigosRecuperacion
+ *
+ * Genera los códigos de recuperación (formato "xxxxx-xxxxx").
+ * Los códigos en texto plano se muestran una sola vez; en la base solo se guarda su hash.
+ */
+export const generarCodigosRecuperacion = (): { codigos: string[]; hashes: CodigoRecuperacion[] } => {
+  const codigos = Array.from({ length: CANTIDAD_CODIGOS_RECUPERACION }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  return {
+    codigos,
+    hashes: codigos.map((codigo) => ({ hash: hashearCodigo(normalizarCodigoRecuperacion(codigo)) })),
+  };
+};
+
+/**
+ * tieneDosFactoresHabilitado
+ *
+ * Indica si el usuario tiene un segundo factor confirmado.
+ */
+export const tieneDosFactoresHabilitado = async (usuarioId: Types.ObjectId | string): Promise<boolean> =>
+  (await SegundoFactor.exists({ usuarioId, confirmado: true })) !== null;
+
+/**
+ * aceptarCodigoTOTP
+ *
+ * Comprueba un código TOTP contra el secreto del segundo factor y registra su paso.
+ * La actualización es condicional: si dos requests presentan el mismo código,
+ * solo una lo consume.
+ *
+ * @returns true si el código es válido y no se había usado
+ */
+export const aceptarCodigoTOTP = async (segundoFactor: ISegundoFactor, codigo: string): Promise<boolean> => {
+  const paso = verificarCodigoTOTP(descifrarSecreto(segundoFactor.secretoCifrado), codigo);
+
+  if (paso === null) {
+    return false;
+  }
+
+  const { modifiedCount } = await SegundoFactor.updateOne(
+    { _id: segundoFactor._id, ultimoPaso: { $lt: paso } },
+    { ultimoPaso: paso },
+  );
+
+  return modifiedCount === 1;
+};
+
+/**
+ * Forma de completar el segundo factor.
+ */
+export type MetodoSegundoFactor = 'totp' | 'recuperacion';
+
+/**
+ * verificarSegundoFactor
+ *
+ * Comprueba el segundo factor confirmado del usuario con un código TOTP
+ * o con un código de recuperación (que queda consumido).
+ *
+ * @returns El método usado, o null si el código no es válido
+ */
+export const verificarSegundoFactor = async (
+  usuarioId: Types.ObjectId | string,
+  credencial: { codigo?: string; codigoRecuperacion?: string },
+): Promise<MetodoSegundoFactor | null> => {
+  const segundoFactor = await SegundoFactor.findOne({ usuarioId, confirmado: true });
+
+  if (!segundoFactor) {
+    return null;
+  }
+
+  if (credencial.codigo) {
+    return (await aceptarCodigoTOTP(segundoFactor, credencial.codigo)) ? 'totp' : null;
+  }
+
+  if (credencial.codigoRecuperacion) {
+    const hash = hashearCodigo(normalizarCodigoRecuperacion(credencial.codigoRecuperacion));
+
+    // Se marca como usado en la misma operación que lo encuentra: no puede consumirse dos veces
+    const consumido = await SegundoFactor.findOneAndUpdate(
+      { _id: segundoFactor._id, codigosRecuperacion: { $elemMatch: { hash, usadoEn: null } } },
+      { $set: { 'codigosRecuperacion.$.usadoEn': new Date() } },
+    );
+
+    return consumido ? 'recuperacion' : null;
+  }
+
+  return null;
+};
+
+/**
+ * Resultado de reservar un intento de verificación del segundo factor.
+ *
+ * - permitido: se puede comparar el código. Si es el último intento (intentosRestantes = 0),
+ *   trae bloqueadoHasta: el bloqueo queda vigente salvo que el código sea correcto.
+ * - bloqueado: no se acepta ningún código hasta bloqueadoHasta.
+ * - inexistente: el usuario no tiene un segundo factor confirmado.
+ */
+export type ResultadoIntentoDosFactores =
+  | { estado: 'permitido'; intentosRestantes: number; bloqueadoHasta?: Date }
+  | { estado: 'bloqueado'; bloqueadoHasta: Date }
+  | { estado: 'inexistente' };
+
+/**
+ * reservarIntentoDosFactores
+ *
+ * Consume un intento de verificación del login antes de comparar el código.
+ * Es una sola actualización condicional: los intentos en paralelo no pueden pasar
+ * el límite aunque todos lleguen antes de que se registre el primer fallo.
+ *
+ * - Si el bloqueo anterior ya venció, la cuenta vuelve a empezar.
+ * - El intento que agota el límite deja fijado el bloqueo; si el código resulta correcto,
+ *   reiniciarIntentosDosFactores lo levanta.
+ */
+export const reservarIntentoDosFactores = async (
+  usuarioId: Types.ObjectId | string,
+): Promise<ResultadoIntentoDosFactores> => {
+  const ahora = new Date();
+  const maximo = env.DOS_FACTORES_MAX_INTENTOS;
+  const intentosPrevios = { $ifNull: ['$intentosFallidos', 0] };
+
+  const reservado = await SegundoFactor.findOneAndUpdate(
+    {
+      usuarioId,
+      confirmado: true,
+      // $not también acepta documentos anteriores a este campo
+      $or: [{ intentosFallidos: { $not: { $gte: maximo } } }, { bloqueadoHasta: { $lte: ahora } }],
+    },
+    [
+      {
+        $set: {
+          intentosFallidos: { $add: [{ $cond: [{ $lt: [intentosPrevios, maximo] }, intentosPrevios, 0] }, 1] },
+        },
+      },
+      {
+        $set: {
+          bloqueadoHasta: {
+            $cond: [
+              { $gte: ['$intentosFallidos', maximo] },
+              new Date(ahora.getTime() + env.DOS_FACTORES_BLOQUEO_MINUTOS * 60 * 1000),
+              '$$REMOVE',
+            ],
+          },
+        },
+      },
+    ],
+    { new: true },
+  );
+
+  if (reservado) {
+    return {
+      estado: 'permitido',
+      intentosRestantes: maximo - reservado.intentosFallidos,
+      bloqueadoHasta: reservado.bloqueadoHasta,
+    };
+  }
+
+  const segundoFactor = await SegundoFactor.findOne({ usuarioId, confirmado: true }, 'bloqueadoHasta');
+
+  if (!segundoFactor) {
+    return { estado: 'inexistente' };
+  }
+
+  // Sin bloqueadoHasta: el último intento (simultáneo) fue correcto y acaba de levantar el bloqueo
+  return { estado: 'bloqueado', bloqueadoHasta: segundoFactor.bloqueadoHasta ?? ahora };
+};
+
+/**
+ * reiniciarIntentosDosFactores
+ *
+ * Vuelve a cero la cuenta de intentos y levanta el bloqueo (login completado).
+ */
+export const reiniciarIntentosDosFactores = async (usuarioId: Types.ObjectId | string): Promise<void> => {
+  await SegundoFactor.updateOne({ usuarioId }, { $set: { intentosFallidos: 0 }, $unset: { bloqueadoHasta: 1 } });
+};
@@ -1,26 +1,33 @@
 /**
  * src/utilidades/enviarSMS.ts
  *
- * Encapsula la lógica para enviar mensajes SMS usando Twilio.
+ * Encapsula la lógica para enviar mensajes SMS.
+ *
+ * El envío se delega en el proveedor configurado con SMS_PROVEEDOR
+ * (Twilio, consola o memoria; ver src/config/sms.ts), previo paso por el
+ * guard de costos (cooldown, tope diario y presupuesto por país; ver utilidades/limitesSMS.ts).
  *
  * Beneficios de aislarlo en una utilidad:
- * - Centraliza el manejo de errores de Twilio
- * - Permite cambiar de proveedor en el futuro sin modificar controladores
- * - Facilita testing (puedes mockear fácilmente esta función)
+ * - Centraliza el manejo de errores del proveedor
+ * - Permite cambiar de proveedor sin modificar controladores
+ * - Facilita testing (con SMS_PROVEEDOR=memoria los tests leen los mensajes enviados)
  */
 
-import { getTwilioClient } from "../config/twilio";
-import { env } from "../config/variables";
+import { getProveedorSMS } from "../config/sms";
 import { logger } from "../config/logger";
+import { reservarEnvioSMS } from "./limitesSMS";
+import { ErrorServicioExterno } from "./errores";
 
 /**
  * enviarSMS
  *
- * Envía un SMS a través de Twilio.
+ * Envía un SMS a través del proveedor configurado.
  *
  * @param destinatario - Número telefónico E.164 (ej.: +5491112345678)
  * @param mensaje - Texto del SMS a enviar
  * @returns Promise<void>
+ * @throws ErrorLimiteSMS si el guard de costos bloquea el envío
+ * @throws ErrorServicioExterno (502) si el proveedor no pudo enviarlo
  *
  * Seguridad:
  * - Nunca colocar datos sensibles en mensajes SMS (p. ej. tokens JWT completos).
@@ -32,23 +39,19 @@ export async function enviarSMS(
   destinatario: string,
   mensaje: string
 ): Promise<void> {
-  try {
-    // Obtenemos la instancia de Twilio previamente inicializada
-    const client = getTwilioClient();
+  const proveedor = getProveedorSMS();
 
-    // Usamos la API de Twilio para crear y enviar el SMS
-    await client.messages.create({
-      body: mensaje,                  // Texto del SMS
-      from: env.TWILIO_PHONE_NUMBER,  // Número configurado en Twilio
-      to: destinatario,               // Destinatario en formato E.164
-    });
+  // Fuera del try: un bloqueo del guard llega al controlador tal cual (con motivo y reintento)
+  await reservarEnvioSMS(destinatario);
+
+  try {
+    await proveedor.enviar(destinatario, mensaje);
 
     // Logueamos en caso de éxito
-    logger.info(`SMS enviado correctamente a ${destinatario}`);
+    logger.info(`SMS enviado correctamente a ${destinatario} (proveedor: ${proveedor.nombre})`);
   } catch (error) {
-    logger.error(`Error al enviar SMS a ${destinatario}:`);
-    logger.error(error);
-    // Lanza el error para que lo capture el controlador y responda apropiadamente
-    throw new Error("No se pudo enviar el SMS. Intenta nuevamente.");
+    logger.error(`Error al enviar SMS a ${destinatario} (proveedor: ${proveedor.nombre})`);
+    // El manejador global responde 502 y loguea el error del proveedor (cause)
+    throw new ErrorServicioExterno("No se pudo enviar el SMS. Intenta nuevamente.", undefined, { cause: error });
   }
 }
@@ -0,0 +1,119 @@
+/**
+ * src/utilidades/errores.ts
+ *
+ * Errores de la aplicación: cada uno sabe con qué status HTTP y con qué código
+ * estandarizado debe responderse.
+ *
+ * Los controladores los lanzan y el middleware de errores (error.middleware.ts)
+ * los convierte en la respuesta de error estándar. Así ningún controlador
+ * necesita su propio try/catch.
+ *
+ * Ejemplo:
+ *   if (!usuario) throw new ErrorNoEncontrado("Usuario no encontrado", "USUARIO_NO_ENCONTRADO");
+ */
+
+import { ErrorDetalle } from './respuestaEstandarizada';
+
+/**
+ * Información opcional que acompaña a un error.
+ */
+export interface OpcionesError {
+  // Errores de validación por campo
+  errores?: ErrorDetalle[];
+  // Información adicional para que el cliente reaccione (ej: cuándo reintentar)
+  datos?: Record<string, unknown>;
+  // Error original, solo para el log
+  cause?: unknown;
+}
+
+/**
+ * ErrorAplicacion
+ *
+ * Base de todos los errores esperados. Un error que no es ErrorAplicacion
+ * se considera inesperado y se responde como 500 sin exponer su mensaje.
+ */
+export class ErrorAplicacion extends Error {
+  readonly statusCode: number;
+  readonly codigo: string;
+  readonly errores?: ErrorDetalle[];
+  readonly datos?: Record<string, unknown>;
+
+  constructor(mensaje: string, codigo: string, statusCode: number, opciones: OpcionesError = {}) {
+    super(mensaje, { cause: opciones.cause });
+    this.name = new.target.name;
+    this.codigo = codigo;
+    this.statusCode = statusCode;
+    this.errores = opciones.errores;
+    this.datos = opciones.datos;
+  }
+}
+
+/**
+ * 400: los datos de la solicitud no son válidos (o la operación no tiene sentido, ej: sobre uno mismo).
+ */
+export class ErrorValidacion extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'VALIDACION_DATOS_INVALIDOS', opciones?: OpcionesError) {
+    super(mensaje, codigo, 400, opciones);
+  }
+}
+
+/**
+ * 401: falta autenticación o no es válida.
+ */
+export class ErrorNoAutorizado extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'NO_AUTORIZADO', opciones?: OpcionesError) {
+    super(mensaje, codigo, 401, opciones);
+  }
+}
+
+/**
+ * 403: el usuario está autenticado pero no puede realizar la operación.
+ */
+export class ErrorProhibido extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'ACCESO_NO_AUTORIZADO', opciones?: OpcionesError) {
+    super(mensaje, codigo, 403, opciones);
+  }
+}
+
+/**
+ * 404: el recurso no existe (o no es visible para el usuario).
+ */
+export class ErrorNoEncontrado extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'NO_ENCONTRADO', opciones?: OpcionesError) {
+    super(mensaje, codigo, 404, opciones);
+  }
+}
+
+/**
+ * 409: la operación choca con el estado actual (duplicado, ya aprobado, etc.).
+ */
+export class ErrorConflicto extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'CONFLICTO', opciones?: OpcionesError) {
+    super(mensaje, codigo, 409, opciones);
+  }
+}
+
+/**
+ * 429: se superó un límite. Si se indica reintentarEnSegundos, se envía el header Retry-After.
+ */
+export class ErrorLimiteExcedido extends ErrorAplicacion {
+  readonly reintentarEnSegundos?: number;
+
+  constructor(
+    mensaje: string,
+    codigo = 'LIMITE_EXCEDIDO',
+    opciones: OpcionesError & { reintentarEnSegundos?: number } = {},
+  ) {
+    super(mensaje, codigo, 429, opciones);
+    this.reintentarEnSegundos = opciones.reintentarEnSegundos;
+  }
+}
+
+/**
+ * 502: falló un servicio externo del que depende la operación (ej: proveedor de SMS).
+ */
+export class ErrorServicioExterno extends ErrorAplicacion {
+  constructor(mensaje: string, codigo = 'SERVICIO_EXTERNO_NO_DISPONIBLE', opciones?: OpcionesError) {
+    super(mensaje, codigo, 502, opciones);
+  }
+}
@@ -2,7 +2,7 @@
  * src/utilidades/generarToken.ts
  *
  * Encapsula toda la lógica para generar y verificar:
- * - tokens JWT de acceso
+ * - tokens JWT de acceso (claves en config/clavesJWT.ts)
  * - refresh tokens
  *
  * Esto:
@@ -11,8 +11,10 @@
  * - facilita mantener y testear la seguridad
  */
 
-import jwt, { SignOptions } from "jsonwebtoken";
+import jwt, { JsonWebTokenError, SignOptions } from "jsonwebtoken";
 import { env } from "../config/variables";
+import { getClavesJWT } from "../config/clavesJWT";
+import { Permiso, esPermiso, permisosDeRol } from "../config/roles";
 import crypto from "crypto";
 
 /**
@@ -20,31 +22,52 @@ import crypto from "crypto";
  *
  * Interface que define el contenido mínimo
  * que tendrá nuestro token JWT de acceso.
- *
- * Podemos extenderla en el futuro con más campos,
- * por ejemplo roles o permisos.
  */
 export interface PayloadJWT {
   usuarioId: string;
   telefono: string;
+  rol: string;
+  // Permisos del rol al emitirlo: las rutas autorizan con el token, sin consultar la base
+  permisos: Permiso[];
+  // Sesión (refresh token) que emitió el token: permite distinguir "esta sesión" de las demás
+  sesionId?: string;
+  // Identificador único del token: permite revocarlo individualmente (logout)
+  jti: string;
+  // versionToken del usuario al emitirlo: si la versión cambió, el token ya no vale
+  version: number;
+  // true si la sesión se abrió completando el segundo factor (TOTP); los permisos del personal lo exigen
+  dosFactores?: boolean;
+  // Vencimiento (segundos desde epoch), lo agrega jsonwebtoken al firmar
+  exp?: number;
 }
 
+/**
+ * DatosJWT
+ *
+ * Lo que recibe generarJWT: el jti y el vencimiento los completa la firma,
+ * y los permisos se derivan del rol.
+ */
+export type DatosJWT = Omit<PayloadJWT, "jti" | "exp" | "permisos">;
+
 /**
  * generarJWT
  *
  * Genera un token JWT firmado:
  * - Incluye datos mínimos de identificación en el payload.
- * - Firma el token con el secreto definido en variables de entorno.
+ * - Agrega los permisos del rol (config/roles.ts).
+ * - Le asigna un jti aleatorio (para poder revocarlo antes de que expire).
+ * - Lo firma con la clave activa (RS256 / ES256) e informa su kid en el header.
+ *   Sin clave activa configurada, firma con HS256 y JWT_SECRET (desarrollo y tests).
  * - Define tiempo de expiración para el token.
  *
- * @param payload - Objeto con datos mínimos de usuario.
+ * @param datos - Datos mínimos de usuario (incluida la versión de tokens vigente).
  * @returns token JWT firmado (string)
  *
  * Beneficios:
  * - Permite validación de identidad sin necesidad de consultas a BD en cada request.
  * - El token expira automáticamente tras el tiempo definido en .env.
  */
-export function generarJWT(payload: PayloadJWT): string {
+export function generarJWT(datos: DatosJWT): string {
   /**
    * ¡ATENCIÓN!
    * ---------------------------------------------
@@ -61,20 +84,27 @@ export function generarJWT(payload: PayloadJWT): string {
    *   es válido para expiresIn.
    *
    * Solución:
-   * → Casteamos a any. Es la única forma 100% segura
-   *   de evitar el error de tipos sin pelear con los types.
+   * → Casteamos al tipo del propio campo (SignOptions["expiresIn"]),
+   *   sin tener que importar StringValue.
    *
    * Impacto:
    * - Ninguno a nivel runtime.
-   * - Pequeña pérdida de type safety, pero es asumible
-   *   porque sabemos que JWT admite perfectamente strings como "15m".
+   * - JWT admite perfectamente strings como "15m"; uno con formato inválido
+   *   lo rechaza jwt.sign al firmar.
    */
 
   const signOptions: SignOptions = {
-    expiresIn: env.JWT_EXPIRATION as any,
+    expiresIn: env.JWT_EXPIRATION as SignOptions["expiresIn"],
   };
 
-  return jwt.sign(payload, env.JWT_SECRET, signOptions);
+  const payload: PayloadJWT = { ...datos, permisos: permisosDeRol(datos.rol), jti: crypto.randomUUID() };
+  const { activa } = getClavesJWT();
+
+  if (!activa) {
+    return jwt.sign(payload, env.JWT_SECRET, signOptions);
+  }
+
+  return jwt.sign(payload, activa.privada!, { ...signOptions, algorithm: activa.algoritmo, keyid: activa.kid });
 }
 
 /**
@@ -84,10 +114,16 @@ export function generarJWT(payload: PayloadJWT): string {
  * - Que el token sea válido (no haya sido modificado).
  * - Que no haya expirado.
  *
- * Devuelve el payload original si es correcto.
+ * La clave se elige por el kid del header, entre la activa y las retiradas:
+ * así una rotación no invalida los tokens firmados con la clave anterior.
+ * Un token sin kid es HS256 (JWT_SECRET); con una clave activa configurada
+ * solo se acepta si JWT_ACEPTAR_HS256 está habilitado (migración).
+ *
+ * Devuelve el payload original si es correcto. Los permisos que no están
+ * en el catálogo (ej: uno ya eliminado) se descartan.
  * Lanza un error si:
  * - El token está mal formado.
- * - Está firmado con otra clave.
+ * - Está firmado con otra clave, o con un kid desconocido.
  * - Ha expirado.
  *
  * @param token - JWT recibido en la request.
@@ -96,10 +132,110 @@ export function generarJWT(payload: PayloadJWT): string {
  * Seguridad:
  * - Nunca uses el contenido del token sin validarlo.
  * - Si la firma falla, se lanza automáticamente un error.
+ * - El algoritmo lo fija la clave, nunca el header: evita ataques de confusión de algoritmo
+ *   (ej: un token HS256 "firmado" con la clave pública RSA).
  */
 export function verificarJWT(token: string): PayloadJWT {
-  const decoded = jwt.verify(token, env.JWT_SECRET) as PayloadJWT;
-  return decoded;
+  const payload = verificarFirma(token) as PayloadJWT & { tipo?: string };
+
+  // Un token de segundo factor pendiente está bien firmado, pero no autentica
+  if (payload.tipo === TIPO_TOKEN_PENDIENTE) {
+    throw new JsonWebTokenError("Falta completar el segundo factor");
+  }
+
+  const permisos: unknown = payload.permisos;
+  payload.permisos = Array.isArray(permisos) ? permisos.filter((permiso) => esPermiso(String(permiso))) : [];
+
+  return payload;
+}
+
+/**
+ * Verifica firma y vencimiento eligiendo la clave según el kid (ver verificarJWT).
+ */
+function verificarFirma(token: string): jwt.JwtPayload {
+  const { activa, verificacion } = getClavesJWT();
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+
+  if (kid) {
+    const clave = verificacion.get(kid);
+
+    if (!clave) {
+      throw new JsonWebTokenError(`Clave de firma desconocida (kid ${kid})`);
+    }
+
+    return jwt.verify(token, clave.publica, { algorithms: [clave.algoritmo] }) as jwt.JwtPayload;
+  }
+
+  if (activa && !env.JWT_ACEPTAR_HS256) {
+    throw new JsonWebTokenError("Los tokens HS256 ya no se aceptan");
+  }
+
+  return jwt.verify(token, env.JWT_SECRET, { algorithms: ["HS256"] }) as jwt.JwtPayload;
+}
+
+/**
+ * Vigencia del token de "segundo factor pendiente": lo justo para abrir la app autenticadora.
+ */
+const EXPIRACION_TOKEN_PENDIENTE = "5m";
+
+/**
+ * Marca que distingue al token pendiente de un token de acceso.
+ */
+const TIPO_TOKEN_PENDIENTE = "dos_factores_pendiente";
+
+/**
+ * PayloadPendienteDosFactores
+ *
+ * Contenido del token que devuelve el login cuando falta el segundo factor.
+ * Solo sirve para POST /api/autenticacion/2fa/verificar: nunca como token de acceso.
+ */
+export interface PayloadPendienteDosFactores {
+  tipo: typeof TIPO_TOKEN_PENDIENTE;
+  usuarioId: string;
+  version: number;
+  // Dispositivo informado en el login: la sesión se abre recién al completar el segundo factor
+  dispositivo?: string;
+  jti: string;
+  exp?: number;
+}
+
+/**
+ * generarTokenPendienteDosFactores
+ *
+ * Firma el token de corta duración que reemplaza a los tokens de acceso en el login
+ * de un usuario con segundo factor habilitado.
+ */
+export function generarTokenPendienteDosFactores(
+  datos: Omit<PayloadPendienteDosFactores, "tipo" | "jti" | "exp">
+): string {
+  const payload: PayloadPendienteDosFactores = { ...datos, tipo: TIPO_TOKEN_PENDIENTE, jti: crypto.randomUUID() };
+  const { activa } = getClavesJWT();
+
+  if (!activa) {
+    return jwt.sign(payload, env.JWT_SECRET, { expiresIn: EXPIRACION_TOKEN_PENDIENTE });
+  }
+
+  return jwt.sign(payload, activa.privada!, {
+    expiresIn: EXPIRACION_TOKEN_PENDIENTE,
+    algorithm: activa.algoritmo,
+    keyid: activa.kid,
+  });
+}
+
+/**
+ * verificarTokenPendienteDosFactores
+ *
+ * Verifica la firma y el vencimiento (con las mismas claves que verificarJWT)
+ * y exige que sea un token pendiente.
+ */
+export function verificarTokenPendienteDosFactores(token: string): PayloadPendienteDosFactores {
+  const payload = verificarFirma(token) as Partial<PayloadPendienteDosFactores>;
+
+  if (payload.tipo !== TIPO_TOKEN_PENDIENTE) {
+    throw new JsonWebTokenError("El token no corresponde a un segundo factor pendiente");
+  }
+
+  return payload as PayloadPendienteDosFactores;
 }
 
 /**
@@ -109,7 +245,7 @@ export function verificarJWT(token: string): PayloadJWT {
  *
  * Importante:
  * - No usamos JWT para refresh tokens por seguridad:
- *   → Los refresh tokens se almacenan en la base de datos.
+ *   → Los refresh tokens se almacenan en la base de datos (hasheados, ver hashearRefreshToken).
  *   → Así podemos invalidarlos individualmente cuando un usuario cierra sesión.
  *
  * Usamos crypto.randomBytes para garantizar entropía fuerte:
@@ -122,6 +258,19 @@ export function generarRefreshToken(): string {
   return crypto.randomBytes(40).toString("hex");
 }
 
+/**
+ * hashearRefreshToken
+ *
+ * Calcula el hash con el que se guarda y se busca un refresh token.
+ * El token en texto plano solo lo conoce el cliente.
+ *
+ * @param token - Refresh token en texto plano
+ * @returns SHA-256 en hexadecimal
+ */
+export function hashearRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
 /**
  * generarCodigo
  *
@@ -131,11 +280,45 @@ export function generarRefreshToken(): string {
  * Ejemplo: "387421"
  *
  * Seguridad:
- * - La entropía es suficiente para propósitos temporales.
- * - Puede usarse junto a un TTL en base de datos para limitar su vigencia.
+ * - Usa crypto.randomInt (generador criptográfico), no Math.random.
+ * - Su vigencia está limitada por el TTL del modelo y por el máximo de intentos
+ *   (ver utilidades/verificacionCodigo.ts).
  *
  * @returns Código numérico de 6 dígitos (string)
  */
 export function generarCodigo(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return crypto.randomInt(100000, 1000000).toString();
+}
+
+/**
+ * hashearCodigo
+ *
+ * Calcula el hash que se persiste en lugar del código de verificación.
+ *
+ * Usamos HMAC-SHA256 con el secreto del servidor:
+ * - Con solo 1.000.000 de códigos posibles, un hash simple se revierte al instante.
+ * - Con HMAC, sin el secreto el hash filtrado de la base no sirve de nada.
+ *
+ * @param codigo - Código en texto plano
+ * @returns Hash hexadecimal
+ */
+export function hashearCodigo(codigo: string): string {
+  return crypto.createHmac("sha256", env.JWT_SECRET).update(codigo).digest("hex");
+}
+
+/**
+ * compararCodigo
+ *
+ * Compara un código recibido contra el hash guardado en tiempo constante,
+ * para no filtrar información a través del tiempo de respuesta.
+ *
+ * @param codigo - Código recibido del cliente
+ * @param hash - Hash guardado en la base
+ * @returns true si el código corresponde al hash
+ */
+export function compararCodigo(codigo: string, hash: string): boolean {
+  const recibido = Buffer.from(hashearCodigo(codigo), "hex");
+  const guardado = Buffer.from(hash, "hex");
+
+  return recibido.length === guardado.length && crypto.timingSafeEqual(recibido, guardado);
 }
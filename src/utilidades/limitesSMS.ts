@@ -0,0 +1,234 @@
+/**
+ * src/utilidades/limitesSMS.ts
+ *
+ * Guard de costos de SMS. Se ejecuta dentro de enviarSMS(), antes de llamar al proveedor:
+ *
+ * - Cooldown por teléfono: no se reenvía antes de cooldownSegundos.
+ * - Tope diario por teléfono: maximoDiarioPorTelefono SMS por día (UTC).
+ * - Presupuesto diario por prefijo de país: corta el "SMS pumping"
+ *   (disparar SMS masivos hacia números premium para cobrar la terminación).
+ *
+ * Los límites se leen de ConfiguracionSMS (ajustables desde /api/admin/sms/limites).
+ * Cada envío bloqueado se loguea y se cuenta en ContadorSMSPrefijo.
+ */
+
+import { loggerSeguridad } from '../config/logger';
+import { ErrorLimiteExcedido } from './errores';
+import { ConfiguracionSMS, IConfiguracionSMS } from '../modelos/configuracionSMS.modelo';
+import { ContadorSMSTelefono, ContadorSMSPrefijo, MotivoBloqueoSMS } from '../modelos/contadorSMS.modelo';
+
+/**
+ * Prefijo que agrupa a todos los países sin presupuesto propio.
+ */
+export const PREFIJO_POR_DEFECTO = '*';
+
+/**
+ * Días que se conservan los contadores por prefijo (historial del panel).
+ */
+const DIAS_HISTORIAL_PREFIJOS = 90;
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * ErrorLimiteSMS
+ *
+ * Lo lanza el guard cuando un envío no está permitido.
+ * El manejador global lo responde como 429 SMS_LIMITE_EXCEDIDO con Retry-After.
+ */
+export class ErrorLimiteSMS extends ErrorLimiteExcedido {
+  constructor(
+    public readonly motivo: MotivoBloqueoSMS,
+    reintentarEnSegundos: number,
+  ) {
+    super('No podemos enviar otro SMS a este teléfono por ahora. Intenta más tarde.', 'SMS_LIMITE_EXCEDIDO', {
+      datos: { motivo, reintentarEnSegundos },
+      reintentarEnSegundos,
+    });
+  }
+}
+
+/**
+ * Día UTC en formato YYYY-MM-DD.
+ */
+const fechaUTC = (fecha: Date): string => fecha.toISOString().slice(0, 10);
+
+/**
+ * Segundos que faltan para el próximo día UTC (cuando se reinician los topes diarios).
+ */
+const segundosHastaManana = (ahora: Date): number => {
+  const manana = Date.UTC(ahora.getUTCFullYear(), ahora.getUTCMonth(), ahora.getUTCDate() + 1);
+  return Math.ceil((manana - ahora.getTime()) / 1000);
+};
+
+/**
+ * obtenerConfiguracionSMS
+ *
+ * Devuelve la configuración vigente, creándola con los valores por defecto si no existe.
+ */
+export async function obtenerConfiguracionSMS(): Promise<IConfiguracionSMS> {
+  return ConfiguracionSMS.findOneAndUpdate(
+    { clave: 'global' },
+    { $setOnInsert: { clave: 'global' } },
+    { upsert: true, new: true, setDefaultsOnInsert: true },
+  ).orFail();
+}
+
+/**
+ * resolverPresupuesto
+ *
+ * Busca el prefijo configurado más largo con el que empieza el teléfono
+ * (así +1 y +1809 pueden tener presupuestos distintos).
+ * Si ninguno coincide, el teléfono usa el cupo compartido.
+ */
+export function resolverPresupuesto(
+  telefono: string,
+  configuracion: Pick<IConfiguracionSMS, 'presupuestosPorPrefijo' | 'presupuestoDiarioPorDefecto'>,
+): { prefijo: string; maximoDiario: number } {
+  const coincidencia = configuracion.presupuestosPorPrefijo
+    .filter(({ prefijo }) => telefono.startsWith(prefijo))
+    .sort((a, b) => b.prefijo.length - a.prefijo.length)[0];
+
+  return coincidencia
+    ? { prefijo: coincidencia.prefijo, maximoDiario: coincidencia.maximoDiario }
+    : { prefijo: PREFIJO_POR_DEFECTO, maximoDiario: configuracion.presupuestoDiarioPorDefecto };
+}
+
+/**
+ * Registra el bloqueo (log + contador del prefijo) y lanza ErrorLimiteSMS.
+ */
+async function bloquearEnvio(
+  telefono: string,
+  prefijo: string,
+  fecha: string,
+  motivo: MotivoBloqueoSMS,
+  reintentarEnSegundos: number,
+): Promise<never> {
+  loggerSeguridad.warn(`SMS a ${telefono} bloqueado por ${motivo} (prefijo ${prefijo})`);
+
+  await ContadorSMSPrefijo.updateOne(
+    { fecha, prefijo },
+    {
+      $inc: { [`bloqueados.${motivo}`]: 1 },
+      $setOnInsert: { expiraEn: new Date(Date.now() + DIAS_HISTORIAL_PREFIJOS * MS_POR_DIA) },
+    },
+    { upsert: true },
+  );
+
+  throw new ErrorLimiteSMS(motivo, reintentarEnSegundos);
+}
+
+/**
+ * Reserva un envío del presupuesto diario del prefijo, si queda cupo.
+ * La comprobación y el incremento son una sola operación atómica:
+ * envíos simultáneos no pueden pasarse del presupuesto.
+ */
+async function reservarCupoPrefijo(
+  fecha: string,
+  prefijo: string,
+  maximoDiario: number,
+  ahora: Date,
+): Promise<boolean> {
+  // El contador del día tiene que existir antes del incremento condicional
+  // (el upsert con igualdad sobre el índice único es seguro ante envíos simultáneos)
+  await ContadorSMSPrefijo.updateOne(
+    { fecha, prefijo },
+    { $setOnInsert: { expiraEn: new Date(ahora.getTime() + DIAS_HISTORIAL_PREFIJOS * MS_POR_DIA) } },
+    { upsert: true },
+  );
+
+  const reservado = await ContadorSMSPrefijo.findOneAndUpdate(
+    { fecha, prefijo, enviados: { $lt: maximoDiario } },
+    { $inc: { enviados: 1 } },
+  );
+
+  return reservado !== null;
+}
+
+/**
+ * Reserva un envío al teléfono si ya pasó el cooldown y no alcanzó el tope diario.
+ * Como en el prefijo, la comprobación y el registro del envío son una sola operación atómica.
+ */
+async function reservarEnvioTelefono(
+  telefono: string,
+  fecha: string,
+  configuracion: Pick<IConfiguracionSMS, 'cooldownSegundos' | 'maximoDiarioPorTelefono'>,
+  ahora: Date,
+): Promise<boolean> {
+  await ContadorSMSTelefono.updateOne(
+    { telefono },
+    {
+      $setOnInsert: {
+        fecha,
+        enviadosHoy: 0,
+        ultimoEnvio: new Date(0),
+        expiraEn: new Date(ahora.getTime() + 2 * MS_POR_DIA),
+      },
+    },
+    { upsert: true },
+  );
+
+  const reservado = await ContadorSMSTelefono.findOneAndUpdate(
+    {
+      telefono,
+      ultimoEnvio: { $lte: new Date(ahora.getTime() - configuracion.cooldownSegundos * 1000) },
+      // Un día nuevo reinicia el tope diario
+      $or: [{ fecha: { $ne: fecha } }, { enviadosHoy: { $lt: configuracion.maximoDiarioPorTelefono } }],
+    },
+    [
+      {
+        $set: {
+          enviadosHoy: { $cond: [{ $eq: ['$fecha', fecha] }, { $add: ['$enviadosHoy', 1] }, 1] },
+          fecha,
+          ultimoEnvio: ahora,
+          expiraEn: new Date(ahora.getTime() + 2 * MS_POR_DIA),
+        },
+      },
+    ],
+  );
+
+  return reservado !== null;
+}
+
+/**
+ * reservarEnvioSMS
+ *
+ * Comprueba los tres límites y, si el envío está permitido, lo cuenta.
+ * Lanza ErrorLimiteSMS si alguno se supera.
+ *
+ * Cada límite se comprueba y se consume en una única actualización condicional,
+ * así varios pedidos simultáneos no pueden pasar todos antes de que alguno cuente.
+ * Si el teléfono no puede recibir el SMS, se devuelve el cupo ya tomado del prefijo.
+ *
+ * El cupo se consume antes de llamar al proveedor: un envío fallido también cuenta,
+ * que es lo prudente cuando el objetivo es acotar costos.
+ *
+ * @param telefono - Teléfono destino en formato E.164
+ */
+export async function reservarEnvioSMS(telefono: string): Promise<void> {
+  const configuracion = await obtenerConfiguracionSMS();
+  const ahora = new Date();
+  const fecha = fechaUTC(ahora);
+  const { prefijo, maximoDiario } = resolverPresupuesto(telefono, configuracion);
+
+  // 1) Presupuesto diario del prefijo
+  if (!(await reservarCupoPrefijo(fecha, prefijo, maximoDiario, ahora))) {
+    await bloquearEnvio(telefono, prefijo, fecha, 'presupuestoPrefijo', segundosHastaManana(ahora));
+  }
+
+  // 2) Cooldown y tope diario por teléfono
+  if (await reservarEnvioTelefono(telefono, fecha, configuracion, ahora)) {
+    return;
+  }
+
+  await ContadorSMSPrefijo.updateOne({ fecha, prefijo }, { $inc: { enviados: -1 } });
+
+  // El envío ya fue rechazado: el contador solo se lee para informar el motivo
+  const contadorTelefono = await ContadorSMSTelefono.findOne({ telefono }).orFail();
+  const finCooldown = contadorTelefono.ultimoEnvio.getTime() + configuracion.cooldownSegundos * 1000;
+
+  if (finCooldown > ahora.getTime()) {
+    await bloquearEnvio(telefono, prefijo, fecha, 'cooldown', Math.ceil((finCooldown - ahora.getTime()) / 1000));
+  }
+
+  await bloquearEnvio(telefono, prefijo, fecha, 'limiteTelefono', segundosHastaManana(ahora));
+}
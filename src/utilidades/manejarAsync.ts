@@ -0,0 +1,38 @@
+/**
+ * src/utilidades/manejarAsync.ts
+ *
+ * Envoltorio para controladores async: cualquier error que lancen (o promesa rechazada)
+ * llega al manejador global de errores (error.middleware.ts).
+ *
+ * Express 5 ya reenvía las promesas rechazadas de los handlers, pero el envoltorio:
+ * - también captura los errores síncronos lanzados antes del primer await,
+ * - permite tipar la request del controlador (ej: RequestConUsuario) sin castear en cada ruta,
+ * - deja explícito en el controlador que no maneja sus propios errores.
+ *
+ * Uso:
+ *   export const obtenerUsuario = manejarAsync(async (req: RequestConUsuario, res: Response) => {
+ *     const usuario = await Usuario.findById(req.params.id);
+ *     if (!usuario) throw new ErrorNoEncontrado("Usuario no encontrado", "USUARIO_NO_ENCONTRADO");
+ *     return enviarRespuestaExitosa(res, "Usuario obtenido correctamente", usuario);
+ *   });
+ */
+
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Controlador que puede ser async y lanzar errores.
+ */
+type Controlador<R extends Request> = (req: R, res: Response, next: NextFunction) => unknown;
+
+/**
+ * manejarAsync
+ *
+ * Devuelve un handler de Express que ejecuta el controlador y pasa sus errores a next().
+ */
+export const manejarAsync =
+  <R extends Request = Request>(controlador: Controlador<R>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve()
+      .then(() => controlador(req as R, res, next))
+      .catch(next);
+  };
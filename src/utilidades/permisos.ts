@@ -0,0 +1,69 @@
+/**
+ * src/utilidades/permisos.ts
+ *
+ * Reglas de autorización sobre recursos concretos (no sobre rutas completas).
+ *
+ * El middleware requierePermiso decide si un usuario puede entrar a una ruta;
+ * estas funciones deciden si puede operar sobre un documento en particular
+ * (ej: un servicio que pertenece a otro usuario).
+ *
+ * Los permisos se leen del token de acceso (ver config/roles.ts).
+ */
+
+import { PERMISOS, Permiso, permisosDeRol } from '../config/roles';
+import { IServicio, RequestConUsuario } from '../tipos';
+
+/**
+ * tienePermiso
+ *
+ * true si el token de la request incluye el permiso.
+ * Los permisos del personal además exigen que el token se haya emitido con segundo factor.
+ *
+ * @param req - Request ya pasada por autenticarJWT (sin token, no hay permisos).
+ * @param permiso - Permiso requerido.
+ */
+export const tienePermiso = (req: RequestConUsuario, permiso: Permiso): boolean => {
+  const token = req.tokenAcceso;
+
+  if (!token?.permisos.includes(permiso)) {
+    return false;
+  }
+
+  return !PERMISOS[permiso].requiereDosFactores || token.dosFactores === true;
+};
+
+/**
+ * puedeGestionarServicio
+ *
+ * Un servicio puede ser gestionado (editado, eliminado) por su dueño
+ * o por quien tenga el permiso servicios:gestionar-todos.
+ *
+ * @param req - Request autenticada (req.usuario y req.tokenAcceso).
+ * @param servicio - Servicio sobre el que se quiere operar.
+ */
+export const puedeGestionarServicio = (req: RequestConUsuario, servicio: IServicio): boolean =>
+  servicio.usuarioId.equals(req.usuario!._id) || tienePermiso(req, 'servicios:gestionar-todos');
+
+/**
+ * puedeVerMetricasServicio
+ *
+ * Las métricas (contadores y estadísticas de clicks) de un servicio las ve su dueño
+ * o quien tenga el permiso estadisticas:ver-todas.
+ */
+export const puedeVerMetricasServicio = (req: RequestConUsuario, servicio: IServicio): boolean =>
+  servicio.usuarioId.equals(req.usuario!._id) || tienePermiso(req, 'estadisticas:ver-todas');
+
+/**
+ * puedeGestionarUsuario
+ *
+ * Para actuar sobre otro usuario (suspenderlo, cerrar sus sesiones, cambiarle el rol)
+ * hay que tener todos los permisos de su rol: un moderador no puede suspender a un admin
+ * ni a alguien de soporte (que tiene permisos que el moderador no tiene).
+ *
+ * @param req - Request autenticada (los permisos se leen del token).
+ * @param rolObjetivo - Rol del usuario sobre el que se quiere operar.
+ */
+export const puedeGestionarUsuario = (req: RequestConUsuario, rolObjetivo: string): boolean => {
+  const propios: readonly string[] = req.tokenAcceso?.permisos ?? [];
+  return permisosDeRol(rolObjetivo).every((permiso) => propios.includes(permiso));
+};
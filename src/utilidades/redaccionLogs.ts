@@ -0,0 +1,212 @@
+/**
+ * src/utilidades/redaccionLogs.ts
+ *
+ * Redacción de datos personales y secretos antes de escribir un log.
+ * La usa el formato de Winston de config/logger.ts, así que se aplica a todos los logs
+ * (mensajes, metadatos y stack traces) sin que cada módulo tenga que acordarse.
+ *
+ * Qué se enmascara:
+ * - Teléfonos E.164: se conserva el código de país y los 2 últimos dígitos (+54*********78).
+ * - JWT (tokens de acceso y tokens pendientes de segundo factor).
+ * - Refresh tokens y hashes (cadenas hexadecimales largas).
+ * - Códigos de verificación que aparecen junto a la palabra "código".
+ * - Secretos conocidos (ej: el código maestro) dondequiera que aparezcan.
+ * - El valor completo de las claves sensibles (codigo, token, refreshToken, etc.).
+ */
+
+/**
+ * Reemplazo del valor de una clave sensible.
+ */
+export const VALOR_REDACTADO = '[REDACTADO]';
+
+/**
+ * Claves cuyo valor nunca se loguea (se comparan sin distinguir mayúsculas).
+ * Se pueden agregar más con LOG_CLAVES_SENSIBLES.
+ */
+export const CLAVES_SENSIBLES_POR_DEFECTO = [
+  'codigo',
+  'codigoTOTP',
+  'codigoRecuperacion',
+  'codigosRecuperacion',
+  'codigoHash',
+  'codigoMaestro',
+  'token',
+  'tokenPendiente',
+  'tokenHash',
+  'refreshToken',
+  'authorization',
+  'cookie',
+  'password',
+  'secreto',
+  'secretoCifrado',
+  'otpauthUri',
+] as const;
+
+/**
+ * Códigos de país de 2 dígitos (UIT E.164). Los que empiezan con 1 o 7 tienen 1 dígito;
+ * el resto, 3. Alcanza para conservar el país al enmascarar sin depender de una librería.
+ */
+const CODIGOS_PAIS_DOS_DIGITOS = new Set([
+  '20',
+  '27',
+  '30',
+  '31',
+  '32',
+  '33',
+  '34',
+  '36',
+  '39',
+  '40',
+  '41',
+  '43',
+  '44',
+  '45',
+  '46',
+  '47',
+  '48',
+  '49',
+  '51',
+  '52',
+  '53',
+  '54',
+  '55',
+  '56',
+  '57',
+  '58',
+  '60',
+  '61',
+  '62',
+  '63',
+  '64',
+  '65',
+  '66',
+  '81',
+  '82',
+  '84',
+  '86',
+  '90',
+  '91',
+  '92',
+  '93',
+  '94',
+  '95',
+  '98',
+]);
+
+// Teléfono E.164: + y entre 8 y 15 dígitos
+const PATRON_TELEFONO = /\+\d{8,15}\b/g;
+// JWT: tres segmentos base64url, el primero siempre empieza con {" codificado (eyJ)
+const PATRON_JWT = /\beyJ[\w-]*\.[\w-]*\.[\w-]*/g;
+// Refresh tokens (80 hex) y hashes SHA-256 (64 hex)
+const PATRON_TOKEN_HEX = /\b[a-f0-9]{64,}\b/gi;
+// Código numérico precedido por "código" / "code" en el mismo renglón (ej: "Tu código de verificación es: 123456")
+const PATRON_CODIGO = /(c[oó]digo|code)([^\d\n]{0,40}?)\b\d{4,8}\b/gi;
+
+/**
+ * Opciones de la redacción.
+ */
+export interface OpcionesRedaccion {
+  // Claves cuyo valor se reemplaza completo (se comparan sin distinguir mayúsculas)
+  clavesSensibles: Iterable<string>;
+  // Valores secretos que se eliminan de cualquier texto (ej: el código maestro)
+  secretos?: (string | undefined)[];
+}
+
+/**
+ * Largo del código de país de un teléfono E.164 (sin el +).
+ */
+const largoCodigoPais = (digitos: string): number => {
+  if (digitos.startsWith('1') || digitos.startsWith('7')) return 1;
+  return CODIGOS_PAIS_DOS_DIGITOS.has(digitos.slice(0, 2)) ? 2 : 3;
+};
+
+/**
+ * enmascararTelefono
+ *
+ * Enmascara un teléfono E.164 conservando el código de país y los 2 últimos dígitos.
+ * Ej: +5491112345678 → +54*********78
+ */
+export const enmascararTelefono = (telefono: string): string => {
+  const digitos = telefono.replace(/^\+/, '');
+  const pais = digitos.slice(0, largoCodigoPais(digitos));
+  const ocultos = Math.max(0, digitos.length - pais.length - 2);
+
+  return `+${pais}${'*'.repeat(ocultos)}${digitos.slice(pais.length + ocultos)}`;
+};
+
+/**
+ * redactarTexto
+ *
+ * Enmascara teléfonos, tokens, códigos y secretos dentro de un texto libre.
+ */
+export const redactarTexto = (texto: string, secretos: (string | undefined)[] = []): string => {
+  let resultado = texto;
+
+  // Los secretos van primero: podrían contener algo que otro patrón modifique
+  for (const secreto of secretos) {
+    if (secreto && secreto.length >= 4) {
+      resultado = resultado.split(secreto).join(VALOR_REDACTADO);
+    }
+  }
+
+  return resultado
+    .replace(PATRON_JWT, '[JWT]')
+    .replace(PATRON_TOKEN_HEX, '[TOKEN]')
+    .replace(PATRON_CODIGO, (_coincidencia, palabra: string, separador: string) => `${palabra}${separador}******`)
+    .replace(PATRON_TELEFONO, enmascararTelefono);
+};
+
+/**
+ * crearRedactor
+ *
+ * Devuelve una función que redacta cualquier valor (texto, objeto, array o error)
+ * sin modificar el original. Las claves sensibles se buscan en todos los niveles.
+ */
+export const crearRedactor = ({ clavesSensibles, secretos = [] }: OpcionesRedaccion) => {
+  const claves = new Set([...clavesSensibles].map((clave) => clave.toLowerCase()));
+
+  const esClaveSensible = (clave: string) => claves.has(clave.toLowerCase());
+
+  const redactar = (valor: unknown, vistos: WeakSet<object>): unknown => {
+    if (typeof valor === 'string') {
+      return redactarTexto(valor, secretos);
+    }
+
+    if (valor === null || typeof valor !== 'object' || vistos.has(valor)) {
+      return valor;
+    }
+
+    vistos.add(valor);
+
+    if (Array.isArray(valor)) {
+      return valor.map((elemento) => redactar(elemento, vistos));
+    }
+
+    // Un error anidado en los metadatos: solo interesan su nombre, mensaje y stack
+    if (valor instanceof Error) {
+      return {
+        name: valor.name,
+        message: redactarTexto(valor.message, secretos),
+        stack: valor.stack && redactarTexto(valor.stack, secretos),
+      };
+    }
+
+    // Fechas, ObjectId, Buffers, etc. se dejan como están; solo se recorren objetos planos
+    const prototipo = Object.getPrototypeOf(valor);
+    if (prototipo !== Object.prototype && prototipo !== null) {
+      return valor;
+    }
+
+    return Object.fromEntries(
+      Object.entries(valor).map(([clave, interno]) => [
+        clave,
+        esClaveSensible(clave) ? VALOR_REDACTADO : redactar(interno, vistos),
+      ]),
+    );
+  };
+
+  return {
+    esClaveSensible,
+    redactar: <T>(valor: T): T => redactar(valor, new WeakSet()) as T,
+  };
+};
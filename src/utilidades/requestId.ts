@@ -0,0 +1,40 @@
+/**
+ * src/utilidades/requestId.ts
+ *
+ * Identificador de la request, para cruzar respuestas de error, auditoría y logs.
+ *
+ * - Si el proxy o el cliente envían X-Request-Id, se respeta (si es un valor seguro).
+ * - Si no, se genera uno nuevo.
+ *
+ * El middleware requestId.middleware.ts lo asigna y lo guarda en el contexto de la request
+ * (ver contextoRequest.ts); desde ahí lo leen el logger, las respuestas de error y la auditoría.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { obtenerContextoRequest } from './contextoRequest';
+
+/**
+ * Header por el que se recibe y se devuelve el request id.
+ */
+export const HEADER_REQUEST_ID = 'X-Request-Id';
+
+/**
+ * Formato aceptado para un request id recibido: el valor viene de afuera y termina
+ * en logs y en la base, así que solo se aceptan caracteres seguros y un largo acotado.
+ */
+const FORMATO_REQUEST_ID = /^[\w.:-]{1,100}$/;
+
+/**
+ * resolverRequestId
+ *
+ * Devuelve el request id recibido si es válido, o uno nuevo (UUID v4).
+ */
+export const resolverRequestId = (recibido?: string): string =>
+  recibido && FORMATO_REQUEST_ID.test(recibido) ? recibido : randomUUID();
+
+/**
+ * obtenerRequestId
+ *
+ * Devuelve el request id de la request en curso, o undefined fuera de una request.
+ */
+export const obtenerRequestId = (): string | undefined => obtenerContextoRequest()?.requestId;
@@ -11,6 +11,7 @@
  */
 
 import { Response } from "express";
+import { obtenerRequestId } from "./requestId";
 
 /**
  * Tipo TypeScript que define la forma de una respuesta exitosa.
@@ -32,8 +33,12 @@ interface RespuestaExitosa<T> {
  * - mensaje: texto descriptivo en español
  * - errores: array de errores de validación (opcional)
  * - codigo: string estandarizado para identificar el tipo de error
+ * - datos: información adicional para que el cliente reaccione (opcional),
+ *   ej: intentos restantes o cuándo reintentar
+ * - requestId: identificador de la request (también en el header X-Request-Id),
+ *   para que el cliente pueda reportar el error y lo encontremos en los logs
  */
-interface ErrorDetalle {
+export interface ErrorDetalle {
   campo: string;
   mensaje: string;
 }
@@ -43,6 +48,8 @@ interface RespuestaError {
   mensaje: string;
   errores?: ErrorDetalle[];
   codigo: string;
+  datos?: Record<string, unknown>;
+  requestId?: string;
 }
 
 /**
@@ -75,19 +82,22 @@ export function enviarRespuestaExitosa<T>(
  * enviarRespuestaError
  *
  * Devuelve una respuesta HTTP con el formato estándar de error.
+ * Incluye el request id de la request en curso, si lo hay.
  *
  * @param res - Objeto Response de Express
  * @param mensaje - Mensaje en español describiendo el error
  * @param codigo - String estandarizado del error (p.ej. "USUARIO_NO_ENCONTRADO")
  * @param errores - Array opcional de errores de validación, si corresponde
  * @param statusCode - Código HTTP, por defecto 400
+ * @param datos - Objeto opcional con información adicional del error
  */
 export function enviarRespuestaError(
   res: Response,
   mensaje: string,
   codigo: string,
   errores?: ErrorDetalle[],
-  statusCode = 400
+  statusCode = 400,
+  datos?: Record<string, unknown>
 ): void {
   const respuesta: RespuestaError = {
     exito: false,
@@ -99,5 +109,14 @@ export function enviarRespuestaError(
     respuesta.errores = errores;
   }
 
+  if (datos) {
+    respuesta.datos = datos;
+  }
+
+  const requestId = obtenerRequestId();
+  if (requestId) {
+    respuesta.requestId = requestId;
+  }
+
   res.status(statusCode).json(respuesta);
 }
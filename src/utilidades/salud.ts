@@ -0,0 +1,142 @@
+/**
+ * src/utilidades/salud.ts
+ *
+ * Verificaciones de las dependencias que necesita la API para atender solicitudes:
+ * - MongoDB: la conexión está abierta y responde a un ping.
+ * - SMS: el proveedor activo tiene lo necesario para enviar.
+ * - Cache: Node-Cache guarda y devuelve un valor.
+ *
+ * Las usa GET /health/ready (el orquestador deja de enviar tráfico si alguna falla)
+ * y el estado del sistema del panel de administración.
+ */
+
+import mongoose from 'mongoose';
+import { cache } from '../config/cache';
+import { getProveedorSMS } from '../config/sms';
+
+/**
+ * Tiempo máximo de cada verificación: un orquestador no puede esperar
+ * los 30 segundos de selección de servidor del driver de MongoDB.
+ */
+const TIEMPO_MAXIMO_VERIFICACION_MS = 2000;
+
+/**
+ * Dependencias verificadas.
+ */
+export type Dependencia = 'mongo' | 'sms' | 'cache';
+
+/**
+ * Resultado de verificar una dependencia.
+ */
+export interface ResultadoVerificacion {
+  estado: 'ok' | 'error';
+  duracionMs: number;
+  // Motivo del fallo (solo se muestra en el panel de administración)
+  detalle?: string;
+}
+
+/**
+ * Resultado de verificar todas las dependencias.
+ */
+export interface EstadoDependencias {
+  listo: boolean;
+  verificaciones: Record<Dependencia, ResultadoVerificacion>;
+}
+
+/**
+ * Falla si la promesa no se resuelve dentro del tiempo máximo.
+ */
+const conTiempoMaximo = async <T>(promesa: Promise<T>): Promise<T> => {
+  let temporizador: NodeJS.Timeout | undefined;
+
+  const vencimiento = new Promise<never>((_resolver, rechazar) => {
+    temporizador = setTimeout(
+      () => rechazar(new Error(`Sin respuesta en ${TIEMPO_MAXIMO_VERIFICACION_MS} ms`)),
+      TIEMPO_MAXIMO_VERIFICACION_MS,
+    );
+  });
+
+  try {
+    return await Promise.race([promesa, vencimiento]);
+  } finally {
+    clearTimeout(temporizador);
+  }
+};
+
+/**
+ * Ejecuta una verificación y mide cuánto tardó. Una excepción cuenta como fallo.
+ */
+const medir = async (verificar: () => Promise<void>): Promise<ResultadoVerificacion> => {
+  const inicio = performance.now();
+
+  try {
+    await conTiempoMaximo(verificar());
+    return { estado: 'ok', duracionMs: Math.round(performance.now() - inicio) };
+  } catch (error) {
+    return {
+      estado: 'error',
+      duracionMs: Math.round(performance.now() - inicio),
+      detalle: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * MongoDB: la conexión tiene que estar abierta y responder al ping.
+ */
+const verificarMongo = async (): Promise<void> => {
+  const { readyState, db } = mongoose.connection;
+
+  if (readyState !== mongoose.ConnectionStates.connected || !db) {
+    throw new Error(`Conexión en estado ${mongoose.ConnectionStates[readyState]}`);
+  }
+
+  await db.admin().ping();
+};
+
+/**
+ * SMS: el proveedor activo tiene credenciales y número de origen (no se envía nada).
+ */
+const verificarSMS = async (): Promise<void> => {
+  const proveedor = getProveedorSMS();
+
+  if (!proveedor.estaConfigurado()) {
+    throw new Error(`El proveedor ${proveedor.nombre} no está configurado`);
+  }
+};
+
+/**
+ * Cache: se guarda, se lee y se borra un valor de prueba.
+ */
+const verificarCache = async (): Promise<void> => {
+  const clave = `salud:${process.pid}:${Date.now()}`;
+
+  cache.set(clave, 'ok', 5);
+  const leido = cache.get<string>(clave);
+  cache.del(clave);
+
+  if (leido !== 'ok') {
+    throw new Error('El cache no devolvió el valor guardado');
+  }
+};
+
+/**
+ * verificarDependencias
+ *
+ * Verifica todas las dependencias en paralelo.
+ * listo es true solo si todas respondieron bien.
+ */
+export const verificarDependencias = async (): Promise<EstadoDependencias> => {
+  const [mongo, sms, cacheLocal] = await Promise.all([
+    medir(verificarMongo),
+    medir(verificarSMS),
+    medir(verificarCache),
+  ]);
+
+  const verificaciones = { mongo, sms, cache: cacheLocal };
+
+  return {
+    listo: Object.values(verificaciones).every(({ estado }) => estado === 'ok'),
+    verificaciones,
+  };
+};
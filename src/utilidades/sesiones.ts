@@ -0,0 +1,154 @@
+/**
+ * src/utilidades/sesiones.ts
+ *
+ * Creación, rotación y validación de sesiones (refresh tokens con datos del dispositivo).
+ *
+ * Una sesión es un documento RefreshToken y, a la vez, una "familia" de tokens:
+ * - Se crea al iniciar sesión (login o acceso maestro).
+ * - Al renovar, se reemplaza el token dentro del MISMO documento,
+ *   conservando el dispositivo y actualizando ultimoUso e IP.
+ * - El token reemplazado queda registrado en RefreshTokenRotado. Si vuelve a
+ *   presentarse, alguien más tiene una copia: se revoca la familia entera.
+ *
+ * Los tokens se guardan hasheados (hashearRefreshToken); el valor real solo lo tiene el cliente.
+ */
+
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { loggerSeguridad } from '../config/logger';
+import { RefreshToken, IRefreshToken } from '../modelos/refreshToken.modelo';
+import { RefreshTokenRotado } from '../modelos/refreshTokenRotado.modelo';
+import { generarRefreshToken, hashearRefreshToken } from './generarToken';
+import { registrarAuditoria } from './auditoria';
+
+/**
+ * Largo máximo del user agent guardado (algunos navegadores envían cadenas enormes).
+ */
+const LARGO_MAXIMO_USER_AGENT = 500;
+
+/**
+ * Resultado de buscar la sesión de un refresh token.
+ *
+ * - valida: el token es el vigente de su sesión.
+ * - reutilizada: el token ya había sido rotado; la familia fue revocada.
+ * - invalida: el token no existe o la sesión ya no está vigente.
+ */
+export type ResultadoRefreshToken =
+  | { estado: 'valida'; sesion: IRefreshToken }
+  | { estado: 'reutilizada' }
+  | { estado: 'invalida' };
+
+/**
+ * Datos de la request que se registran en la sesión.
+ */
+const datosDeConexion = (req: Request) => ({
+  userAgent: req.get('user-agent')?.slice(0, LARGO_MAXIMO_USER_AGENT),
+  ip: req.ip,
+});
+
+/**
+ * crearSesion
+ *
+ * Crea la sesión y devuelve el refresh token (único momento en que viaja al cliente).
+ *
+ * @param usuarioId - Dueño de la sesión
+ * @param req - Request del login, para registrar user agent e IP
+ * @param dispositivo - Nombre del dispositivo enviado por la app (opcional)
+ * @param dosFactores - true si se completó el segundo factor al abrirla
+ */
+export async function crearSesion(
+  usuarioId: Types.ObjectId,
+  req: Request,
+  dispositivo?: string,
+  dosFactores = false,
+): Promise<{ sesion: IRefreshToken; refreshToken: string }> {
+  const refreshToken = generarRefreshToken();
+
+  const sesion = await RefreshToken.create({
+    tokenHash: hashearRefreshToken(refreshToken),
+    usuarioId,
+    dispositivo,
+    dosFactores,
+    ...datosDeConexion(req),
+    ultimoUso: new Date(),
+  });
+
+  return { sesion, refreshToken };
+}
+
+/**
+ * buscarSesionPorRefreshToken
+ *
+ * Valida un refresh token presentado por el cliente.
+ * Si es un token ya rotado (reutilización), revoca la familia y registra el evento
+ * de seguridad antes de devolver el resultado.
+ *
+ * @param refreshToken - Token en texto plano recibido del cliente
+ * @param req - Request actual, para registrar la IP en el evento de seguridad
+ */
+export async function buscarSesionPorRefreshToken(refreshToken: string, req: Request): Promise<ResultadoRefreshToken> {
+  const tokenHash = hashearRefreshToken(refreshToken);
+
+  const sesion = await RefreshToken.findOne({ tokenHash });
+  if (sesion) {
+    return { estado: 'valida', sesion };
+  }
+
+  const rotado = await RefreshTokenRotado.findOne({ tokenHash });
+  if (!rotado) {
+    return { estado: 'invalida' };
+  }
+
+  // Reutilización: el token legítimo y el robado comparten familia; no sabemos cuál es cuál,
+  // así que se revoca la sesión completa y ambos tienen que volver a iniciar sesión.
+  const { deletedCount } = await RefreshToken.deleteOne({ _id: rotado.familiaId });
+
+  loggerSeguridad.warn(
+    `Reutilización de refresh token rotado: usuario ${rotado.usuarioId}, ` +
+      `familia ${rotado.familiaId} (${deletedCount ? 'revocada' : 'ya estaba cerrada'}), IP ${req.ip}`,
+  );
+
+  await registrarAuditoria(req, {
+    accion: 'sesion.reutilizacion_detectada',
+    objetivoTipo: 'sesion',
+    objetivoId: rotado.familiaId,
+    metadatos: { usuarioId: rotado.usuarioId, sesionRevocada: deletedCount > 0 },
+  });
+
+  return { estado: 'reutilizada' };
+}
+
+/**
+ * rotarSesion
+ *
+ * Reemplaza el refresh token de una sesión existente y registra el anterior como rotado.
+ * La actualización está condicionada al token anterior: si dos requests rotan
+ * el mismo token a la vez, solo una lo consigue (la otra recibe null).
+ *
+ * @returns El nuevo refresh token, o null si el token ya había sido rotado.
+ */
+export async function rotarSesion(sesion: IRefreshToken, req: Request): Promise<string | null> {
+  const nuevoRefreshToken = generarRefreshToken();
+
+  const actualizada = await RefreshToken.findOneAndUpdate(
+    { _id: sesion._id, tokenHash: sesion.tokenHash },
+    {
+      tokenHash: hashearRefreshToken(nuevoRefreshToken),
+      ip: req.ip,
+      // Sesión deslizante: ultimoUso también es el TTL de 30 días
+      ultimoUso: new Date(),
+    },
+  );
+
+  if (!actualizada) {
+    return null;
+  }
+
+  await RefreshTokenRotado.create({
+    tokenHash: sesion.tokenHash,
+    familiaId: sesion._id,
+    usuarioId: sesion.usuarioId,
+  });
+
+  return nuevoRefreshToken;
+}
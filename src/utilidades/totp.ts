@@ -0,0 +1,155 @@
+/**
+ * src/utilidades/totp.ts
+ *
+ * Códigos de un solo uso basados en tiempo (TOTP, RFC 6238), compatibles con
+ * Google Authenticator, Authy, 1Password, etc.
+ *
+ * Parámetros fijos (los que asumen todas las apps autenticadoras):
+ * - HMAC-SHA1, 6 dígitos, pasos de 30 segundos.
+ * - El secreto se comparte en base32 (RFC 4648).
+ */
+
+import crypto from 'crypto';
+
+const ALFABETO_BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const PERIODO_SEGUNDOS = 30;
+const DIGITOS = 6;
+
+/**
+ * Decodifica un secreto base32 (sin distinguir mayúsculas, ignorando espacios y relleno "=").
+ */
+export const decodificarBase32 = (texto: string): Buffer => {
+  const limpio = texto.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let acumulado = 0;
+  let bits = 0;
+
+  for (const caracter of limpio) {
+    const valor = ALFABETO_BASE32.indexOf(caracter);
+
+    if (valor === -1) {
+      throw new Error('El secreto TOTP no es base32 válido');
+    }
+
+    // Solo interesan los bits pendientes: se enmascara para no desbordar en secretos largos
+    acumulado = ((acumulado << 5) | valor) & 0xffff;
+    bits += 5;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((acumulado >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Codifica bytes en base32 (sin relleno, como lo esperan las apps autenticadoras).
+ */
+export const codificarBase32 = (datos: Buffer): string => {
+  let resultado = '';
+  let acumulado = 0;
+  let bits = 0;
+
+  for (const byte of datos) {
+    acumulado = ((acumulado << 8) | byte) & 0xffff;
+    bits += 8;
+
+    while (bits >= 5) {
+      bits -= 5;
+      resultado += ALFABETO_BASE32[(acumulado >> bits) & 0x1f];
+    }
+  }
+
+  if (bits > 0) {
+    resultado += ALFABETO_BASE32[(acumulado << (5 - bits)) & 0x1f];
+  }
+
+  return resultado;
+};
+
+/**
+ * generarSecretoTOTP
+ *
+ * Genera un secreto nuevo de 160 bits (el tamaño recomendado para HMAC-SHA1), en base32.
+ */
+export const generarSecretoTOTP = (): string => codificarBase32(crypto.randomBytes(20));
+
+/**
+ * generarUriOtpauth
+ *
+ * Arma la URI otpauth:// que se muestra como código QR para cargar el secreto
+ * en la app autenticadora.
+ *
+ * @param secreto - Secreto en base32
+ * @param cuenta - Cómo se identifica la cuenta en la app (ej: el teléfono)
+ * @param emisor - Nombre del servicio que muestra la app
+ */
+export const generarUriOtpauth = (secreto: string, cuenta: string, emisor = 'ServiPro'): string => {
+  const etiqueta = `${encodeURIComponent(emisor)}:${encodeURIComponent(cuenta)}`;
+  const parametros = new URLSearchParams({
+    secret: secreto,
+    issuer: emisor,
+    algorithm: 'SHA1',
+    digits: String(DIGITOS),
+    period: String(PERIODO_SEGUNDOS),
+  });
+
+  return `otpauth://totp/${etiqueta}?${parametros.toString()}`;
+};
+
+/**
+ * Paso de tiempo TOTP que corresponde a un instante.
+ */
+export const pasoTOTP = (momento: Date = new Date()): number => Math.floor(momento.getTime() / 1000 / PERIODO_SEGUNDOS);
+
+/**
+ * generarCodigoTOTP
+ *
+ * Calcula el código de un paso (HOTP sobre el número de paso, RFC 4226).
+ *
+ * @param secreto - Secreto compartido en base32
+ * @param paso - Paso de tiempo (por defecto, el actual)
+ * @returns Código de 6 dígitos (string, con ceros a la izquierda)
+ */
+export const generarCodigoTOTP = (secreto: string, paso: number = pasoTOTP()): string => {
+  const contador = Buffer.alloc(8);
+  contador.writeBigUInt64BE(BigInt(paso));
+
+  const hmac = crypto.createHmac('sha1', decodificarBase32(secreto)).update(contador).digest();
+
+  // Truncado dinámico: los 4 bits bajos del último byte indican de dónde leer
+  const desplazamiento = hmac[hmac.length - 1] & 0x0f;
+  const binario = hmac.readUInt32BE(desplazamiento) & 0x7fffffff;
+
+  return (binario % 10 ** DIGITOS).toString().padStart(DIGITOS, '0');
+};
+
+/**
+ * verificarCodigoTOTP
+ *
+ * Comprueba un código contra el paso actual y los `tolerancia` pasos vecinos
+ * (desfase de reloj del teléfono). La comparación es en tiempo constante.
+ *
+ * @param secreto - Secreto compartido en base32
+ * @param codigo - Código ingresado por el usuario
+ * @param tolerancia - Pasos aceptados antes y después del actual (default 1 → ±30 s)
+ * @returns El paso que coincidió (para impedir reutilizar el código), o null si no es válido
+ */
+export const verificarCodigoTOTP = (secreto: string, codigo: string, tolerancia = 1): number | null => {
+  if (!/^\d{6}$/.test(codigo)) {
+    return null;
+  }
+
+  const actual = pasoTOTP();
+  const recibido = Buffer.from(codigo);
+
+  for (let paso = actual - tolerancia; paso <= actual + tolerancia; paso++) {
+    if (crypto.timingSafeEqual(Buffer.from(generarCodigoTOTP(secreto, paso)), recibido)) {
+      return paso;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,135 @@
+/**
+ * src/utilidades/verificacionCodigo.ts
+ *
+ * Protección contra fuerza bruta de los códigos de verificación SMS.
+ *
+ * - Cada código admite VERIFICACION_MAX_INTENTOS intentos fallidos.
+ * - Al agotarlos, el código se invalida y el teléfono queda bloqueado.
+ * - Cada bloqueo repetido dura el doble que el anterior
+ *   (VERIFICACION_BLOQUEO_MINUTOS, x2, x4... hasta VERIFICACION_BLOQUEO_MAX_MINUTOS).
+ *
+ * Lo usan registro (para no emitir códigos a un teléfono bloqueado),
+ * verificación y login (para comparar el código).
+ */
+
+import { env } from '../config/variables';
+import { loggerSeguridad } from '../config/logger';
+import { CodigoVerificacion } from '../modelos/codigoVerificacion.modelo';
+import { BloqueoVerificacion } from '../modelos/bloqueoVerificacion.modelo';
+import { compararCodigo } from './generarToken';
+
+/**
+ * Tiempo que se conserva el historial de bloqueos después del último bloqueo.
+ */
+const VIGENCIA_HISTORIAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resultado de comprobar un código.
+ *
+ * - valido: el código es correcto (el llamador decide cuándo eliminarlo).
+ * - inexistente: no hay código vigente para ese teléfono.
+ * - incorrecto: el código no coincide; quedan intentosRestantes.
+ * - bloqueado: el teléfono está bloqueado hasta bloqueadoHasta.
+ */
+export type ResultadoVerificacion =
+  | { estado: 'valido' }
+  | { estado: 'inexistente' }
+  | { estado: 'incorrecto'; intentosRestantes: number }
+  | { estado: 'bloqueado'; bloqueadoHasta: Date };
+
+/**
+ * obtenerBloqueoVigente
+ *
+ * Devuelve la fecha hasta la que el teléfono está bloqueado, o null si no lo está.
+ */
+export async function obtenerBloqueoVigente(telefono: string): Promise<Date | null> {
+  const bloqueo = await BloqueoVerificacion.findOne({ telefono, bloqueadoHasta: { $gt: new Date() } });
+  return bloqueo ? bloqueo.bloqueadoHasta : null;
+}
+
+/**
+ * bloquearTelefono
+ *
+ * Registra un nuevo bloqueo y calcula su duración según los bloqueos previos.
+ */
+async function bloquearTelefono(telefono: string): Promise<Date> {
+  const ahora = Date.now();
+
+  // $inc atómico: dos requests simultáneos no pueden contar el mismo bloqueo
+  const registro = await BloqueoVerificacion.findOneAndUpdate(
+    { telefono },
+    { $inc: { bloqueos: 1 }, $set: { bloqueadoHasta: new Date(ahora), expiraEn: new Date(ahora) } },
+    { upsert: true, new: true },
+  );
+
+  const minutos = Math.min(
+    env.VERIFICACION_BLOQUEO_MINUTOS * 2 ** (registro.bloqueos - 1),
+    env.VERIFICACION_BLOQUEO_MAX_MINUTOS,
+  );
+  const bloqueadoHasta = new Date(ahora + minutos * 60 * 1000);
+
+  await BloqueoVerificacion.updateOne(
+    { _id: registro._id },
+    { bloqueadoHasta, expiraEn: new Date(bloqueadoHasta.getTime() + VIGENCIA_HISTORIAL_MS) },
+  );
+
+  loggerSeguridad.warn(
+    `Teléfono ${telefono} bloqueado ${minutos} minutos por intentos fallidos (bloqueo n.º ${registro.bloqueos})`,
+  );
+
+  return bloqueadoHasta;
+}
+
+/**
+ * comprobarCodigo
+ *
+ * Compara el código recibido con el vigente del teléfono y lleva la cuenta de intentos.
+ * No elimina el código si es válido: cada controlador lo hace cuando completa su flujo.
+ *
+ * El intento se reserva antes de comparar, con una sola actualización condicional:
+ * aunque lleguen muchos intentos en paralelo, solo VERIFICACION_MAX_INTENTOS llegan a compararse.
+ *
+ * @param telefono - Teléfono en formato E.164
+ * @param codigo - Código recibido del cliente
+ */
+export async function comprobarCodigo(telefono: string, codigo: string): Promise<ResultadoVerificacion> {
+  const bloqueadoHasta = await obtenerBloqueoVigente(telefono);
+  if (bloqueadoHasta) {
+    return { estado: 'bloqueado', bloqueadoHasta };
+  }
+
+  const codigoDoc = await CodigoVerificacion.findOneAndUpdate(
+    { telefono, intentosFallidos: { $lt: env.VERIFICACION_MAX_INTENTOS } },
+    { $inc: { intentosFallidos: 1 } },
+    { new: true },
+  );
+
+  if (!codigoDoc) {
+    // Sin intentos para reservar: no hay código o un intento simultáneo acaba de agotarlo
+    const bloqueoEnCurso = await obtenerBloqueoVigente(telefono);
+    return bloqueoEnCurso ? { estado: 'bloqueado', bloqueadoHasta: bloqueoEnCurso } : { estado: 'inexistente' };
+  }
+
+  if (compararCodigo(codigo, codigoDoc.codigoHash)) {
+    return { estado: 'valido' };
+  }
+
+  const intentos = codigoDoc.intentosFallidos;
+
+  if (intentos === env.VERIFICACION_MAX_INTENTOS) {
+    // Cada intento reservó un número distinto: solo este registra el bloqueo.
+    // El código queda invalidado: hay que pedir uno nuevo cuando termine el bloqueo
+    await CodigoVerificacion.deleteOne({ _id: codigoDoc._id });
+    return { estado: 'bloqueado', bloqueadoHasta: await bloquearTelefono(telefono) };
+  }
+
+  return { estado: 'incorrecto', intentosRestantes: env.VERIFICACION_MAX_INTENTOS - intentos };
+}
+
+/**
+ * segundosHasta
+ *
+ * Segundos (redondeados hacia arriba) que faltan para una fecha.
+ * Se informa al cliente para que sepa cuándo reintentar.
+ */
+export const segundosHasta = (fecha: Date): number => Math.max(0, Math.ceil((fecha.getTime() - Date.now()) / 1000));
@@ -0,0 +1,191 @@
+/**
+ * admin.validacion.ts
+ *
+ * Define los esquemas de validación para las rutas del panel de administración.
+ * Usa Zod en su versión más compatible (sin required_error).
+ */
+
+import { z } from 'zod';
+import { ROLES_USUARIO } from '../modelos/usuario.modelo';
+import { ACCIONES_AUDITORIA, TIPOS_OBJETIVO_AUDITORIA } from '../modelos/registroAuditoria.modelo';
+
+/**
+ * Booleano recibido por query string ('true' / 'false').
+ */
+const booleanoQuery = z.enum(['true', 'false'], { message: 'Debe ser true o false' }).transform((v) => v === 'true');
+
+/**
+ * Paginación clásica de los listados del panel (el panel muestra el total de páginas).
+ */
+const camposPaginacion = {
+  pagina: z.coerce.number().int().min(1).default(1),
+  limite: z.coerce.number().int().min(1).max(100).default(20),
+};
+
+/**
+ * idParamSchema
+ *
+ * Valida el parámetro :id de las rutas que operan sobre un documento.
+ */
+export const idParamSchema = z.object({
+  id: z.string().regex(/^[a-f\d]{24}$/i, { message: 'El ID no es válido' }),
+});
+
+/**
+ * listarUsuariosQuerySchema
+ *
+ * Valida la query string del GET /api/admin/usuarios.
+ * - rol, verificado, suspendido: filtros exactos.
+ * - creadoDesde / creadoHasta: rango de fecha de alta.
+ * - prefijoTelefono: ej. +54 para ver solo usuarios de Argentina.
+ * - pagina / limite: paginación clásica (el panel muestra el total de páginas).
+ */
+export const listarUsuariosQuerySchema = z.object({
+  rol: z.enum(ROLES_USUARIO, { message: `El rol debe ser uno de: ${ROLES_USUARIO.join(', ')}` }).optional(),
+  verificado: booleanoQuery.optional(),
+  suspendido: booleanoQuery.optional(),
+  creadoDesde: z.coerce.date({ message: 'creadoDesde no es una fecha válida' }).optional(),
+  creadoHasta: z.coerce.date({ message: 'creadoHasta no es una fecha válida' }).optional(),
+  prefijoTelefono: z
+    .string()
+    .trim()
+    .regex(/^\+\d{1,6}$/, { message: 'El prefijo debe tener formato +<dígitos>, ej: +54' })
+    .optional(),
+  ...camposPaginacion,
+});
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type ListarUsuariosQuery = z.infer<typeof listarUsuariosQuerySchema>;
+
+/**
+ * cambiarRolSchema
+ *
+ * Valida el body del PATCH /api/admin/usuarios/:id/rol.
+ */
+export const cambiarRolSchema = z.object({
+  rol: z.enum(ROLES_USUARIO, { message: `El rol debe ser uno de: ${ROLES_USUARIO.join(', ')}` }),
+});
+
+/**
+ * suspenderUsuarioSchema
+ *
+ * Valida el body del POST /api/admin/usuarios/:id/suspender.
+ * El motivo es obligatorio: queda registrado y se puede mostrar al usuario.
+ */
+export const suspenderUsuarioSchema = z.object({
+  motivo: z
+    .string()
+    .trim()
+    .min(5, { message: 'El motivo debe tener al menos 5 caracteres' })
+    .max(500, { message: 'El motivo no puede superar los 500 caracteres' }),
+});
+
+/**
+ * paginacionQuerySchema
+ *
+ * Valida la paginación clásica de los listados del panel (ej: cola de moderación).
+ */
+export const paginacionQuerySchema = z.object(camposPaginacion);
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type PaginacionQuery = z.infer<typeof paginacionQuerySchema>;
+
+/**
+ * rechazarServicioSchema
+ *
+ * Valida el body del POST /api/admin/servicios/:id/rechazar.
+ * El motivo es obligatorio: el prestador lo ve para poder corregir su publicación.
+ */
+export const rechazarServicioSchema = z.object({
+  motivo: z
+    .string()
+    .trim()
+    .min(5, { message: 'El motivo debe tener al menos 5 caracteres' })
+    .max(500, { message: 'El motivo no puede superar los 500 caracteres' }),
+});
+
+/**
+ * actualizarLimitesSMSSchema
+ *
+ * Valida el body del PATCH /api/admin/sms/limites.
+ * Todos los campos son opcionales, pero debe venir al menos uno.
+ * presupuestosPorPrefijo reemplaza la lista completa.
+ */
+export const actualizarLimitesSMSSchema = z
+  .object({
+    cooldownSegundos: z.number().int().min(0).max(86400).optional(),
+    maximoDiarioPorTelefono: z.number().int().min(0).optional(),
+    presupuestoDiarioPorDefecto: z.number().int().min(0).optional(),
+    presupuestosPorPrefijo: z
+      .array(
+        z.object({
+          prefijo: z
+            .string()
+            .trim()
+            .regex(/^\+\d{1,4}$/, { message: 'El prefijo debe tener formato +<dígitos>, ej: +54' }),
+          maximoDiario: z.number().int().min(0),
+        }),
+      )
+      .refine((lista) => new Set(lista.map(({ prefijo }) => prefijo)).size === lista.length, {
+        message: 'Hay prefijos repetidos',
+      })
+      .optional(),
+  })
+  .refine((datos) => Object.keys(datos).length > 0, {
+    message: 'Debe enviarse al menos un campo para actualizar',
+  });
+
+/**
+ * estadisticasSMSQuerySchema
+ *
+ * Valida la query string del GET /api/admin/sms/limites.
+ * - fecha: día (UTC) de los contadores a mostrar. Por defecto, hoy.
+ */
+export const estadisticasSMSQuerySchema = z.object({
+  fecha: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'La fecha debe tener formato YYYY-MM-DD' })
+    .optional(),
+});
+
+/**
+ * listarAuditoriaQuerySchema
+ *
+ * Valida la query string del GET /api/admin/auditoria.
+ * - actorId, accion, objetivoTipo, objetivoId: filtros exactos.
+ * - desde / hasta: rango de fechas de la acción.
+ * - formato: json (paginado) o csv (exporta todo lo filtrado, hasta un máximo).
+ */
+export const listarAuditoriaQuerySchema = z
+  .object({
+    actorId: z
+      .string()
+      .regex(/^[a-f\d]{24}$/i, { message: 'actorId no es un ID válido' })
+      .optional(),
+    accion: z
+      .enum(ACCIONES_AUDITORIA, { message: `La acción debe ser una de: ${ACCIONES_AUDITORIA.join(', ')}` })
+      .optional(),
+    objetivoTipo: z
+      .enum(TIPOS_OBJETIVO_AUDITORIA, {
+        message: `El tipo de objetivo debe ser uno de: ${TIPOS_OBJETIVO_AUDITORIA.join(', ')}`,
+      })
+      .optional(),
+    objetivoId: z.string().trim().min(1).max(100).optional(),
+    desde: z.coerce.date({ message: 'desde no es una fecha válida' }).optional(),
+    hasta: z.coerce.date({ message: 'hasta no es una fecha válida' }).optional(),
+    formato: z.enum(['json', 'csv'], { message: 'El formato debe ser json o csv' }).default('json'),
+    ...camposPaginacion,
+  })
+  .refine(({ desde, hasta }) => !desde || !hasta || desde <= hasta, {
+    message: 'desde no puede ser posterior a hasta',
+    path: ['desde'],
+  });
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type ListarAuditoriaQuery = z.infer<typeof listarAuditoriaQuerySchema>;
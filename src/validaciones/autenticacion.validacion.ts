@@ -19,6 +19,17 @@ import { z } from 'zod';
  */
 const telefonoRegex = /^\+[1-9]\d{9,14}$/;
 
+/**
+ * Nombre opcional del dispositivo que inicia sesión (ej: "iPhone de Ana").
+ * Se muestra en el listado de sesiones.
+ */
+const dispositivo = z
+  .string()
+  .trim()
+  .min(1, { message: 'El nombre del dispositivo no puede estar vacío' })
+  .max(100, { message: 'El nombre del dispositivo no puede superar los 100 caracteres' })
+  .optional();
+
 /**
  * registroSchema
  *
@@ -59,7 +70,8 @@ export const verificacionSchema = z.object({
  * loginSchema
  *
  * Valida el body del POST /api/autenticacion/login.
- * Requiere los mismos dos campos que verificación.
+ * Requiere los mismos dos campos que verificación,
+ * más el nombre del dispositivo (opcional).
  */
 export const loginSchema = z.object({
   telefono: z
@@ -72,6 +84,7 @@ export const loginSchema = z.object({
     .string()
     .trim()
     .length(6, { message: 'El código debe tener exactamente 6 dígitos' }),
+  dispositivo,
 });
 
 /**
@@ -87,15 +100,85 @@ export const refreshSchema = z.object({
     .min(10, { message: 'El refresh token debe tener al menos 10 caracteres' }),
 });
 
+/**
+ * logoutSchema
+ *
+ * Valida el body del POST /api/autenticacion/logout.
+ * El refresh token es opcional: si no viene, se cierra la sesión que emitió el token de acceso.
+ */
+export const logoutSchema = z.object({
+  refreshToken: z
+    .string()
+    .trim()
+    .min(10, { message: 'El refresh token debe tener al menos 10 caracteres' })
+    .optional(),
+});
+
 /**
  * accesoMaestroSchema
  *
  * Valida el body del POST /api/autenticacion/acceso-maestro.
- * Requiere un solo campo: código, que debe ser una string no vacía.
+ * Requiere el código maestro (string no vacía) y el código TOTP
+ * de la app autenticadora (6 dígitos).
  */
 export const accesoMaestroSchema = z.object({
   codigo: z
     .string()
     .trim()
     .min(1, { message: 'El código maestro no puede estar vacío' }),
+  codigoTOTP: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, { message: 'El código TOTP debe tener 6 dígitos' }),
+  dispositivo,
+});
+
+/**
+ * sesionIdParamSchema
+ *
+ * Valida el parámetro :id del DELETE /api/autenticacion/sesiones/:id.
+ */
+export const sesionIdParamSchema = z.object({
+  id: z.string().regex(/^[a-f\d]{24}$/i, { message: 'El ID de sesión no es válido' }),
 });
+
+/**
+ * Código TOTP de la app autenticadora (6 dígitos).
+ */
+const codigoTOTP = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, { message: 'El código del autenticador debe tener 6 dígitos' });
+
+/**
+ * codigoTOTPSchema
+ *
+ * Valida el body de POST /api/autenticacion/2fa/confirmar
+ * y POST /api/autenticacion/2fa/codigos-recuperacion.
+ */
+export const codigoTOTPSchema = z.object({
+  codigo: codigoTOTP,
+});
+
+/**
+ * verificarDosFactoresSchema
+ *
+ * Valida el body de POST /api/autenticacion/2fa/verificar.
+ * Requiere el token pendiente devuelto por el login y exactamente uno de:
+ * - codigo: código TOTP de la app autenticadora
+ * - codigoRecuperacion: uno de los códigos de recuperación (ej: "a1b2c-3d4e5")
+ */
+export const verificarDosFactoresSchema = z
+  .object({
+    tokenPendiente: z.string().trim().min(1, { message: 'El token pendiente es obligatorio' }),
+    codigo: codigoTOTP.optional(),
+    codigoRecuperacion: z
+      .string()
+      .trim()
+      .regex(/^[a-f\d]{5}-?[a-f\d]{5}$/i, { message: 'El código de recuperación no es válido' })
+      .optional(),
+  })
+  .refine((datos) => (datos.codigo === undefined) !== (datos.codigoRecuperacion === undefined), {
+    message: 'Debe enviarse el código del autenticador o un código de recuperación (solo uno)',
+    path: ['codigo'],
+  });
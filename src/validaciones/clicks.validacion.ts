@@ -0,0 +1,78 @@
+/**
+ * clicks.validacion.ts
+ *
+ * Define los esquemas de validación para las rutas de clicks.
+ * Usa Zod en su versión más compatible (sin required_error).
+ */
+
+import { z } from 'zod';
+import { TIPOS_CLICK } from '../modelos/click.modelo';
+
+/**
+ * Un ObjectId de MongoDB: 24 caracteres hexadecimales.
+ */
+const objectIdRegex = /^[a-f\d]{24}$/i;
+
+/**
+ * registrarClickSchema
+ *
+ * Valida el body del POST /api/clicks.
+ * - servicioId: servicio sobre el que se hizo click.
+ * - tipo: llamada, whatsapp o vista.
+ * - visitanteId: identificador anónimo generado por el frontend.
+ * - referrer: opcional; si no viene, se toma del header Referer.
+ */
+export const registrarClickSchema = z.object({
+  servicioId: z.string().trim().regex(objectIdRegex, { message: 'El servicioId no es un ID válido' }),
+  tipo: z.enum(TIPOS_CLICK, { message: `El tipo debe ser uno de: ${TIPOS_CLICK.join(', ')}` }),
+  visitanteId: z
+    .string()
+    .trim()
+    .min(8, { message: 'El visitanteId debe tener al menos 8 caracteres' })
+    .max(100, { message: 'El visitanteId no puede superar los 100 caracteres' }),
+  referrer: z.string().trim().max(500, { message: 'El referrer no puede superar los 500 caracteres' }).optional(),
+});
+
+/**
+ * Agrupaciones temporales disponibles para las estadísticas.
+ */
+export const AGRUPACIONES_ESTADISTICAS = ['dia', 'semana', 'mes'] as const;
+
+/**
+ * Rango máximo consultable: evita agregaciones sobre años de historial en una sola request.
+ */
+const RANGO_MAXIMO_MS = 2 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * estadisticasQuerySchema
+ *
+ * Valida la query string del GET /api/servicios/:id/estadisticas.
+ * - agrupacion: dia, semana o mes (default: dia).
+ * - hasta: fecha ISO opcional (default: ahora), así el rango máximo también se aplica
+ *   cuando solo viene "desde".
+ * - desde: fecha ISO opcional. Si no viene, el controlador usa un rango por defecto según la agrupación
+ *   (siempre menor al máximo).
+ */
+export const estadisticasQuerySchema = z
+  .object({
+    agrupacion: z
+      .enum(AGRUPACIONES_ESTADISTICAS, {
+        message: `La agrupación debe ser una de: ${AGRUPACIONES_ESTADISTICAS.join(', ')}`,
+      })
+      .default('dia'),
+    desde: z.coerce.date({ message: 'La fecha "desde" no es válida' }).optional(),
+    hasta: z.coerce.date({ message: 'La fecha "hasta" no es válida' }).default(() => new Date()),
+  })
+  .refine((datos) => !datos.desde || datos.desde < datos.hasta, {
+    message: 'La fecha "desde" debe ser anterior a "hasta"',
+    path: ['desde'],
+  })
+  .refine((datos) => !datos.desde || datos.hasta.getTime() - datos.desde.getTime() <= RANGO_MAXIMO_MS, {
+    message: 'El rango consultado no puede superar los 2 años',
+    path: ['hasta'],
+  });
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type EstadisticasQuery = z.infer<typeof estadisticasQuerySchema>;
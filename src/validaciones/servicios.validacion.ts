@@ -0,0 +1,170 @@
+/**
+ * servicios.validacion.ts
+ *
+ * Define los esquemas de validación para las rutas de servicios.
+ * Usa Zod en su versión más compatible (sin required_error).
+ */
+
+import { z } from 'zod';
+
+/**
+ * Expresión regular para teléfonos en formato internacional E.164.
+ * Es la misma regla que usamos en autenticación.
+ */
+const telefonoRegex = /^\+[1-9]\d{9,14}$/;
+
+/**
+ * Campos comunes de un servicio.
+ * Se reutilizan para construir el esquema de creación y el de actualización.
+ */
+const camposServicio = {
+  titulo: z
+    .string()
+    .trim()
+    .min(3, { message: 'El título debe tener al menos 3 caracteres' })
+    .max(100, { message: 'El título no puede superar los 100 caracteres' }),
+  descripcion: z
+    .string()
+    .trim()
+    .min(10, { message: 'La descripción debe tener al menos 10 caracteres' })
+    .max(2000, { message: 'La descripción no puede superar los 2000 caracteres' }),
+  categoria: z.string().trim().min(1, { message: 'La categoría no puede estar vacía' }),
+  zona: z.string().trim().min(1, { message: 'La zona no puede estar vacía' }),
+  precioMinimo: z.number().min(0, { message: 'El precio mínimo no puede ser negativo' }).optional(),
+  precioMaximo: z.number().min(0, { message: 'El precio máximo no puede ser negativo' }).optional(),
+  telefonoContacto: z.string().trim().regex(telefonoRegex, {
+    message: 'El teléfono debe tener formato internacional, ej: +34600111222',
+  }),
+  whatsapp: z
+    .string()
+    .trim()
+    .regex(telefonoRegex, {
+      message: 'El WhatsApp debe tener formato internacional, ej: +34600111222',
+    })
+    .optional(),
+  ubicacion: z
+    .object({
+      lat: z.number().min(-90).max(90, { message: 'La latitud debe estar entre -90 y 90' }),
+      lng: z.number().min(-180).max(180, { message: 'La longitud debe estar entre -180 y 180' }),
+    })
+    // Se recibe como { lat, lng } (más natural para el frontend) y se guarda como GeoJSON
+    .transform(({ lat, lng }) => ({ type: 'Point' as const, coordinates: [lng, lat] as [number, number] }))
+    .optional(),
+  radioCoberturaKm: z
+    .number()
+    .min(0, { message: 'El radio de cobertura no puede ser negativo' })
+    .max(500, { message: 'El radio de cobertura no puede superar los 500 km' })
+    .optional(),
+  activo: z.boolean().optional(),
+};
+
+/**
+ * Regla compartida: si vienen ambos precios, el mínimo no puede superar al máximo.
+ */
+const rangoPrecioValido = (datos: { precioMinimo?: number; precioMaximo?: number }) =>
+  datos.precioMinimo === undefined || datos.precioMaximo === undefined || datos.precioMinimo <= datos.precioMaximo;
+
+const mensajeRangoPrecio = {
+  message: 'El precio máximo no puede ser menor al precio mínimo',
+  path: ['precioMaximo'],
+};
+
+/**
+ * crearServicioSchema
+ *
+ * Valida el body del POST /api/servicios.
+ * El dueño (usuarioId) NO se recibe en el body: se toma del usuario autenticado.
+ */
+export const crearServicioSchema = z.object(camposServicio).refine(rangoPrecioValido, mensajeRangoPrecio);
+
+/**
+ * actualizarServicioSchema
+ *
+ * Valida el body del PATCH /api/servicios/:id.
+ * Todos los campos son opcionales, pero debe venir al menos uno.
+ */
+export const actualizarServicioSchema = z
+  .object(camposServicio)
+  .partial()
+  .refine(rangoPrecioValido, mensajeRangoPrecio)
+  .refine((datos) => Object.keys(datos).length > 0, {
+    message: 'Debe enviarse al menos un campo para actualizar',
+  });
+
+/**
+ * Criterios de orden disponibles en la búsqueda.
+ */
+export const ORDENES_BUSQUEDA = ['relevancia', 'recientes', 'mas-clicks'] as const;
+
+/**
+ * busquedaServiciosSchema
+ *
+ * Valida la query string del GET /api/servicios.
+ * Todos los parámetros llegan como string, por eso se usan coerciones.
+ * - q: texto libre (título y descripción).
+ * - categoria / zona: filtros exactos (se comparan en minúsculas).
+ * - precioMin / precioMax: rango de precio buscado. Incluye los servicios cuyo rango se superpone
+ *   con él; un extremo sin cargar cuenta como abierto (un servicio sin precios aparece siempre).
+ * - soloActivos: 'true' (default) o 'false'.
+ * - orden: relevancia (requiere q), recientes o mas-clicks.
+ * - limite: cantidad de resultados por página (1 a 50, default 20).
+ * - cursor: valor opaco devuelto en la página anterior.
+ */
+export const busquedaServiciosSchema = z
+  .object({
+    q: z
+      .string()
+      .trim()
+      .min(2, { message: 'La búsqueda debe tener al menos 2 caracteres' })
+      .max(100, { message: 'La búsqueda no puede superar los 100 caracteres' })
+      .optional(),
+    categoria: z.string().trim().toLowerCase().min(1).optional(),
+    zona: z.string().trim().toLowerCase().min(1).optional(),
+    precioMin: z.coerce.number({ message: 'precioMin debe ser un número' }).min(0).optional(),
+    precioMax: z.coerce.number({ message: 'precioMax debe ser un número' }).min(0).optional(),
+    soloActivos: z
+      .enum(['true', 'false'], { message: 'soloActivos debe ser true o false' })
+      .default('true')
+      .transform((valor) => valor === 'true'),
+    orden: z.enum(ORDENES_BUSQUEDA, { message: `El orden debe ser uno de: ${ORDENES_BUSQUEDA.join(', ')}` }).optional(),
+    limite: z.coerce.number({ message: 'limite debe ser un número' }).int().min(1).max(50).default(20),
+    cursor: z.string().trim().min(1).optional(),
+  })
+  .refine(
+    (datos) => datos.precioMin === undefined || datos.precioMax === undefined || datos.precioMin <= datos.precioMax,
+    {
+      message: 'precioMax no puede ser menor a precioMin',
+      path: ['precioMax'],
+    },
+  )
+  .refine((datos) => datos.orden !== 'relevancia' || datos.q !== undefined, {
+    message: 'El orden por relevancia requiere un texto de búsqueda (q)',
+    path: ['orden'],
+  });
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type BusquedaServicios = z.infer<typeof busquedaServiciosSchema>;
+
+/**
+ * cercanosQuerySchema
+ *
+ * Valida la query string del GET /api/servicios/cercanos.
+ * - lat / lng: posición del usuario.
+ * - radioKm: distancia máxima de búsqueda (1 a 100 km, default 10).
+ * - categoria: filtro opcional.
+ * - limite: cantidad de resultados (1 a 50, default 20).
+ */
+export const cercanosQuerySchema = z.object({
+  lat: z.coerce.number({ message: 'lat debe ser un número' }).min(-90).max(90),
+  lng: z.coerce.number({ message: 'lng debe ser un número' }).min(-180).max(180),
+  radioKm: z.coerce.number({ message: 'radioKm debe ser un número' }).min(1).max(100).default(10),
+  categoria: z.string().trim().toLowerCase().min(1).optional(),
+  limite: z.coerce.number({ message: 'limite debe ser un número' }).int().min(1).max(50).default(20),
+});
+
+/**
+ * Tipo de la query ya validada y normalizada (lo que recibe el controlador).
+ */
+export type CercanosQuery = z.infer<typeof cercanosQuerySchema>;
@@ -0,0 +1,49 @@
+/**
+ * usuarios.validacion.ts
+ *
+ * Define los esquemas de validación para las rutas de usuarios.
+ * Usa Zod en su versión más compatible (sin required_error).
+ */
+
+import { z } from 'zod';
+
+/**
+ * actualizarPerfilSchema
+ *
+ * Valida el body del PATCH /api/usuarios/yo.
+ * Todos los campos son opcionales, pero debe venir al menos uno.
+ * Los campos opcionales del perfil aceptan null para borrarlos.
+ * El teléfono y el rol NO se pueden modificar desde acá.
+ */
+export const actualizarPerfilSchema = z
+  .object({
+    nombre: z
+      .string()
+      .trim()
+      .min(2, { message: 'El nombre debe tener al menos 2 caracteres' })
+      .max(60, { message: 'El nombre no puede superar los 60 caracteres' })
+      .nullable()
+      .optional(),
+    avatarUrl: z
+      .url({ protocol: /^https$/, message: 'El avatar debe ser una URL https válida' })
+      .nullable()
+      .optional(),
+    email: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .pipe(z.email({ message: 'El email no es válido' }))
+      .nullable()
+      .optional(),
+    zonaPreferida: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, { message: 'La zona no puede estar vacía' })
+      .nullable()
+      .optional(),
+    esPrestador: z.boolean().optional(),
+  })
+  .refine((datos) => Object.keys(datos).length > 0, {
+    message: 'Debe enviarse al menos un campo para actualizar',
+  });